@@ -8,6 +8,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // 📄 pdf-parse 依赖 pdfjs worker，交给 Node 原生加载，不参与打包
+  serverExternalPackages: ["pdf-parse"],
   eslint: {
     // ✅ Next 默认 build 会跑 lint，国内/快速迭代阶段可以先让交付链路跑通
     ignoreDuringBuilds: true,
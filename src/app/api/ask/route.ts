@@ -1,46 +1,71 @@
 import { NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
-import { embeddings } from "@/lib/embedClient";
+import { getVectorStore } from "@/lib/vectorStore";
+import { embedTexts } from "@/lib/embeddingCache";
+import { embeddingModelId } from "@/lib/embedClient";
+import { getEmbeddingIndexState } from "@/lib/embeddingIndex";
 import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import {
+  InvalidPromptTemplateError,
+  normalizeLanguage,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+} from "@/lib/promptTemplates";
+import type { PromptTemplate } from "@/types/prompt";
 
 export const runtime = "nodejs";
 
 export async function POST(req: Request) {
   try {
-    const { question } = await req.json();
+    const { question, promptTemplate, language } = await req.json();
     if (!question) throw new Error("Missing question");
 
-    // 1️⃣ Embed question
-    const [queryVector] = await embeddings.embedDocuments([question]);
+    // 📝 与 /api/search 共用提示词模板，不传时用默认模板
+    let template: PromptTemplate;
+    try {
+      template = await resolvePromptTemplate(promptTemplate);
+    } catch (e) {
+      if (!(e instanceof InvalidPromptTemplateError)) throw e;
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+
+    // 1️⃣ Embed question（与索引同一个模型）
+    const { active } = await getEmbeddingIndexState();
+    const {
+      vectors: [queryVector],
+    } = await embedTexts([question], active);
 
     // 2️⃣ Search similar chunks
-    const { data: matches, error } = await supabase.rpc("match_documents", {
-      query_embedding: queryVector,
-      match_threshold: 0.4,
-      match_count: 5,
+    const store = await getVectorStore();
+    const matches = await store.search(queryVector, {
+      model: embeddingModelId(active),
+      threshold: 0.4,
+      limit: 5,
+      filter: null,
     });
-    if (error) throw error;
 
     if (!matches?.length)
       return new Response("No relevant info found.", { status: 200 });
 
-    const context = matches.map((m: any) => m.content).join("\n---\n");
-
-    const prompt = `
-你是一名企业知识问答助手，请根据以下提供的文档内容，用简洁、正式的中文回答问题。
-如果找不到答案，请直接回复：“文档中未提及相关信息。”
-
-【文档内容】
-${context}
+    const context = matches.map((m) => m.content).join("\n---\n");
 
-【问题】
-${question}
-`;
+    const variables = { question, language: normalizeLanguage(language) };
 
     // 3️⃣ Start streaming response
     const completion = await aiClient.chat.completions.create({
       model: AI_MODEL,
-      messages: [{ role: "user", content: prompt }],
+      messages: [
+        {
+          role: "system",
+          content: renderPromptTemplate(template.system_prompt, variables),
+        },
+        {
+          role: "user",
+          content: renderPromptTemplate(template.user_prompt, {
+            ...variables,
+            context,
+          }),
+        },
+      ],
       stream: true,
     });
 
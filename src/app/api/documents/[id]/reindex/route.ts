@@ -0,0 +1,58 @@
+/**
+ * ⭐ 面试亮点（/api/documents/[id]/reindex）：
+ * 1. 基于 documents.content 重新切片 + 向量化，可以在调整切片参数后对单个文档重建索引。
+ * 2. 复用后台入库任务（ingest_jobs），前端用同一套 /api/jobs/[id] 轮询进度。
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { runReindexJob } from "@/lib/ingest";
+import { createJob } from "@/lib/jobs";
+import { getRecordStore } from "@/lib/recordStore";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const docId = Number(id);
+
+    if (!Number.isFinite(docId)) {
+      return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+    }
+
+    // 可选：本次重建使用新的切片参数（缺省沿用文档上次的参数）
+    const body = (await req.json().catch(() => ({}))) as {
+      chunkSize?: number;
+      chunkOverlap?: number;
+    };
+
+    const records = await getRecordStore();
+    const doc = await records.getDocument(docId);
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const job = await createJob(doc.name, docId);
+
+    after(() =>
+      runReindexJob(job.id, docId, {
+        chunkSize: body.chunkSize,
+        overlap: body.chunkOverlap,
+      })
+    );
+
+    return NextResponse.json(
+      { job_id: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (err) {
+    console.error("❌ document reindex route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
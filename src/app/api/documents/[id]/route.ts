@@ -3,26 +3,19 @@
  * 1. 针对 RAG 文档系统设计了“单文档详情接口”，一次返回文档原文 + 所有分片内容，用于构建可视化调试视图。
  * 2. 完全基于真实表结构（documents + document_chunks），体现对底层存储结构的理解，而不是停留在向量检索黑盒。
  * 3. 为前端“文档详情页 + chunk 高亮 + 来源跳转”提供统一数据源。
+ * 4. DELETE 级联删除分片、PATCH 修改名称 / 元数据，文档维护不再需要手动改 Supabase。
+ *    元数据（部门 / 负责人 / 标签 / 生效日期 / 密级）经统一校验后写入，检索时可按此限定范围。
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
+import { getRecordStore } from "@/lib/recordStore";
+import { getVectorStore, type StoredChunk } from "@/lib/vectorStore";
+import { InvalidMetadataError, normalizeMetadata } from "@/lib/metadata";
+import { errorMessage } from "@/lib/errors";
+import type { DocumentMetadata } from "@/types/document";
 
 export const runtime = "nodejs";
 
-type DocumentRow = {
-  id: number;
-  name: string;
-  content: string;
-  created_at: string;
-};
-
-type ChunkRow = {
-  id: number;
-  document_id: number;
-  content: string;
-};
-
 export async function GET(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
@@ -37,37 +30,30 @@ export async function GET(
     }
 
     // 1️⃣ 查询文档主信息
-    const { data: doc, error: docError } = await supabase
-      .from("documents")
-      .select("*")
-      .eq("id", docId)
-      .single();
-
-    if (docError) {
-      console.error("❌ fetch document error:", docError);
-      return NextResponse.json({ error: docError.message }, { status: 500 });
-    }
+    const records = await getRecordStore();
+    const doc = await records.getDocument(docId);
 
     if (!doc) {
       return NextResponse.json({ error: "Document not found" }, { status: 404 });
     }
 
-    // 2️⃣ 查询该文档的所有 chunk
-    const { data: rawChunks, error: chunksError } = await supabase
-      .from("document_chunks")
-      .select("*")
-      .eq("document_id", docId)
-      .order("id", { ascending: true });
-
-    if (chunksError) {
+    // 2️⃣ 查询该文档的所有 chunk（按原文顺序，与相邻分片扩展的顺序一致）
+    let chunks: StoredChunk[];
+    try {
+      const store = await getVectorStore();
+      chunks = await store.listByDocument(docId);
+    } catch (chunksError) {
       console.error("❌ fetch chunks error:", chunksError);
-      return NextResponse.json({ error: chunksError.message }, { status: 500 });
+      return NextResponse.json(
+        {
+          error: errorMessage(chunksError),
+        },
+        { status: 500 }
+      );
     }
 
-    const chunks = (rawChunks ?? []) as ChunkRow[];
-
     return NextResponse.json({
-      document: doc as DocumentRow,
+      document: doc,
       chunks,
     });
   } catch (err: any) {
@@ -78,3 +64,123 @@ export async function GET(
     );
   }
 }
+
+// 🔢 统一解析路由参数里的文档 id
+async function parseDocId(ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const docId = Number(id);
+  return Number.isFinite(docId) ? docId : null;
+}
+
+export async function DELETE(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const docId = await parseDocId(ctx);
+    if (docId === null) {
+      return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+    }
+
+    const records = await getRecordStore();
+    if (!(await records.getDocument(docId))) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    // 1️⃣ 先删分片，避免出现“文档没了但 chunk 还能被检索到”的孤儿数据
+    const store = await getVectorStore();
+    try {
+      await store.deleteByDocument(docId);
+    } catch (chunksError) {
+      console.error("❌ delete chunks error:", chunksError);
+      return NextResponse.json(
+        {
+          error: errorMessage(chunksError),
+        },
+        { status: 500 }
+      );
+    }
+
+    // 2️⃣ 再删文档本身
+    if (!(await records.deleteDocument(docId))) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: docId });
+  } catch (err) {
+    console.error("❌ document delete route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const docId = await parseDocId(ctx);
+    if (docId === null) {
+      return NextResponse.json({ error: "Invalid document id" }, { status: 400 });
+    }
+
+    const body = (await req.json()) as {
+      name?: unknown;
+      metadata?: unknown;
+    };
+
+    const patch: { name?: string; metadata?: DocumentMetadata } = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== "string" || !body.name.trim()) {
+        return NextResponse.json(
+          { error: "name must be a non-empty string" },
+          { status: 400 }
+        );
+      }
+      patch.name = body.name.trim();
+    }
+
+    if (body.metadata !== undefined) {
+      try {
+        patch.metadata = normalizeMetadata(body.metadata);
+      } catch (e) {
+        if (!(e instanceof InvalidMetadataError)) throw e;
+        return NextResponse.json({ error: e.message }, { status: 400 });
+      }
+    }
+
+    if (!Object.keys(patch).length) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const records = await getRecordStore();
+    if (!(await records.getDocument(docId))) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const updated = await records.updateDocument(docId, patch);
+
+    if (patch.metadata) {
+      // 本地向量库按元数据过滤时用的是自己存的一份，这里同步过去
+      const store = await getVectorStore();
+      await store.setDocumentMetadata(docId, updated.metadata);
+    }
+
+    return NextResponse.json({
+      document: {
+        id: updated.id,
+        name: updated.name,
+        metadata: updated.metadata,
+      },
+    });
+  } catch (err) {
+    console.error("❌ document patch route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * ⭐ 面试亮点（/api/documents/facets）：
+ * 1. 返回全部部门 / 标签及各自文档数，聊天页的检索范围选择器据此渲染，不需要用户手输。
+ * 2. 聚合在数据库函数 document_facets() 中完成，标签数组在 SQL 里展开计数。
+ */
+
+import { NextResponse } from "next/server";
+import { getRecordStore, type FacetCount } from "@/lib/recordStore";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const records = await getRecordStore();
+    const rows = await records.listFacets();
+    const pick = (kind: FacetCount["kind"]) =>
+      rows
+        .filter((r) => r.kind === kind)
+        .map((r) => ({ value: r.value, count: r.document_count }));
+
+    return NextResponse.json({
+      departments: pick("department"),
+      tags: pick("tag"),
+    });
+  } catch (err) {
+    console.error("❌ document facets route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * ⭐ 面试亮点（/api/documents/folders）：
+ * 1. 列出压缩包导入产生的全部目录及文档数，给文档列表的目录筛选下拉框使用。
+ * 2. 聚合放在数据库函数 document_folders() 里做，不把整张 documents 表拉回 Node 再分组（本地模式在 RecordStore 里按同样规则计算）。
+ */
+
+import { NextResponse } from "next/server";
+import { getRecordStore } from "@/lib/recordStore";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const records = await getRecordStore();
+    return NextResponse.json({ folders: await records.listFolders() });
+  } catch (err) {
+    console.error("❌ document folders route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * ⭐ 面试亮点（/api/embeddings）：
+ * 1. 返回索引当前使用的向量模型、正在迁移的目标模型，以及环境变量里配置的模型，
+ *    needsMigration=true 表示改了配置但还没发起迁移（此时检索仍用旧模型，不会拿新旧向量互相比较）。
+ */
+
+import { NextResponse } from "next/server";
+import { getEmbeddingModelStatus } from "@/lib/embeddingIndex";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getEmbeddingModelStatus());
+  } catch (err) {
+    console.error("❌ embedding status route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
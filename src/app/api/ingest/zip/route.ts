@@ -0,0 +1,49 @@
+/**
+ * ⭐ 面试亮点（/api/ingest/zip）：
+ * 1. 整个手册导出包一次上传：压缩包里每个支持的文件都成为一篇文档，不用前端几百次串行调用 /api/upload。
+ * 2. 相对目录写入 metadata.category，文档列表可按目录筛选；同一路径重复导入时覆盖旧版本。
+ * 3. 后台任务逐文件记录 导入 / 重复跳过 / 不支持 / 失败，前端轮询 job.report 展示汇总。
+ */
+
+import { NextResponse, after } from "next/server";
+import { runZipImportJob } from "@/lib/bulkImport";
+import { normalizeChunkOptions } from "@/lib/chunker";
+import { createJob } from "@/lib/jobs";
+import { InvalidZipError, readZipEntries } from "@/lib/zip";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file") as File | null;
+    if (!file) throw new Error("No file uploaded");
+
+    const { chunkSize, overlap } = normalizeChunkOptions(
+      Number(formData.get("chunkSize") ?? NaN),
+      Number(formData.get("chunkOverlap") ?? NaN)
+    );
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    // ✅ 先读一遍目录，坏包直接 400，不必建任务
+    readZipEntries(buffer);
+
+    const job = await createJob(file.name);
+    after(() => runZipImportJob(job.id, { buffer, chunkSize, overlap }));
+
+    return NextResponse.json(
+      { job_id: job.id, filename: file.name, status: job.status },
+      { status: 202 }
+    );
+  } catch (err) {
+    if (err instanceof InvalidZipError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("❌ Zip import error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Import failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * ⭐ 面试亮点（/api/jobs/[id]/retry）：
+ * 1. 失败任务如果已经建好了文档（抽取成功、向量化失败），直接从 documents.content 重新切片 + 向量化，无需重新上传。
+ * 2. 抽取阶段就失败的任务没有可复用的内容，返回 409，由前端用本地 File 重新上传。
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { runReindexJob } from "@/lib/ingest";
+import { getJob, updateJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (job.status !== "failed" && job.index_status !== "partial") {
+      return NextResponse.json(
+        { error: "Only failed or partially indexed jobs can be retried" },
+        { status: 409 }
+      );
+    }
+    if (!job.document_id) {
+      return NextResponse.json(
+        { error: "Source content was not saved, please upload the file again" },
+        { status: 409 }
+      );
+    }
+
+    await updateJob(job.id, {
+      status: "queued",
+      progress_done: 0,
+      progress_total: 0,
+      index_status: null,
+      error: null,
+    });
+
+    const documentId = job.document_id;
+    after(() => runReindexJob(job.id, documentId));
+
+    return NextResponse.json(
+      { job_id: job.id, status: "queued" },
+      { status: 202 }
+    );
+  } catch (err) {
+    console.error("❌ job retry route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
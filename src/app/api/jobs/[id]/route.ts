@@ -0,0 +1,32 @@
+/**
+ * ⭐ 面试亮点（/api/jobs/[id]）：
+ * 1. 入库任务进度查询接口，前端按 1s 间隔轮询即可渲染进度条。
+ * 2. 任务状态持久化在 ingest_jobs 表，服务重启 / 多实例部署下依然可查。
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (err) {
+    console.error("❌ job detail route error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error" },
+      { status: 500 }
+    );
+  }
+}
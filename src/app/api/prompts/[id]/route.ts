@@ -0,0 +1,53 @@
+/**
+ * ⭐ 面试亮点（/api/prompts/[id]）：
+ * 1. 版本内容不可修改，只能切换默认模板：PATCH { is_default: true } 把某个具体版本设为默认，
+ *    回滚提示词就是把旧版本重新设为默认，切换在一个 SQL 事务里完成。
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPromptTemplate,
+  setDefaultPromptTemplate,
+} from "@/lib/promptTemplates";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+export async function PATCH(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const templateId = Number(id);
+    if (!Number.isInteger(templateId)) {
+      return NextResponse.json(
+        { error: "Invalid template id" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await req.json().catch(() => ({}))) as {
+      is_default?: unknown;
+    };
+    if (body.is_default !== true) {
+      return NextResponse.json(
+        { error: "Only { is_default: true } is supported" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getPromptTemplate(templateId))) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    await setDefaultPromptTemplate(templateId);
+    return NextResponse.json({ id: templateId, is_default: true });
+  } catch (err) {
+    console.error("❌ set default prompt template error:", err);
+    return NextResponse.json({ error: errorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * ⭐ 面试亮点（/api/prompts）：
+ * 1. 提示词模板不再写死在路由里：GET 返回全部模板及历史版本，POST 保存即新增一个版本（旧版本不可变），
+ *    运行记录里的 name@version 永远能对上当时的原文，回答质量回退可以追到具体的提示词改动。
+ * 2. 保存前统一校验变量（{{context}} / {{question}} / {{language}}），上下文只能放在用户消息里，
+ *    保证 token 预算照常生效；可以在保存时直接设为默认模板。
+ */
+
+import { NextResponse } from "next/server";
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  InvalidPromptTemplateError,
+  PromptTemplateConflictError,
+  createPromptTemplateVersion,
+  listPromptTemplates,
+  validatePromptTemplate,
+} from "@/lib/promptTemplates";
+import { errorMessage } from "@/lib/errors";
+import type { PromptTemplateDraft } from "@/types/prompt";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const templates = await listPromptTemplates();
+    return NextResponse.json({ templates, builtin: BUILTIN_PROMPT_TEMPLATE });
+  } catch (err) {
+    console.error("❌ list prompt templates error:", err);
+    return NextResponse.json({ error: errorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    let draft: PromptTemplateDraft;
+    try {
+      draft = validatePromptTemplate(body);
+    } catch (e) {
+      if (!(e instanceof InvalidPromptTemplateError)) throw e;
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+
+    try {
+      const template = await createPromptTemplateVersion(draft, {
+        makeDefault: body?.makeDefault === true,
+      });
+      return NextResponse.json(template, { status: 201 });
+    } catch (e) {
+      // 两个人同时保存同一个模板：版本号撞了，让后保存的人刷新后重试
+      if (!(e instanceof PromptTemplateConflictError)) throw e;
+      return NextResponse.json({ error: e.message }, { status: 409 });
+    }
+  } catch (err) {
+    console.error("❌ create prompt template error:", err);
+    return NextResponse.json({ error: errorMessage(err) }, { status: 500 });
+  }
+}
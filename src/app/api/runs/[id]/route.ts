@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
+import { getRecordStore } from "@/lib/recordStore";
 
 export const runtime = "nodejs";
 
@@ -21,16 +21,8 @@ export async function GET(
       return NextResponse.json({ error: "Invalid id" }, { status: 400 });
     }
 
-    const { data, error } = await supabase
-      .from("run_history")
-      .select("*")
-      .eq("id", runId)
-      .single();
-
-    if (error) {
-      console.error("❌ fetch run detail error:", error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    const records = await getRecordStore();
+    const data = await records.getRun(runId);
 
     if (!data) {
       return NextResponse.json({ error: "Run not found" }, { status: 404 });
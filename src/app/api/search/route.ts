@@ -5,12 +5,101 @@
  *    命中片段 / steps 全量写入 run_history 表，实现“运行历史 & 调试回放”能力。
  * 3. match_documents 的参数完全由前端透传（topK / threshold），体现对 RAG 调优的理解，
  *    也为后续 A/B、效果评估打基础。
+ * 4. 支持按部门 / 标签 / 密级限定检索范围，过滤在 match_documents 的 SQL 内完成（先过滤再取 TopK），
+ *    HR 问题不会再被工程 runbook 挤占名额。
+ * 5. 混合检索：关键词（编号 / SKU / 错误码精确匹配）与向量检索并行，加权 RRF 融合，
+ *    每条来源标注命中通道（keyword / vector / both），权重可在前端配置面板调节。
+ * 6. 可选重排序（LLM 打分 / cross-encoder，可插拔）：先多召回候选再精排取 TopK，作为独立 step 展示，
+ *    来源同时保留原始相似度和 rerank 分数，方便评估重排是否真的有用。
+ * 7. 多轮查询改写：结合 history 把追问改写成独立查询后再向量化 / 检索，改写结果展示在步骤里并写入运行记录，
+ *    可按请求关闭（rewriteQuery=false）。
+ * 8. 可选查询扩展（multi-query / HyDE）：多条查询分别检索后 RRF 合并去重，每条生成的查询都作为 step 展示，
+ *    并写入 run_history.expanded_queries 便于审计“到底搜了什么”。
+ * 9. 可选多样性筛选：MMR（λ 可调）+ 单文档条数上限，避免重叠切片 / 重复文档挤满上下文，
+ *    参数写入 run_history，方便对比开关前后的回答质量。
+ * 10. 可选相邻分片扩展：命中后取同一文档前后 N 个分片，重叠窗口合并成连续原文再交给 LLM，
+ *     来源记录窗口内的分片 id，文档详情页可高亮整段。
+ * 11. 按 token 预算组装提示词：上下文窗口 − 预留回答 = 预算，按 系统提示词 → 高分片段 → 最近对话 的优先级填充，
+ *     被丢弃的片段 / 历史轮次展示在步骤里并写入 run_history.prompt_stats，长对话不会再直接超窗报错。
+ * 12. 查询向量走缓存（内存 LRU + 持久化表，按模型隔离），高频 FAQ 不再重复调用 embedding 接口，
+ *     命中情况展示在“生成查询向量”步骤里。
+ * 13. 向量模型可配置且记录在每个分片上：查询始终用索引当前的模型向量化，只和同一模型的分片比较；
+ *     配置换了模型但还没迁移完时继续用旧模型并在步骤里提示，所用模型写入 run_history.embedding_model。
+ * 14. 行内引用：提示词里的片段按 sources 顺序编号，模型用 [n] 标注依据；流式输出时服务端校验编号，
+ *     超出来源范围的引用直接去掉，前端把 [n] 渲染成跳转到对应分片的徽标。
+ * 15. 可选回答核查（verifyAnswer=true）：生成后逐句对照进入提示词的片段判断有无依据，
+ *     以 verification 事件推给前端标出无依据的句子，groundedness 写入 run_history 供合规抽查。
+ * 16. 真正的 function calling Agent：模型可以自行调用 检索知识库 / 读整篇文档 / 按标签列文档 / 取相邻分片，
+ *     轮数和工具结果 token 都有上限；每次调用和结果都是独立 step 写入 run_history.steps，
+ *     工具检索到的分片接在 sources 后面继续编号，回答里同样可以 [n] 引用（useTools=true 开启，
+ *     不是所有平台都支持 function calling，默认关闭）。
+ * 17. 提示词来自版本化模板（promptTemplate=name 或 name@version，不传用默认模板），变量 {{context}} / {{question}} / {{language}}；
+ *     引用与工具说明由服务端追加（说明本身也有版本号），模板改不坏协议；所用模板、版本和说明版本写入 run_history，
+ *     回答质量回退能追到具体改动。
  */
 
 import { NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
-import { embeddings } from "@/lib/embedClient";
-import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import { getRecordStore } from "@/lib/recordStore";
+import { describeCacheStats, embedTexts } from "@/lib/embeddingCache";
+import { describeEmbeddingModel, embeddingModelId } from "@/lib/embedClient";
+import { getEmbeddingModelStatus } from "@/lib/embeddingIndex";
+import { AI_MODEL } from "@/lib/ai-client";
+import { normalizeKeywordWeight } from "@/lib/hybrid";
+import { condenseQuestion } from "@/lib/queryRewrite";
+import {
+  EXPANDED_QUERY_LABELS,
+  expandQuery,
+  normalizeExpansionMode,
+  type ExpandedQuery,
+} from "@/lib/expansion";
+import {
+  hybridRetrieve,
+  multiRetrieve,
+  type RetrievalResult,
+  type RetrievedChunk,
+} from "@/lib/retrieval";
+import {
+  RERANK_MAX_CANDIDATES,
+  RERANK_OVERFETCH,
+  getReranker,
+  normalizeRerankerChoice,
+  rerankChunks,
+} from "@/lib/rerankers";
+import {
+  InvalidMetadataError,
+  describeFilter,
+  normalizeMetadataFilter,
+} from "@/lib/metadata";
+import {
+  DIVERSITY_MAX_CANDIDATES,
+  DIVERSITY_OVERFETCH,
+  isDiversityEnabled,
+  normalizeMaxPerDocument,
+  normalizeMmrLambda,
+  selectDiverse,
+  type DiversityOptions,
+} from "@/lib/diversity";
+import { expandNeighbors, normalizeNeighborWindow } from "@/lib/contextWindow";
+import { buildPrompt, type PromptStats } from "@/lib/promptBuilder";
+import { citationLabel, createCitationFilter } from "@/lib/citations";
+import { verifyAnswer } from "@/lib/verification";
+import { MAX_TOOL_ROUNDS, runAgent } from "@/lib/agent";
+import {
+  CITATION_INSTRUCTIONS,
+  InvalidPromptTemplateError,
+  PROMPT_INSTRUCTIONS_VERSION,
+  noAnswerReplies,
+  normalizeLanguage,
+  renderPromptTemplate,
+  renderSystemPrompt,
+  resolvePromptTemplate,
+  templateRef,
+  toolInstructions,
+} from "@/lib/promptTemplates";
+import { errorMessage } from "@/lib/errors";
+import type { MetadataFilter } from "@/types/document";
+import type { AnswerVerification } from "@/types/chat";
+import type { PromptTemplate } from "@/types/prompt";
 
 export const runtime = "nodejs";
 
@@ -19,12 +108,14 @@ type HistoryItem = {
   content: string;
 };
 
-type MatchRow = {
-  id: number;
-  document_id: number;
-  content: string;
-  similarity?: number;
-  score?: number;
+// 发给前端 / 写入 run_history 的来源：开启重排时多出 rerank_score 和重排前名次，
+// 开启相邻分片扩展时多出窗口内的分片 id，Agent 工具补充的来源记录是哪个工具找到的
+type SourceChunk = RetrievedChunk & {
+  rerank_score?: number;
+  retrieval_rank?: number;
+  window_chunk_ids?: number[];
+  hit_chunk_ids?: number[];
+  via_tool?: string;
 };
 
 type StepStatus = "pending" | "running" | "done" | "error";
@@ -38,11 +129,40 @@ type StepLog = {
 
 export async function POST(req: Request) {
   try {
-    const { question, history, topK, threshold } = (await req.json()) as {
+    const {
+      question,
+      history,
+      topK,
+      threshold,
+      filter,
+      keywordWeight,
+      reranker,
+      rewriteQuery,
+      expansion,
+      mmrLambda,
+      maxPerDocument,
+      neighborWindow,
+      verifyAnswer: verifyAnswerParam,
+      useTools,
+      promptTemplate,
+      language,
+    } = (await req.json()) as {
       question?: string;
       history?: HistoryItem[];
       topK?: number;
       threshold?: number;
+      filter?: MetadataFilter;
+      keywordWeight?: number;
+      reranker?: string;
+      rewriteQuery?: boolean;
+      expansion?: string;
+      mmrLambda?: number;
+      maxPerDocument?: number;
+      neighborWindow?: number;
+      verifyAnswer?: boolean;
+      useTools?: boolean;
+      promptTemplate?: string;
+      language?: string;
     };
 
     if (!question) {
@@ -55,6 +175,49 @@ export async function POST(req: Request) {
       typeof threshold === "number" && threshold >= 0 && threshold <= 1
         ? threshold
         : 0.4;
+    const safeKeywordWeight = normalizeKeywordWeight(keywordWeight);
+    const rerankerChoice = normalizeRerankerChoice(reranker);
+    const expansionMode = normalizeExpansionMode(expansion);
+    const diversity: DiversityOptions = {
+      lambda: normalizeMmrLambda(mmrLambda),
+      maxPerDocument: normalizeMaxPerDocument(maxPerDocument),
+    };
+    const diversityOn = isDiversityEnabled(diversity);
+    // 开启重排 / 多样性筛选时多召回一些候选，留给后续步骤挑选
+    const retrieveK = Math.max(
+      rerankerChoice === "none"
+        ? safeTopK
+        : Math.min(safeTopK * RERANK_OVERFETCH, RERANK_MAX_CANDIDATES),
+      diversityOn
+        ? Math.min(safeTopK * DIVERSITY_OVERFETCH, DIVERSITY_MAX_CANDIDATES)
+        : safeTopK
+    );
+    const safeNeighborWindow = normalizeNeighborWindow(neighborWindow);
+    // 后面还要做多样性筛选时，重排只排序不截断
+    const rerankKeep = diversityOn ? retrieveK : safeTopK;
+    const verifyOn = verifyAnswerParam === true;
+    const toolsOn = useTools === true;
+    const safeLanguage = normalizeLanguage(language);
+
+    // 🎯 检索范围：格式不对直接 400，空范围表示全库
+    let safeFilter: MetadataFilter | null;
+    try {
+      safeFilter = normalizeMetadataFilter(filter);
+    } catch (e) {
+      if (!(e instanceof InvalidMetadataError)) throw e;
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+
+    // 📝 提示词模板：指定了不存在的模板直接 400，不悄悄换成默认模板
+    let template: PromptTemplate;
+    try {
+      template = await resolvePromptTemplate(promptTemplate);
+    } catch (e) {
+      if (!(e instanceof InvalidPromptTemplateError)) throw e;
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+    // 🙅 拒答措辞跟着模板和回答语言走：检索不到片段时直接回复，核查时跳过
+    const refusals = noAnswerReplies(template, safeLanguage);
 
     const encoder = new TextEncoder();
 
@@ -64,9 +227,14 @@ export async function POST(req: Request) {
 
         // 💾 运行历史采集：在流式过程中逐步填充这些变量
         const stepsLog: StepLog[] = [];
-        let sourcesForLog: MatchRow[] = [];
+        let sourcesForLog: SourceChunk[] = [];
         let matchedCountForLog = 0;
         let answerForLog = "";
+        let rewrittenQueryForLog: string | null = null;
+        let expandedQueriesForLog: ExpandedQuery[] | null = null;
+        let promptStatsForLog: PromptStats | null = null;
+        let embeddingModelForLog: string | null = null;
+        let verificationForLog: AnswerVerification | null = null;
 
         const sendJSON = (obj: any) => {
           controller.enqueue(encoder.encode(JSON.stringify(obj) + "\n"));
@@ -95,11 +263,29 @@ export async function POST(req: Request) {
         const flushRunHistory = async () => {
           try {
             const durationMs = Date.now() - startTime;
-            await supabase.from("run_history").insert({
+            const records = await getRecordStore();
+            await records.insertRun({
               question,
               answer: answerForLog || null,
               topk: safeTopK,
               threshold: safeThreshold,
+              filter: safeFilter,
+              keyword_weight: safeKeywordWeight,
+              reranker: rerankerChoice,
+              rewritten_query: rewrittenQueryForLog,
+              expansion: expansionMode,
+              expanded_queries: expandedQueriesForLog,
+              mmr_lambda: diversity.lambda,
+              max_per_document: diversity.maxPerDocument,
+              neighbor_window: safeNeighborWindow,
+              prompt_stats: promptStatsForLog,
+              embedding_model: embeddingModelForLog,
+              verification: verificationForLog,
+              groundedness: verificationForLog?.score ?? null,
+              prompt_template: template.name,
+              prompt_template_id: template.id,
+              prompt_template_version: template.version,
+              prompt_instructions_version: PROMPT_INSTRUCTIONS_VERSION,
               matched_count: matchedCountForLog,
               duration_ms: durationMs,
               steps: stepsLog,
@@ -115,39 +301,125 @@ export async function POST(req: Request) {
           // Step 1：收到问题
           sendStep("received", "收到问题", "done", question);
 
-          // Step 2：生成查询向量
+          // Step 2：生成查询向量（默认先结合历史改写成独立问题）
           sendStep("embed", "生成查询向量", "running");
-          const [queryVector] = await embeddings.embedDocuments([question]);
-          sendStep("embed", "生成查询向量", "done");
+          let searchQuery = question;
+          let rewriteNote = "";
+          if (rewriteQuery !== false && history?.length) {
+            try {
+              searchQuery = await condenseQuestion(question, history);
+              rewrittenQueryForLog = searchQuery;
+              rewriteNote =
+                searchQuery === question
+                  ? "（无需改写）"
+                  : "（结合对话历史改写）";
+            } catch (e) {
+              // 改写失败不影响检索，退回原问题
+              console.error("❌ Query rewrite error:", e);
+              rewriteNote = "（改写失败，使用原问题）";
+            }
+          }
+
+          // Step 2.5：查询扩展（可选）——每条生成的查询单独作为一个 step 展示
+          let queries: ExpandedQuery[] = [
+            { kind: "original", text: searchQuery },
+          ];
+          if (expansionMode !== "none") {
+            sendStep("expand", "扩展检索查询", "running", expansionMode);
+            try {
+              queries = await expandQuery(searchQuery, expansionMode);
+              expandedQueriesForLog = queries;
+              sendStep(
+                "expand",
+                "扩展检索查询",
+                "done",
+                `${expansionMode}：共 ${queries.length} 条查询`
+              );
+            } catch (e) {
+              console.error("❌ Query expansion error:", e);
+              sendStep(
+                "expand",
+                "扩展检索查询",
+                "error",
+                `${errorMessage(e)}（仅用原问题检索）`
+              );
+            }
+          }
+          const expandStepTitle = (q: ExpandedQuery, i: number) =>
+            `扩展查询 ${i}：${EXPANDED_QUERY_LABELS[q.kind]}`;
+          queries.forEach((q, i) => {
+            if (q.kind !== "original") {
+              sendStep(`expand-${i}`, expandStepTitle(q, i), "done", q.text);
+            }
+          });
+
+          // 🔢 用索引当前的模型向量化：配置换了模型但还没迁移完时，旧向量只能和旧模型比较
+          const embeddingStatus = await getEmbeddingModelStatus();
+          const embedding = embeddingStatus.active;
+          embeddingModelForLog = embeddingModelId(embedding);
+          const modelNote = embeddingStatus.pending
+            ? `（迁移到 ${describeEmbeddingModel(embeddingStatus.pending)} 中，切换前继续使用当前模型）`
+            : embeddingStatus.needsMigration
+              ? `（配置的 ${describeEmbeddingModel(embeddingStatus.configured)} 尚未迁移，继续使用索引模型）`
+              : "";
+
+          const { vectors: queryVectors, stats: cacheStats } = await embedTexts(
+            queries.map((q) => q.text),
+            embedding
+          );
+          sendStep(
+            "embed",
+            "生成查询向量",
+            "done",
+            `检索查询：${searchQuery}${rewriteNote}${
+              queries.length > 1 ? `；共向量化 ${queries.length} 条查询` : ""
+            }；模型 ${describeEmbeddingModel(embedding)}${modelNote}；${describeCacheStats(cacheStats)}`
+          );
 
           // Step 3：检索相关文档片段（RAG）
           sendStep(
             "retrieve",
             "检索相关文档片段",
             "running",
-            `topK=${safeTopK}, threshold=${safeThreshold}`
-          );
-
-          const { data: rawMatches, error } = await supabase.rpc(
-            "match_documents",
-            {
-              query_embedding: queryVector,
-              match_threshold: safeThreshold,
-              match_count: safeTopK,
-            }
+            `topK=${retrieveK}, threshold=${safeThreshold}, 关键词权重=${safeKeywordWeight}, 范围：${describeFilter(safeFilter)}`
           );
 
-          if (error) {
-            sendStep(
-              "retrieve",
-              "检索相关文档片段",
-              "error",
-              error.message
-            );
-            throw error;
+          let retrieval: RetrievalResult;
+          try {
+            const retrievalOptions = {
+              embedding,
+              topK: retrieveK,
+              threshold: safeThreshold,
+              filter: safeFilter,
+              keywordWeight: safeKeywordWeight,
+            };
+            retrieval =
+              queries.length > 1
+                ? await multiRetrieve(queries, queryVectors, retrievalOptions)
+                : await hybridRetrieve(
+                    searchQuery,
+                    queryVectors[0],
+                    retrievalOptions
+                  );
+          } catch (e) {
+            const message = errorMessage(e);
+            sendStep("retrieve", "检索相关文档片段", "error", message);
+            throw e;
           }
 
-          const matches = (rawMatches ?? []) as MatchRow[];
+          let matches: SourceChunk[] = retrieval.matches;
+
+          // 回填每条扩展查询各自的命中数
+          retrieval.perQuery?.forEach(({ query, count }, i) => {
+            if (query.kind !== "original") {
+              sendStep(
+                `expand-${i}`,
+                expandStepTitle(query, i),
+                "done",
+                `${query.text}（命中 ${count} 条）`
+              );
+            }
+          });
 
           matchedCountForLog = matches.length;
           sourcesForLog = matches;
@@ -159,7 +431,7 @@ export async function POST(req: Request) {
               "done",
               "未找到相关内容"
             );
-            const noAns = "文档中未提及相关信息。";
+            const noAns = refusals[0];
             answerForLog = noAns;
             sendJSON({
               type: "delta",
@@ -174,79 +446,300 @@ export async function POST(req: Request) {
             "retrieve",
             "检索相关文档片段",
             "done",
-            `命中 ${matches.length} 条片段`
+            `命中 ${matches.length} 条片段（向量 ${retrieval.vectorCount} · 关键词 ${
+              retrieval.keywordCount
+            } · 两路共同命中 ${
+              matches.filter((m) => m.origin === "both").length
+            }）${
+              retrieval.keywords.length
+                ? `，关键词：${retrieval.keywords.join(" ")}`
+                : ""
+            }`
           );
 
-          const context = matches.map((m) => m.content).join("\n---\n");
-
-          // 把来源先发给前端
-          sendJSON({ type: "sources", data: matches });
+          // Step 3.2：重排序（可选）——失败时回退到融合排序，不影响回答
+          if (rerankerChoice !== "none") {
+            sendStep(
+              "rerank",
+              "重排序候选片段",
+              "running",
+              `${rerankerChoice}：${matches.length} 条候选 → 取前 ${rerankKeep}`
+            );
+            try {
+              const reranked = await rerankChunks(
+                getReranker(rerankerChoice),
+                searchQuery,
+                matches,
+                rerankKeep
+              );
+              matches = reranked;
+              const promoted = reranked.filter(
+                (m) => m.retrieval_rank > safeTopK
+              ).length;
+              sendStep(
+                "rerank",
+                "重排序候选片段",
+                "done",
+                `${rerankerChoice}：保留 ${reranked.length} 条，其中 ${promoted} 条原本在 TopK 之外；分数 ${reranked
+                  .map((m) => m.rerank_score.toFixed(2))
+                  .join(" / ")}`
+              );
+            } catch (e) {
+              const message = errorMessage(e);
+              console.error("❌ Rerank error:", e);
+              matches = matches.slice(0, rerankKeep);
+              sendStep(
+                "rerank",
+                "重排序候选片段",
+                "error",
+                `${message}（已回退到检索排序）`
+              );
+            }
+            matchedCountForLog = matches.length;
+            sourcesForLog = matches;
+          }
 
-          // Step 3.5：模拟工具调用
-          sendStep(
-            "tool",
-            "调用工具：searchDocs",
-            "running",
-            "基于向量检索结果进行处理"
-          );
-          try {
-            await new Promise((r) => setTimeout(r, 200));
+          // Step 3.3：多样性筛选（可选）——MMR 去掉近重复片段 + 单文档条数上限
+          if (diversityOn) {
+            const { selected, cappedCount } = selectDiverse(
+              matches,
+              safeTopK,
+              diversity
+            );
+            const promoted = selected.filter(
+              (m) => matches.indexOf(m) >= safeTopK
+            ).length;
+            matches = selected;
             sendStep(
-              "tool",
-              "调用工具：searchDocs",
+              "diversify",
+              "多样性筛选",
               "done",
-              `工具返回 ${matches.length} 条候选片段`
+              `λ=${diversity.lambda}，每文档上限 ${
+                diversity.maxPerDocument || "不限"
+              }：保留 ${selected.length} 条，覆盖 ${
+                new Set(selected.map((m) => m.document_id)).size
+              } 篇文档；其中 ${promoted} 条原本在 TopK 之外，${cappedCount} 条因单文档上限被跳过`
             );
-          } catch (toolErr: any) {
+            matchedCountForLog = matches.length;
+            sourcesForLog = matches;
+          }
+
+          // Step 3.4：相邻分片扩展（可选）——失败时退回单个分片，不影响回答
+          if (safeNeighborWindow > 0) {
             sendStep(
-              "tool",
-              "调用工具：searchDocs",
-              "error",
-              toolErr?.message || "工具调用失败"
+              "neighbors",
+              "扩展相邻分片",
+              "running",
+              `前后各 ${safeNeighborWindow} 个分片`
             );
+            try {
+              const passages = await expandNeighbors(
+                matches,
+                safeNeighborWindow
+              );
+              const chunkCount = passages.reduce(
+                (n, p) => n + p.window_chunk_ids.length,
+                0
+              );
+              sendStep(
+                "neighbors",
+                "扩展相邻分片",
+                "done",
+                `前后各 ${safeNeighborWindow} 个：${matches.length} 条命中 → ${passages.length} 段连续原文（合并 ${
+                  matches.length - passages.length
+                } 处重叠窗口），共 ${chunkCount} 个分片`
+              );
+              matches = passages;
+            } catch (e) {
+              const message = errorMessage(e);
+              console.error("❌ Neighbor expansion error:", e);
+              sendStep(
+                "neighbors",
+                "扩展相邻分片",
+                "error",
+                `${message}（使用原始命中分片）`
+              );
+            }
+            matchedCountForLog = matches.length;
+            sourcesForLog = matches;
           }
 
-          const systemPrompt = `
-你是一名企业知识问答助手，请根据提供的企业内部文档内容，用简洁、正式的中文回答问题。
-如果文档中找不到答案，请直接回复：“文档中未提及相关信息。”，不要编造。
-`;
+          // Step 3.5：按 token 预算组装提示词——放不下的低分片段 / 较早的对话轮次被丢弃
+          // 模板决定措辞，引用 / 工具的说明按 PROMPT_INSTRUCTIONS_VERSION 追加（服务端依赖这些约定校验 [n]）
+          const variables = { question, language: safeLanguage };
+          const systemPrompt = renderSystemPrompt(template, variables, [
+            CITATION_INSTRUCTIONS,
+            ...(toolsOn ? [toolInstructions(MAX_TOOL_ROUNDS)] : []),
+          ]);
+
+          const { messages: promptMessages, stats: promptStats } = buildPrompt({
+            model: AI_MODEL,
+            systemPrompt,
+            chunks: matches,
+            history:
+              history?.map((m) => ({
+                role:
+                  m.role === "user"
+                    ? ("user" as const)
+                    : ("assistant" as const),
+                content: m.content,
+              })) ?? [],
+            renderUserMessage: (context) =>
+              renderPromptTemplate(template.user_prompt, {
+                ...variables,
+                context,
+              }),
+            chunkLabel: (n) => `${citationLabel(n)} `,
+          });
+          promptStatsForLog = promptStats;
+          const dropped = [
+            promptStats.droppedChunkIds.length &&
+              `丢弃 ${promptStats.droppedChunkIds.length} 条片段（#${promptStats.droppedChunkIds.join(" #")}）`,
+            promptStats.truncatedChunkId !== null &&
+              `截断片段 #${promptStats.truncatedChunkId}`,
+            promptStats.droppedHistoryTurns &&
+              `丢弃最早的 ${promptStats.droppedHistoryTurns} 条历史消息`,
+          ].filter(Boolean);
+          sendStep(
+            "prompt",
+            "组装提示词",
+            "done",
+            `模板 ${templateRef(template)}（追加说明 v${PROMPT_INSTRUCTIONS_VERSION}）；预算 ${promptStats.budget} tokens（上下文窗口 ${promptStats.contextWindow} − 预留回答 ${promptStats.reservedForAnswer}），已用 ${promptStats.used}：系统 ${promptStats.system} · 片段 ${promptStats.context} · 历史 ${promptStats.history}；${
+              dropped.length ? dropped.join("，") : "全部放入"
+            }`
+          );
+
+          // 来源只保留真正进入提示词的片段（顺序与提示词里的 [n] 编号一致）
+          matches = matches.filter((m) =>
+            promptStats.includedChunkIds.includes(m.id)
+          );
+          matchedCountForLog = matches.length;
+          sourcesForLog = matches;
 
-          const historyMessages =
-            history?.map((m) => ({
-              role: m.role === "user" ? ("user" as const) : ("assistant" as const),
-              content: m.content,
-            })) ?? [];
+          // 把来源先发给前端
+          sendJSON({ type: "sources", data: matches });
 
-          const currentUserMessage = {
-            role: "user" as const,
-            content: `请基于以下【文档内容】回答用户当前的问题。\n\n【文档内容】\n${context}\n\n【当前问题】\n${question}`,
+          // Step 4：Agent 循环生成回答——模型可以先调用工具补充资料，每次调用都是一个 step
+          let currentContent = "";
+          let answering = false;
+          // 🔖 引用编号只能指向本次 sources，编造的 [n] 在发给前端之前就去掉
+          const citations = createCitationFilter(matches.length);
+          const emitDelta = (text: string) => {
+            if (!text) return;
+            currentContent += text;
+            answerForLog = currentContent;
+            sendJSON({ type: "delta", data: text });
           };
 
-          // Step 4：调用 LLM 生成回答
-          sendStep("llm", "生成回答", "running");
-
-          const completion = await aiClient.chat.completions.create({
-            model: AI_MODEL,
-            stream: true,
-            messages: [
-              { role: "system", content: systemPrompt },
-              ...historyMessages,
-              currentUserMessage,
-            ],
+          const agentRun = await runAgent({
+            messages: promptMessages,
+            maxTokens: promptStats.reservedForAnswer,
+            toolBudget: Math.max(promptStats.budget - promptStats.used, 0),
+            tools: toolsOn,
+            context: {
+              filter: safeFilter,
+              embedding,
+              threshold: safeThreshold,
+              keywordWeight: safeKeywordWeight,
+              sources: matches,
+              // 工具结果被采用后才登记：新分片接在 sources 后面，编号和工具回给模型的一致
+              addSources: (chunks, tool) => {
+                for (const chunk of chunks) {
+                  matches.push({ ...(chunk as SourceChunk), via_tool: tool });
+                }
+                citations.setSourceCount(matches.length);
+                matchedCountForLog = matches.length;
+                sourcesForLog = matches;
+                sendJSON({ type: "sources", data: matches });
+              },
+            },
+            onDelta: (text) => {
+              if (!answering) {
+                answering = true;
+                sendStep("llm", "生成回答", "running");
+              }
+              emitDelta(citations.push(text));
+            },
+            onToolCall: (call, round, index) =>
+              sendStep(
+                `tool-${round}-${index}`,
+                `调用工具：${call.name}`,
+                "running",
+                call.arguments
+              ),
+            onToolResult: (call, result, round, index) =>
+              sendStep(
+                `tool-${round}-${index}`,
+                `调用工具：${call.name}`,
+                result.ok ? "done" : "error",
+                result.summary
+              ),
           });
+          emitDelta(citations.flush());
 
-          let currentContent = "";
+          sendStep(
+            "llm",
+            "生成回答",
+            "done",
+            [
+              toolsOn &&
+                (agentRun.toolCalls
+                  ? `${agentRun.rounds} 轮共 ${agentRun.toolCalls} 次工具调用（约 ${agentRun.toolTokens} tokens）`
+                  : "未调用工具"),
+              agentRun.stoppedEarly && "达到工具调用上限，已要求直接回答",
+              citations.cited.length
+                ? `引用片段 ${citations.cited.map(citationLabel).join("")}`
+                : "未标注引用",
+              citations.removed.length &&
+                `去掉无效引用 ${citations.removed.map(citationLabel).join("")}`,
+            ]
+              .filter(Boolean)
+              .join("；")
+          );
 
-          for await (const chunk of completion) {
-            const delta = chunk.choices?.[0]?.delta?.content;
-            if (delta) {
-              currentContent += delta;
-              answerForLog = currentContent;
-              sendJSON({ type: "delta", data: delta });
+          // Step 5：回答核查（可选）——逐句对照片段，失败不影响已经生成的回答
+          if (verifyOn) {
+            sendStep("verify", "核查回答依据", "running");
+            try {
+              const verification = await verifyAnswer(
+                currentContent,
+                matches,
+                refusals
+              );
+              if (verification) {
+                verificationForLog = verification;
+                sendJSON({ type: "verification", data: verification });
+                const unsupported = verification.sentences.filter(
+                  (s) => !s.supported
+                );
+                sendStep(
+                  "verify",
+                  "核查回答依据",
+                  "done",
+                  `${verification.sentences.length - unsupported.length}/${
+                    verification.sentences.length
+                  } 句有片段支撑，groundedness ${Math.round(
+                    verification.score * 100
+                  )}%${
+                    unsupported.length
+                      ? `；无依据：${unsupported.map((s) => `“${s.text}”`).join(" ")}`
+                      : ""
+                  }`
+                );
+              } else {
+                sendStep(
+                  "verify",
+                  "核查回答依据",
+                  "done",
+                  "没有需要核查的句子"
+                );
+              }
+            } catch (e) {
+              console.error("❌ Answer verification error:", e);
+              sendStep("verify", "核查回答依据", "error", errorMessage(e));
             }
           }
 
-          sendStep("llm", "生成回答", "done");
           await flushRunHistory();
           controller.close();
         } catch (err: any) {
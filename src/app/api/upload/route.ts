@@ -1,17 +1,18 @@
-import { NextResponse } from "next/server";
-import { supabase } from "@/lib/supabaseClient";
-import { embeddings } from "@/lib/embedClient";
+/**
+ * ⭐ 面试亮点（/api/upload）：
+ * 1. 上传接口只做“收文件 + 校验类型 + 建任务”，立即返回 job id；抽取 / 切片 / 向量化放到 after() 后台执行，
+ *    大文件不再卡住一个 HTTP 请求。
+ * 2. 前端通过 /api/jobs/[id] 轮询进度（queued → extracting → chunking → embedding n/m → done / failed）。
+ * 3. 按内容 sha256 去重：完全相同直接返回已有文档 id；同名不同内容返回 409，由用户选择替换旧版本或保留两份。
+ */
 
-export const runtime = "nodejs";
+import { NextResponse, after } from "next/server";
+import { normalizeChunkOptions } from "@/lib/chunker";
+import { UnsupportedFileTypeError, getExtractor } from "@/lib/extractors";
+import { findDuplicates, hashContent, runIngestJob } from "@/lib/ingest";
+import { createJob } from "@/lib/jobs";
 
-// 🔹 Helper function to split long text into overlapping chunks
-function splitText(text: string, chunkSize = 500, overlap = 50) {
-  const chunks: string[] = [];
-  for (let i = 0; i < text.length; i += chunkSize - overlap) {
-    chunks.push(text.slice(i, i + chunkSize));
-  }
-  return chunks;
-}
+export const runtime = "nodejs";
 
 export async function POST(req: Request) {
   try {
@@ -19,67 +20,82 @@ export async function POST(req: Request) {
     const file = formData.get("file") as File | null;
     if (!file) throw new Error("No file uploaded");
 
+    // ✅ 类型不支持直接 415，不必建任务
+    getExtractor(file.name, file.type);
+
+    // ⚙️ 每次上传可单独指定切片大小 / 重叠（缺省 500 / 50）
+    const { chunkSize, overlap } = normalizeChunkOptions(
+      Number(formData.get("chunkSize") ?? NaN),
+      Number(formData.get("chunkOverlap") ?? NaN)
+    );
+
     // 🧠 Read file content
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // ✅ Only allow .txt or .md
-    if (!file.name.endsWith(".txt") && !file.name.endsWith(".md")) {
+    // 🔑 去重：onConflict = replace（替换同名旧版本）| keep（保留两份）
+    const onConflict = formData.get("onConflict");
+    const contentHash = hashContent(buffer);
+    const { exact, sameName } = await findDuplicates(contentHash, file.name);
+
+    if (exact) {
+      return NextResponse.json({
+        duplicate: true,
+        document_id: exact.id,
+        filename: file.name,
+        status: "duplicate",
+        message: `Identical content already uploaded as "${exact.name}"`,
+      });
+    }
+
+    if (sameName && onConflict !== "replace" && onConflict !== "keep") {
       return NextResponse.json(
-        { error: "Only .txt or .md supported" },
-        { status: 400 }
+        {
+          error: `A different version of "${file.name}" already exists`,
+          conflict: "same_name",
+          existing_document_id: sameName.id,
+        },
+        { status: 409 }
       );
     }
 
-    const text = buffer.toString("utf-8");
-    console.log("✅ Extracted text preview:", text.slice(0, 100));
+    const replaceDocumentId =
+      sameName && onConflict === "replace" ? sameName.id : null;
 
-    // 🧱 Step 1: Save the original document
-    const { data: docData, error: docErr } = await supabase
-      .from("documents")
-      .insert({ name: file.name, content: text })
-      .select("id")
-      .single();
+    const job = await createJob(file.name, replaceDocumentId);
 
-    if (docErr) throw docErr;
-    const documentId = docData.id;
-    console.log('docData: ', docData);
-    console.log("📄 Document inserted:", documentId);
-
-    // 🧩 Step 2: Split into chunks
-    const chunks = splitText(text);
-    console.log('chunks: ', chunks);
-    console.log("🪣 Split into", chunks.length, "chunks");
-
-    // 🧠 Step 3: Create embeddings for each chunk
-    for (const chunk of chunks) {
-      try {
-        const [vector] = await embeddings.embedDocuments([chunk]);
-        console.log('vector: ', vector);
-
-        const res = await supabase.from("document_chunks").insert({
-          document_id: documentId,
-          content: chunk,
-          embedding: vector,
-        });
-        console.log('res: ', res);  
+    // 🏭 响应返回后继续在后台入库
+    after(() =>
+      runIngestJob(job.id, {
+        buffer,
+        fileName: file.name,
+        mimeType: file.type,
+        chunkSize,
+        overlap,
+        contentHash,
+        replaceDocumentId,
+      })
+    );
 
-        if (res.error) console.error("❌ Chunk insert error:", res.error);
-      } catch (e) {
-        console.error("❌ Embedding error:", e);
-      }
+    return NextResponse.json(
+      {
+        job_id: job.id,
+        filename: file.name,
+        status: job.status,
+        replaced_document_id: replaceDocumentId,
+      },
+      { status: 202 }
+    );
+  } catch (err) {
+    if (err instanceof UnsupportedFileTypeError) {
+      return NextResponse.json(
+        { error: err.message, accepted: err.accepted },
+        { status: 415 }
+      );
     }
-
-    // ✅ Return success
-    return NextResponse.json({
-      message: "File uploaded and embedded successfully!",
-      filename: file.name,
-      chunks: chunks.length,
-    });
-  } catch (err: any) {
     console.error("❌ Upload error:", err);
     return NextResponse.json(
-      { error: err.message || "Upload failed" },
+      { error: err instanceof Error ? err.message : "Upload failed" },
       { status: 500 }
     );
   }
@@ -2,19 +2,33 @@
  * ⭐ 面试亮点（/documents/[id] 文档详情页）：
  * 1. 左侧展示 documents.content 的全文（用 MarkdownRenderer 渲染），右侧展示所有分片（document_chunks），形成完整的 RAG 文档可视化视图。
  * 2. 支持通过 URL 查询参数 (?chunk=xxx) 高亮指定分片，可与 Chat 页“来源片段”实现打通，构建从回答 → 文档 → 具体 chunk 的可追溯链路。
- * 3. 完全基于真实表结构（name + content + chunks），提升排查 RAG 问题、调试向量切片质量的效率。
+ * 3. 来源带 span=首分片-末分片 时（检索做过相邻分片扩展），左侧高亮整段窗口，右侧标出窗口内的分片。
+ * 4. 完全基于真实表结构（name + content + chunks），提升排查 RAG 问题、调试向量切片质量的效率。
  */
 
 "use client";
 
 import useSWR from "swr";
-import { useSearchParams, useParams } from "next/navigation";
+import { useEffect, useRef } from "react";
+import { useSearchParams, useParams, useRouter } from "next/navigation";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
+import DocumentActions from "@/components/DocumentActions";
+import { CONFIDENTIALITY_LABELS } from "@/lib/metadata";
+import { formatPageRange } from "@/lib/pageRange";
+import { parseChunkSpan } from "@/lib/contextWindow/options";
+import type { DocumentMetadata, IndexStatus } from "@/types/document";
 
 type DocumentRow = {
   id: number;
   name: string;
   content: string;
+  index_status: IndexStatus | null;
+  indexed_chunks: number | null;
+  failed_chunks: number | null;
+  chunk_size: number | null;
+  chunk_overlap: number | null;
+  source_url: string | null;
+  metadata: DocumentMetadata | null;
   created_at: string;
 };
 
@@ -22,17 +36,25 @@ type ChunkRow = {
   id: number;
   document_id: number;
   content: string;
+  heading_path: string | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  page_start: number | null;
+  page_end: number | null;
 };
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 export default function DocumentDetailPage() {
   const params = useParams<{ id: string }>();
+  const router = useRouter();
   const searchParams = useSearchParams();
   const selectedChunkId = searchParams.get("chunk");
+  const span = parseChunkSpan(searchParams.get("span"));
+  const highlightRef = useRef<HTMLElement | null>(null);
 
   const id = params.id;
-  const { data, error, isLoading } = useSWR(
+  const { data, error, isLoading, mutate } = useSWR(
     id ? `/api/documents/${id}` : null,
     fetcher
   );
@@ -40,6 +62,44 @@ export default function DocumentDetailPage() {
   const doc: DocumentRow | undefined = data?.document;
   const chunks: ChunkRow[] = data?.chunks ?? [];
 
+  // 🎯 选中的 chunk 如果记录了原文偏移，左侧切换为“原文定位”模式并高亮对应区间；
+  // 带 span 时高亮从首分片到末分片的整段窗口
+  const selectedChunk = chunks.find(
+    (c) => selectedChunkId && String(c.id) === String(selectedChunkId)
+  );
+  const spanFirst = span && chunks.find((c) => c.id === span.firstId);
+  const spanLast = span && chunks.find((c) => c.id === span.lastId);
+  const spanRange =
+    spanFirst?.start_offset != null && spanLast?.end_offset != null
+      ? { start: spanFirst.start_offset, end: spanLast.end_offset }
+      : null;
+  const range =
+    spanRange ??
+    (selectedChunk?.start_offset != null && selectedChunk.end_offset != null
+      ? { start: selectedChunk.start_offset, end: selectedChunk.end_offset }
+      : null);
+  const highlight =
+    doc && range
+      ? {
+          before: doc.content.slice(0, range.start),
+          text: doc.content.slice(range.start, range.end),
+          after: doc.content.slice(range.end),
+        }
+      : null;
+  const inSpan = (chunk: ChunkRow) =>
+    !!span &&
+    (chunk.id === span.firstId ||
+      chunk.id === span.lastId ||
+      (spanRange !== null &&
+        chunk.start_offset != null &&
+        chunk.end_offset != null &&
+        chunk.start_offset >= spanRange.start &&
+        chunk.end_offset <= spanRange.end));
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: "center" });
+  }, [selectedChunkId, span?.firstId, doc?.id]);
+
   return (
     <main className="h-[100dvh] max-w-5xl mx-auto flex flex-col bg-gray-100 text-gray-900 border-x">
       {/* 顶部标题 */}
@@ -89,16 +149,105 @@ export default function DocumentDetailPage() {
                 <span className="text-gray-500">分片数：</span>
                 <span>{chunks.length}</span>
               </div>
+              {doc.metadata?.department && (
+                <div>
+                  <span className="text-gray-500">部门：</span>
+                  <span>{doc.metadata.department}</span>
+                </div>
+              )}
+              {doc.metadata?.owner && (
+                <div>
+                  <span className="text-gray-500">负责人：</span>
+                  <span>{doc.metadata.owner}</span>
+                </div>
+              )}
+              {doc.metadata?.effective_date && (
+                <div>
+                  <span className="text-gray-500">生效日期：</span>
+                  <span>{doc.metadata.effective_date}</span>
+                </div>
+              )}
+              {doc.metadata?.confidentiality && (
+                <div>
+                  <span className="text-gray-500">密级：</span>
+                  <span>
+                    {CONFIDENTIALITY_LABELS[doc.metadata.confidentiality]}
+                  </span>
+                </div>
+              )}
+              {!!doc.metadata?.tags?.length && (
+                <div>
+                  <span className="text-gray-500">标签：</span>
+                  <span>{doc.metadata.tags.map((t) => `#${t}`).join(" ")}</span>
+                </div>
+              )}
+              {doc.source_url && (
+                <div className="max-w-full truncate">
+                  <span className="text-gray-500">来源：</span>
+                  <a
+                    href={doc.source_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-blue-600 hover:underline"
+                  >
+                    {doc.source_url}
+                  </a>
+                </div>
+              )}
+              <div className="ml-auto">
+                <DocumentActions
+                  doc={doc}
+                  onChanged={() => mutate()}
+                  onDeleted={() => router.push("/documents")}
+                />
+              </div>
+              {doc.index_status && doc.index_status !== "indexed" && (
+                <div
+                  className={
+                    doc.index_status === "failed"
+                      ? "text-red-600"
+                      : "text-orange-600"
+                  }
+                >
+                  {doc.index_status === "failed" ? "索引失败" : "部分索引"}：
+                  {doc.failed_chunks ?? 0} 个分片未能向量化
+                </div>
+              )}
             </div>
 
             {/* 左右布局 */}
             <div className="grid grid-cols-1 md:grid-cols-[2fr,1fr] gap-4">
               {/* 左：全文（documents.content） */}
               <div className="bg-white border rounded p-3 max-h-[70vh] overflow-y-auto">
-                <div className="text-xs text-gray-500 mb-2">
-                  文档原文（来自 documents.content）
+                <div className="text-xs text-gray-500 mb-2 flex items-center justify-between">
+                  <span>
+                    {highlight
+                      ? spanRange
+                        ? "文档原文（已定位到检索窗口，含相邻分片）"
+                        : "文档原文（已定位到选中分片）"
+                      : "文档原文（来自 documents.content）"}
+                  </span>
+                  {highlight && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        router.replace(`/documents/${id}`, { scroll: false })
+                      }
+                      className="text-[11px] text-blue-600 hover:underline"
+                    >
+                      显示排版视图
+                    </button>
+                  )}
                 </div>
-                {doc.content ? (
+                {highlight ? (
+                  <div className="text-sm text-gray-800 whitespace-pre-wrap">
+                    {highlight.before}
+                    <mark ref={highlightRef} className="bg-yellow-200">
+                      {highlight.text}
+                    </mark>
+                    {highlight.after}
+                  </div>
+                ) : doc.content ? (
                   <MarkdownRenderer content={doc.content} />
                 ) : (
                   <div className="text-sm text-gray-500">
@@ -129,20 +278,37 @@ export default function DocumentDetailPage() {
                   return (
                     <div
                       key={chunk.id}
-                      className={`border rounded p-2 mb-2 ${
+                      onClick={() =>
+                        router.replace(`/documents/${id}?chunk=${chunk.id}`, {
+                          scroll: false,
+                        })
+                      }
+                      className={`border rounded p-2 mb-2 cursor-pointer ${
                         isSelected
                           ? "border-blue-500 bg-blue-50"
-                          : "border-gray-200 bg-gray-50"
+                          : inSpan(chunk)
+                            ? "border-blue-200 bg-blue-50/50"
+                            : "border-gray-200 bg-gray-50"
                       }`}
                     >
                       <div className="flex items-center justify-between mb-1">
                         <div className="font-medium text-gray-700">
                           Chunk #{index + 1}
+                          {chunk.page_start != null && (
+                            <span className="ml-1 text-[11px] font-normal text-gray-500">
+                              {formatPageRange(chunk.page_start, chunk.page_end)}
+                            </span>
+                          )}
                         </div>
                         <div className="text-[11px] text-gray-500">
                           id: {chunk.id}
                         </div>
                       </div>
+                      {chunk.heading_path && (
+                        <div className="text-[11px] text-gray-500 mb-1 truncate">
+                          {chunk.heading_path}
+                        </div>
+                      )}
                       <div className="text-gray-800 whitespace-pre-wrap text-[11px] max-h-32 overflow-y-auto">
                         {chunk.content}
                       </div>
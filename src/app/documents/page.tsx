@@ -4,6 +4,7 @@
  * 2. 列表字段完全基于真实业务表：id / name / created_at / content_preview / chunk_count，
  *    方便业务方快速了解文档规模和拆分情况。
  * 3. 复用 UploadBox，并通过 onUploaded 与列表刷新联动，体现组件复用与数据流设计能力。
+ * 4. 按目录筛选：压缩包导入的文档带 metadata.category，下拉框数据来自 /api/documents/folders。
  */
 
 "use client";
@@ -11,6 +12,8 @@
 import useSWR from "swr";
 import { useState } from "react";
 import UploadBox from "@/components/UploadBox";
+import DocumentActions from "@/components/DocumentActions";
+import type { DocumentMetadata, IndexStatus } from "@/types/document";
 
 type DocumentListItem = {
   id: number;
@@ -18,19 +21,33 @@ type DocumentListItem = {
   created_at: string;
   content_preview: string;
   chunk_count: number;
+  index_status: IndexStatus | null;
+  failed_chunks: number | null;
+  chunk_size: number | null;
+  chunk_overlap: number | null;
+  category: string | null;
+  metadata: DocumentMetadata | null;
 };
 
+type FolderOption = { folder: string; document_count: number };
+
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 export default function DocumentsPage() {
   const [search, setSearch] = useState("");
   const [page, setPage] = useState(1);
+  const [folder, setFolder] = useState("");
 
   const query = `/api/documents?search=${encodeURIComponent(
     search
-  )}&page=${page}&pageSize=20`;
+  )}&folder=${encodeURIComponent(folder)}&page=${page}&pageSize=20`;
 
   const { data, error, isLoading, mutate } = useSWR(query, fetcher);
+  const { data: folderData, mutate: mutateFolders } = useSWR(
+    "/api/documents/folders",
+    fetcher
+  );
+  const folders: FolderOption[] = folderData?.folders ?? [];
 
   const items: DocumentListItem[] = data?.items ?? [];
   const total: number = data?.total ?? 0;
@@ -64,6 +81,24 @@ export default function DocumentsPage() {
               className="w-full border rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
             />
           </div>
+          <div className="w-48">
+            <label className="block text-xs text-gray-500 mb-1">目录</label>
+            <select
+              value={folder}
+              onChange={(e) => {
+                setFolder(e.target.value);
+                setPage(1);
+              }}
+              className="w-full border rounded px-2 py-1 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+            >
+              <option value="">全部目录</option>
+              {folders.map((f) => (
+                <option key={f.folder} value={f.folder}>
+                  {f.folder}（{f.document_count}）
+                </option>
+              ))}
+            </select>
+          </div>
           <button
             onClick={() => mutate()}
             className="px-3 py-1 text-xs rounded border bg-white hover:bg-gray-50"
@@ -76,6 +111,7 @@ export default function DocumentsPage() {
         <UploadBox
           onUploaded={() => {
             mutate();
+            mutateFolders();
           }}
         />
       </div>
@@ -113,6 +149,9 @@ export default function DocumentsPage() {
                   <th className="px-3 py-2 text-left border-b w-40">
                     创建时间
                   </th>
+                  <th className="px-3 py-2 text-left border-b w-40">
+                    操作
+                  </th>
                 </tr>
               </thead>
               <tbody>
@@ -127,9 +166,51 @@ export default function DocumentsPage() {
                       >
                         {doc.name}
                       </a>
+                      {doc.category && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setFolder(doc.category ?? "");
+                            setPage(1);
+                          }}
+                          className="block text-[11px] text-gray-500 hover:underline truncate max-w-xs"
+                          title={`只看目录：${doc.category}`}
+                        >
+                          📁 {doc.category}
+                        </button>
+                      )}
+                      {(doc.metadata?.department ||
+                        doc.metadata?.tags?.length) && (
+                        <div className="flex flex-wrap gap-1 mt-0.5 text-[11px]">
+                          {doc.metadata?.department && (
+                            <span className="px-1.5 rounded bg-gray-100 text-gray-600">
+                              {doc.metadata.department}
+                            </span>
+                          )}
+                          {doc.metadata?.tags?.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-1.5 rounded bg-blue-50 text-blue-600"
+                            >
+                              #{tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-3 py-2 align-top">
                       {doc.chunk_count}
+                      {doc.index_status === "partial" && (
+                        <div
+                          className="text-[11px] text-orange-600"
+                          title={`${doc.failed_chunks ?? 0} 个分片向量化失败`}
+                        >
+                          部分索引
+                        </div>
+                      )}
+                      {doc.index_status === "failed" && (
+                        <div className="text-[11px] text-red-600">索引失败</div>
+                      )}
                     </td>
                     <td className="px-3 py-2 align-top max-w-xs">
                       <span className="text-gray-700 truncate inline-block max-w-xs">
@@ -139,6 +220,9 @@ export default function DocumentsPage() {
                     <td className="px-3 py-2 align-top">
                       {new Date(doc.created_at).toLocaleString()}
                     </td>
+                    <td className="px-3 py-2 align-top">
+                      <DocumentActions doc={doc} onChanged={() => mutate()} />
+                    </td>
                   </tr>
                 ))}
               </tbody>
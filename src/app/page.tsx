@@ -5,8 +5,25 @@ import { useEffect, useRef, useLayoutEffect } from "react";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
 import UploadBox from "@/components/UploadBox";
 import AgentStepsPanel from "@/components/AgentStepsPanel";
+import ScopePicker from "@/components/ScopePicker";
+import PromptPicker from "@/components/PromptPicker";
 import type { Message } from "@/types/chat";
 import { useChatStore } from "@/store/chatStore";
+import { formatPageRange } from "@/lib/pageRange";
+import { ORIGIN_LABELS } from "@/lib/hybrid";
+import {
+  RERANKER_OPTIONS,
+  type RerankerChoice,
+} from "@/lib/rerankers/options";
+import {
+  EXPANSION_OPTIONS,
+  type ExpansionMode,
+} from "@/lib/expansion/options";
+import {
+  MAX_NEIGHBOR_WINDOW,
+  chunkHref,
+} from "@/lib/contextWindow/options";
+import { formatGroundedness, groundednessClass } from "@/lib/groundedness";
 
 export default function Home() {
   const chatBoxRef = useRef<HTMLDivElement | null>(null);
@@ -23,6 +40,30 @@ export default function Home() {
     threshold,
     setTopK,
     setThreshold,
+    filter,
+    setFilter,
+    keywordWeight,
+    setKeywordWeight,
+    reranker,
+    setReranker,
+    rewriteQuery,
+    setRewriteQuery,
+    expansion,
+    setExpansion,
+    mmrLambda,
+    setMmrLambda,
+    maxPerDocument,
+    setMaxPerDocument,
+    neighborWindow,
+    setNeighborWindow,
+    verifyAnswer,
+    setVerifyAnswer,
+    useTools,
+    setUseTools,
+    promptTemplate,
+    setPromptTemplate,
+    language,
+    setLanguage,
   } = useChatStore();
 
   // 💾 从本地恢复历史
@@ -54,6 +95,8 @@ export default function Home() {
   // 🧱 渲染单条消息
   function ChatMessage({ msg }: { msg: Message }) {
     const isAI = msg.role === "assistant";
+    const unsupported =
+      msg.verification?.sentences.filter((s) => !s.supported) ?? [];
     return (
       <div
         className={`max-w-[85%] rounded-lg p-3 ${
@@ -62,22 +105,88 @@ export default function Home() {
             : "bg-blue-500 text-white self-end ml-auto"
         }`}
       >
-        <MarkdownRenderer content={msg.content} />
-        {/* 显示来源 */}
+        <MarkdownRenderer
+          content={msg.content}
+          citations={isAI ? msg.sources : undefined}
+          unsupported={unsupported.map((s) => s.text)}
+        />
+        {/* 回答核查：groundedness + 无依据的句子 */}
+        {isAI && msg.verification && (
+          <div className="mt-2 text-xs text-gray-600 border-t pt-1 space-y-1">
+            <div>
+              <strong>依据核查：</strong>
+              <span
+                className={`px-1 rounded ${groundednessClass(msg.verification.score)}`}
+              >
+                {formatGroundedness(msg.verification.score)}
+              </span>{" "}
+              {msg.verification.sentences.length - unsupported.length}/
+              {msg.verification.sentences.length} 句有片段支撑
+            </div>
+            {unsupported.map((s, idx) => (
+              <div key={idx} className="text-red-700">
+                ⚠️ 未找到依据：{s.text}
+              </div>
+            ))}
+          </div>
+        )}
+        {/* 显示来源（编号与回答里的 [n] 引用对应） */}
         {isAI && msg.sources && msg.sources.length > 0 && (
           <div className="mt-2 text-xs text-gray-600 border-t pt-1 space-y-1">
             <strong>来源：</strong>
-            {msg.sources.map((s) => (
+            {msg.sources.map((s, idx) => (
               <div key={s.id} className="truncate">
-                📄{" "}
+                <span className="mr-1 text-blue-700">[{idx + 1}]</span>📄{" "}
+                {s.origin && (
+                  <span
+                    className={`mr-1 px-1 rounded ${
+                      s.origin === "both"
+                        ? "bg-green-100 text-green-700"
+                        : s.origin === "keyword"
+                          ? "bg-amber-100 text-amber-700"
+                          : "bg-blue-100 text-blue-700"
+                    }`}
+                  >
+                    {ORIGIN_LABELS[s.origin]}
+                  </span>
+                )}
+                {s.via_tool && (
+                  <span
+                    className="mr-1 px-1 rounded bg-purple-100 text-purple-700"
+                    title={`由工具 ${s.via_tool} 补充`}
+                  >
+                    工具
+                  </span>
+                )}
+                {(s.heading_path || s.page_start != null) && (
+                  <span className="text-gray-500">
+                    [
+                    {[s.heading_path, formatPageRange(s.page_start, s.page_end)]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    ]{" "}
+                  </span>
+                )}
                 <a
-                  href={`/documents/${s.document_id}?chunk=${s.id}`}
+                  href={chunkHref(s)}
                   className="text-blue-600 hover:underline"
                   title={s.snippet}
                 >
                   {s.snippet}
                 </a>
-                <span className="text-gray-500">（相似度 {s.similarity}）</span>
+                {(s.similarity || s.rerank_score != null) && (
+                  <span className="text-gray-500">
+                    （
+                    {[
+                      s.similarity && `相似度 ${s.similarity}`,
+                      s.rerank_score != null &&
+                        `重排 ${s.rerank_score.toFixed(2)}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    ）
+                  </span>
+                )}
               </div>
             ))}
           </div>
@@ -97,6 +206,9 @@ export default function Home() {
         <a href="/runs" className="text-blue-600 hover:underline">
           运行历史 →
         </a>
+        <a href="/prompts" className="text-blue-600 hover:underline">
+          提示词模板 →
+        </a>
       </header>
 
       {/* RAG 检索配置面板 */}
@@ -129,10 +241,137 @@ export default function Home() {
                 className="w-16 border rounded px-1 py-0.5 text-xs"
               />
             </label>
+            <label className="flex items-center gap-1">
+              <span>关键词权重：</span>
+              <input
+                type="number"
+                step={0.1}
+                min={0}
+                max={1}
+                value={keywordWeight}
+                onChange={(e) => setKeywordWeight(Number(e.target.value))}
+                className="w-16 border rounded px-1 py-0.5 text-xs"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <span>重排序：</span>
+              <select
+                value={reranker}
+                onChange={(e) => setReranker(e.target.value as RerankerChoice)}
+                className="border rounded px-1 py-0.5 text-xs bg-white"
+              >
+                {RERANKER_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="问题太短或措辞含糊时，生成多种问法 / 假设答案分别检索再合并"
+            >
+              <span>查询扩展：</span>
+              <select
+                value={expansion}
+                onChange={(e) => setExpansion(e.target.value as ExpansionMode)}
+                className="border rounded px-1 py-0.5 text-xs bg-white"
+              >
+                {EXPANSION_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="MMR：在相关度和与已选片段的差异之间折中，1 为只看相关度"
+            >
+              <span>多样性 λ：</span>
+              <input
+                type="number"
+                step={0.1}
+                min={0}
+                max={1}
+                value={mmrLambda}
+                onChange={(e) => setMmrLambda(Number(e.target.value))}
+                className="w-16 border rounded px-1 py-0.5 text-xs"
+              />
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="同一篇文档最多进入上下文的片段数，0 为不限制"
+            >
+              <span>每文档上限：</span>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={maxPerDocument}
+                onChange={(e) => setMaxPerDocument(Number(e.target.value))}
+                className="w-16 border rounded px-1 py-0.5 text-xs"
+              />
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="命中分片前后各带上 N 个相邻分片，避免答案被切成两半；0 为不扩展"
+            >
+              <span>相邻分片：</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_NEIGHBOR_WINDOW}
+                value={neighborWindow}
+                onChange={(e) => setNeighborWindow(Number(e.target.value))}
+                className="w-16 border rounded px-1 py-0.5 text-xs"
+              />
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="结合对话历史把追问（如“那外包员工呢？”）改写成完整问题后再检索"
+            >
+              <input
+                type="checkbox"
+                checked={rewriteQuery}
+                onChange={(e) => setRewriteQuery(e.target.checked)}
+              />
+              <span>多轮改写</span>
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="回答生成后逐句对照检索片段，标出没有依据的句子（多一次 LLM 调用）"
+            >
+              <input
+                type="checkbox"
+                checked={verifyAnswer}
+                onChange={(e) => setVerifyAnswer(e.target.checked)}
+              />
+              <span>核查回答</span>
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title="允许模型自行调用工具：补充检索、读整篇文档、按标签列文档、取相邻分片"
+            >
+              <input
+                type="checkbox"
+                checked={useTools}
+                onChange={(e) => setUseTools(e.target.checked)}
+              />
+              <span>工具调用</span>
+            </label>
+            <PromptPicker
+              template={promptTemplate}
+              onTemplateChange={setPromptTemplate}
+              language={language}
+              onLanguageChange={setLanguage}
+            />
             <span className="text-[11px] text-gray-500">
-              TopK 越大召回越多，阈值越高越严格。
+              TopK 越大召回越多，阈值越高越严格；关键词权重 0 为纯向量，1
+              为纯关键词；多样性 λ 越小，重叠片段越少。
             </span>
           </div>
+          <ScopePicker value={filter} onChange={setFilter} />
         </div>
       </div>
 
@@ -0,0 +1,302 @@
+/**
+ * ⭐ 面试亮点（/prompts 提示词模板管理页）：
+ * 1. 提示词像代码一样版本化：每次保存都新增一个版本，历史版本可查看、可一键设为默认（即回滚），
+ *    改措辞不再需要重新部署。
+ * 2. 模板变量 {{context}} / {{question}} / {{language}} 在页面上说明，保存时由后端统一校验，
+ *    错误直接展示在编辑器下方。
+ * 3. 运行记录里的 name@version 与这里的版本一一对应，回答质量回退可以直接对比两个版本的原文。
+ */
+
+"use client";
+
+import Link from "next/link";
+import useSWR from "swr";
+import { useState } from "react";
+import {
+  PROMPT_VARIABLES,
+  PROMPT_VARIABLE_LABELS,
+  templateRef,
+} from "@/lib/promptTemplates/options";
+import type { PromptTemplate } from "@/types/prompt";
+
+type Draft = {
+  name: string;
+  description: string;
+  system_prompt: string;
+  user_prompt: string;
+};
+
+const toDraft = (t: PromptTemplate, name = t.name): Draft => ({
+  name,
+  description: t.description ?? "",
+  system_prompt: t.system_prompt,
+  user_prompt: t.user_prompt,
+});
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export default function PromptsPage() {
+  const { data, error, isLoading, mutate } = useSWR("/api/prompts", fetcher);
+  const templates: PromptTemplate[] = data?.templates ?? [];
+  const builtin: PromptTemplate | undefined = data?.builtin;
+  const names = [...new Set(templates.map((t) => t.name))];
+
+  const [selected, setSelected] = useState<string | null>(null); // null = 新建模板
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const versions = templates.filter((t) => t.name === selected);
+  const defaultTemplate = templates.find((t) => t.is_default);
+
+  const select = (name: string | null) => {
+    const latest = templates.find((t) => t.name === name);
+    setSelected(name);
+    setSaveError(null);
+    setMakeDefault(false);
+    // 新建模板时以内置模板为起点
+    setDraft(latest ? toDraft(latest) : builtin ? toDraft(builtin, "") : null);
+  };
+
+  const update = (patch: Partial<Draft>) =>
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setSaveError(null);
+    try {
+      const res = await fetch("/api/prompts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, makeDefault }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      await mutate();
+      setSelected(json.name);
+      setMakeDefault(false);
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setDefault = async (t: PromptTemplate) => {
+    setBusy(true);
+    setSaveError(null);
+    try {
+      const res = await fetch(`/api/prompts/${t.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_default: true }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      await mutate();
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <main className="h-[100dvh] max-w-5xl mx-auto flex flex-col bg-gray-100 text-gray-900 border-x">
+      <header className="p-4 border-b bg-white flex items-center justify-between">
+        <div>
+          <h1 className="font-bold text-xl">提示词模板</h1>
+          <p className="text-xs text-gray-600 mt-1">
+            当前默认：
+            {defaultTemplate
+              ? templateRef(defaultTemplate)
+              : "内置模板（尚未设置默认模板）"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <Link href="/" className="text-blue-600 hover:underline">
+            聊天工作台
+          </Link>
+          <Link href="/runs" className="text-blue-600 hover:underline">
+            运行历史
+          </Link>
+        </div>
+      </header>
+
+      <section className="flex-1 overflow-hidden flex">
+        {/* 左侧：模板列表 */}
+        <aside className="w-56 border-r bg-white overflow-y-auto p-3 space-y-1 text-sm">
+          <button
+            onClick={() => select(null)}
+            className={`w-full text-left px-2 py-1 rounded border ${
+              selected === null && draft
+                ? "bg-blue-50 border-blue-300"
+                : "hover:bg-gray-50"
+            }`}
+          >
+            ＋ 新建模板
+          </button>
+          {isLoading && <div className="text-gray-500 text-xs">加载中...</div>}
+          {error && (
+            <div className="text-red-500 text-xs">
+              加载失败：{String(error)}
+            </div>
+          )}
+          {names.map((name) => {
+            const latest = templates.find((t) => t.name === name)!;
+            return (
+              <button
+                key={name}
+                onClick={() => select(name)}
+                className={`w-full text-left px-2 py-1 rounded ${
+                  selected === name ? "bg-blue-50" : "hover:bg-gray-50"
+                }`}
+              >
+                <div className="truncate font-medium">{name}</div>
+                <div className="text-xs text-gray-500">
+                  最新 v{latest.version}
+                  {defaultTemplate?.name === name &&
+                    ` · 默认 v${defaultTemplate.version}`}
+                </div>
+              </button>
+            );
+          })}
+        </aside>
+
+        {/* 右侧：编辑器 + 版本历史 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
+          {!draft && (
+            <div className="text-gray-500 text-sm">
+              选择左侧的模板编辑，或新建一个模板。
+            </div>
+          )}
+
+          {draft && (
+            <div className="bg-white border rounded p-3 space-y-3 text-sm">
+              <div className="font-semibold">
+                {selected
+                  ? `编辑 ${selected}（保存后成为 v${(versions[0]?.version ?? 0) + 1}）`
+                  : "新建模板"}
+              </div>
+              <label className="block">
+                <span className="text-xs text-gray-600">名称</span>
+                <input
+                  value={draft.name}
+                  disabled={selected !== null}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="例如 hr-policy"
+                  className="w-full border rounded px-2 py-1 disabled:bg-gray-100"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-600">修改说明</span>
+                <input
+                  value={draft.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  placeholder="这一版改了什么"
+                  className="w-full border rounded px-2 py-1"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-600">系统提示词</span>
+                <textarea
+                  value={draft.system_prompt}
+                  onChange={(e) => update({ system_prompt: e.target.value })}
+                  rows={6}
+                  className="w-full border rounded px-2 py-1 font-mono text-xs"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-gray-600">用户消息模板</span>
+                <textarea
+                  value={draft.user_prompt}
+                  onChange={(e) => update({ user_prompt: e.target.value })}
+                  rows={6}
+                  className="w-full border rounded px-2 py-1 font-mono text-xs"
+                />
+              </label>
+              <div className="text-xs text-gray-600 space-y-0.5">
+                <div>可用变量：</div>
+                {PROMPT_VARIABLES.map((v) => (
+                  <div key={v}>
+                    <code className="bg-gray-100 px-1 rounded">{`{{${v}}}`}</code>{" "}
+                    {PROMPT_VARIABLE_LABELS[v]}
+                  </div>
+                ))}
+                <div className="text-gray-500">
+                  行内引用
+                  [n]、工具调用和结构化输出的说明由服务端自动追加（说明带版本号，
+                  和模板版本一起写入运行记录），不需要写进模板。
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={makeDefault}
+                    onChange={(e) => setMakeDefault(e.target.checked)}
+                  />
+                  <span>保存后设为默认模板</span>
+                </label>
+                <button
+                  onClick={save}
+                  disabled={busy}
+                  className="px-3 py-1 rounded bg-blue-600 text-white text-xs disabled:opacity-50"
+                >
+                  {busy ? "保存中..." : "保存为新版本"}
+                </button>
+              </div>
+              {saveError && (
+                <div className="text-xs text-red-600">❌ {saveError}</div>
+              )}
+            </div>
+          )}
+
+          {versions.length > 0 && (
+            <div className="bg-white border rounded text-sm">
+              <div className="px-3 py-2 border-b font-semibold">版本历史</div>
+              {versions.map((t) => (
+                <div
+                  key={t.id}
+                  className="px-3 py-2 border-b last:border-b-0 flex items-center gap-3"
+                >
+                  <div className="w-16 font-mono">v{t.version}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{t.description || "-"}</div>
+                    <div className="text-xs text-gray-500">
+                      {t.created_at
+                        ? new Date(t.created_at).toLocaleString()
+                        : ""}
+                    </div>
+                  </div>
+                  {t.is_default && (
+                    <span className="text-xs px-1 rounded bg-green-100 text-green-700">
+                      默认
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setDraft(toDraft(t))}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    载入编辑
+                  </button>
+                  {!t.is_default && (
+                    <button
+                      onClick={() => setDefault(t)}
+                      disabled={busy}
+                      className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      设为默认
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
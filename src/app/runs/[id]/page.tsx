@@ -3,6 +3,9 @@
  * 1. 回放单次运行的完整上下文：问题 / 回答 / Agent Steps / Sources / 参数 / 耗时，
  *    形成 AI 系统级的调试与观测能力。
  * 2. 复用 AgentStepsPanel + MarkdownRenderer，体现组件复用与模块化设计。
+ * 3. 回答里的 [n] 行内引用渲染成徽标，与下方“片段 #n”一一对应，悬停预览、点击跳到原文分片。
+ * 4. 开启回答核查的运行展示 groundedness 和逐句结论，无依据的句子在回答里标红。
+ * 5. 显示本次使用的提示词模板 name@version，并链接到模板管理页查看该版本原文。
  */
 
 "use client";
@@ -12,6 +15,19 @@ import { useParams } from "next/navigation";
 import AgentStepsPanel from "@/components/AgentStepsPanel";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
 import type { AgentStep } from "@/types/agent";
+import { formatPageRange } from "@/lib/pageRange";
+import { ORIGIN_LABELS } from "@/lib/hybrid";
+import type { AnswerVerification, RetrievalOrigin } from "@/types/chat";
+import {
+  EXPANDED_QUERY_LABELS,
+  type ExpandedQuery,
+} from "@/lib/expansion/options";
+import { describeFilter } from "@/lib/metadata";
+import { chunkHref } from "@/lib/contextWindow/options";
+import type { PromptStats } from "@/lib/promptBuilder";
+import type { MetadataFilter } from "@/types/document";
+import { formatGroundedness, groundednessClass } from "@/lib/groundedness";
+import { templateRef } from "@/lib/promptTemplates/options";
 
 type RunDetail = {
   id: number;
@@ -19,6 +35,21 @@ type RunDetail = {
   answer: string | null;
   topk: number | null;
   threshold: number | null;
+  filter: MetadataFilter | null;
+  keyword_weight: number | null;
+  reranker: string | null;
+  rewritten_query: string | null;
+  expansion: string | null;
+  expanded_queries: ExpandedQuery[] | null;
+  mmr_lambda: number | null;
+  max_per_document: number | null;
+  neighbor_window: number | null;
+  prompt_stats: PromptStats | null;
+  verification: AnswerVerification | null;
+  groundedness: number | null;
+  prompt_template: string | null;
+  prompt_template_version: number | null;
+  prompt_instructions_version: number | null;
   matched_count: number | null;
   duration_ms: number | null;
   steps: AgentStep[] | null;
@@ -50,6 +81,25 @@ export default function RunDetailPage() {
             <p className="text-xs text-gray-600 mt-1">
               {new Date(run.created_at).toLocaleString()} ·
               TopK: {run.topk ?? "-"} · 阈值: {run.threshold ?? "-"} ·
+              范围: {describeFilter(run.filter ?? null)} ·
+              关键词权重: {run.keyword_weight ?? "-"} · 重排: {run.reranker ?? "-"} ·
+              多样性 λ: {run.mmr_lambda ?? "-"} · 每文档上限:{" "}
+              {run.max_per_document ? run.max_per_document : "不限"} ·
+              相邻分片: {run.neighbor_window ?? 0} ·
+              提示词:{" "}
+              {run.prompt_template ? (
+                <a href="/prompts" className="text-blue-600 hover:underline">
+                  {templateRef({
+                    name: run.prompt_template,
+                    version: run.prompt_template_version ?? 0,
+                  })}
+                </a>
+              ) : (
+                "-"
+              )}
+              {run.prompt_instructions_version != null &&
+                `（追加说明 v${run.prompt_instructions_version}）`}{" "}
+              ·
               命中: {run.matched_count ?? 0} ·
               耗时: {run.duration_ms != null ? `${run.duration_ms} ms` : "-"}
             </p>
@@ -87,12 +137,46 @@ export default function RunDetailPage() {
                 <div className="text-sm text-gray-900 whitespace-pre-wrap">
                   {run.question}
                 </div>
+                {run.rewritten_query &&
+                  run.rewritten_query !== run.question && (
+                    <div className="mt-2 text-xs text-gray-600">
+                      <span className="text-gray-500">改写后的检索查询：</span>
+                      {run.rewritten_query}
+                    </div>
+                  )}
+                {!!run.expanded_queries?.length && (
+                  <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+                    <div className="text-gray-500">
+                      查询扩展（{run.expansion}）：
+                    </div>
+                    {run.expanded_queries.map((q, i) => (
+                      <div key={i} className="whitespace-pre-wrap">
+                        <span className="text-gray-500">
+                          [{EXPANDED_QUERY_LABELS[q.kind]}]
+                        </span>{" "}
+                        {q.text}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
               <div className="bg-white border rounded p-3">
                 <div className="text-xs text-gray-500 mb-1">回答</div>
                 {run.answer ? (
                   <div className="text-sm text-gray-900">
-                    <MarkdownRenderer content={run.answer} />
+                    <MarkdownRenderer
+                      content={run.answer}
+                      citations={run.sources?.map((s) => ({
+                        id: s.id,
+                        document_id: s.document_id,
+                        snippet: s.content ?? s.snippet ?? "",
+                        heading_path: s.heading_path ?? null,
+                        window_chunk_ids: s.window_chunk_ids ?? null,
+                      }))}
+                      unsupported={run.verification?.sentences
+                        .filter((s) => !s.supported)
+                        .map((s) => s.text)}
+                    />
                   </div>
                 ) : (
                   <div className="text-sm text-gray-500">暂无回答。</div>
@@ -105,6 +189,67 @@ export default function RunDetailPage() {
               <AgentStepsPanel steps={(run.steps as AgentStep[]) ?? []} />
             </div>
 
+            {/* 回答核查 */}
+            {run.verification && (
+              <div className="bg-white border rounded p-3 text-xs text-gray-700 space-y-1">
+                <div className="text-xs text-gray-500">
+                  依据核查：
+                  <span
+                    className={`px-1 rounded ${groundednessClass(run.verification.score)}`}
+                  >
+                    {formatGroundedness(run.verification.score)}
+                  </span>
+                </div>
+                {run.verification.sentences.map((s, idx) => (
+                  <div
+                    key={idx}
+                    className={s.supported ? "text-gray-700" : "text-red-700"}
+                  >
+                    {s.supported ? "✅" : "⚠️"} {s.text}
+                    {s.evidence.length > 0 && (
+                      <span className="ml-1 text-gray-500">
+                        （依据片段 #{s.evidence.join(" #")}）
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* 提示词 token 预算 */}
+            {run.prompt_stats && (
+              <div className="bg-white border rounded p-3 text-xs text-gray-700 space-y-1">
+                <div className="text-xs text-gray-500">
+                  提示词预算：{run.prompt_stats.used} /{" "}
+                  {run.prompt_stats.budget} tokens（上下文窗口{" "}
+                  {run.prompt_stats.contextWindow}，预留回答{" "}
+                  {run.prompt_stats.reservedForAnswer}）
+                </div>
+                <div>
+                  系统 {run.prompt_stats.system} · 片段{" "}
+                  {run.prompt_stats.context} · 历史 {run.prompt_stats.history}
+                  （保留 {run.prompt_stats.keptHistoryTurns} 条）
+                </div>
+                {(run.prompt_stats.droppedChunkIds.length > 0 ||
+                  run.prompt_stats.truncatedChunkId !== null ||
+                  run.prompt_stats.droppedHistoryTurns > 0) && (
+                  <div className="text-orange-600">
+                    超出预算：
+                    {[
+                      run.prompt_stats.droppedChunkIds.length > 0 &&
+                        `丢弃片段 #${run.prompt_stats.droppedChunkIds.join(" #")}`,
+                      run.prompt_stats.truncatedChunkId !== null &&
+                        `截断片段 #${run.prompt_stats.truncatedChunkId}`,
+                      run.prompt_stats.droppedHistoryTurns > 0 &&
+                        `丢弃最早的 ${run.prompt_stats.droppedHistoryTurns} 条历史消息`,
+                    ]
+                      .filter(Boolean)
+                      .join("，")}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* 来源片段 */}
             <div className="bg-white border rounded p-3 text-xs">
               <div className="text-xs text-gray-500 mb-2">
@@ -119,12 +264,24 @@ export default function RunDetailPage() {
                     <div className="flex items-center justify-between mb-1">
                       <div className="font-medium text-gray-700">
                         片段 #{idx + 1}
+                        {s.page_start != null && (
+                          <span className="ml-1 font-normal text-gray-500">
+                            {formatPageRange(s.page_start, s.page_end)}
+                          </span>
+                        )}
+                        {s.window_chunk_ids?.length > 1 && (
+                          <span className="ml-1 font-normal text-gray-500">
+                            （含相邻分片 {s.window_chunk_ids.length} 个）
+                          </span>
+                        )}
                       </div>
                       <div className="text-[11px] text-gray-500">
-                        相似度:{" "}
-                        {s.similarity ??
-                          s.score ??
-                          "-"}
+                        {s.origin &&
+                          `${ORIGIN_LABELS[s.origin as RetrievalOrigin]} · `}
+                        相似度: {s.similarity ?? "-"}
+                        {s.score != null && ` · 融合分: ${s.score.toFixed(4)}`}
+                        {s.rerank_score != null &&
+                          ` · 重排分: ${s.rerank_score.toFixed(2)}（原第 ${s.retrieval_rank} 名）`}
                       </div>
                     </div>
                     <div className="text-[11px] text-gray-800 whitespace-pre-wrap mb-1 max-h-24 overflow-y-auto">
@@ -132,7 +289,7 @@ export default function RunDetailPage() {
                     </div>
                     {s.document_id && (
                       <a
-                        href={`/documents/${s.document_id}?chunk=${s.id}`}
+                        href={chunkHref(s)}
                         className="text-[11px] text-blue-600 hover:underline"
                       >
                         查看所属文档 →
@@ -2,12 +2,16 @@
  * ⭐ 面试亮点（/runs 列表页）：
  * 1. 基于 SWR + /api/runs 构建“运行历史列表”，可查看每次调用的参数、命中情况、耗时、问答预览。
  * 2. 体现 AI 系统的可观测性（Observability），而不是简单的“黑盒调用大模型”。
+ * 3. 开启回答核查的运行显示 groundedness（有依据句子占比），低分回答一眼可见。
+ * 4. 参数列显示所用提示词模板 name@version，质量回退时能看出是不是换了提示词。
  */
 
 "use client";
 
 import useSWR from "swr";
 import { useState } from "react";
+import { formatGroundedness, groundednessClass } from "@/lib/groundedness";
+import { templateRef } from "@/lib/promptTemplates/options";
 
 type RunListItem = {
   id: number;
@@ -17,6 +21,9 @@ type RunListItem = {
   threshold: number | null;
   matched_count: number | null;
   duration_ms: number | null;
+  groundedness: number | null;
+  prompt_template: string | null;
+  prompt_template_version: number | null;
   created_at: string;
 };
 
@@ -82,6 +89,9 @@ export default function RunsPage() {
                   <th className="px-3 py-2 text-left border-b w-24">
                     耗时
                   </th>
+                  <th className="px-3 py-2 text-left border-b w-24">
+                    依据核查
+                  </th>
                   <th className="px-3 py-2 text-left border-b w-20">
                     操作
                   </th>
@@ -109,6 +119,15 @@ export default function RunsPage() {
                     <td className="px-3 py-2 align-top text-xs">
                       <div>TopK: {run.topk ?? "-"}</div>
                       <div>阈值: {run.threshold ?? "-"}</div>
+                      {run.prompt_template && (
+                        <div className="truncate">
+                          模板:{" "}
+                          {templateRef({
+                            name: run.prompt_template,
+                            version: run.prompt_template_version ?? 0,
+                          })}
+                        </div>
+                      )}
                     </td>
                     <td className="px-3 py-2 align-top text-center">
                       {run.matched_count ?? 0}
@@ -118,6 +137,17 @@ export default function RunsPage() {
                         ? `${run.duration_ms} ms`
                         : "-"}
                     </td>
+                    <td className="px-3 py-2 align-top text-center">
+                      {run.groundedness != null ? (
+                        <span
+                          className={`px-1 rounded text-xs ${groundednessClass(run.groundedness)}`}
+                        >
+                          {formatGroundedness(run.groundedness)}
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
                     <td className="px-3 py-2 align-top text-center">
                       <a
                         href={`/runs/${run.id}`}
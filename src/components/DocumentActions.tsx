@@ -0,0 +1,356 @@
+// src/components/DocumentActions.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+} from "@/lib/chunker";
+import { TERMINAL_JOB_STATUSES, jobPercent, pollJob } from "@/lib/jobProgress";
+import { CONFIDENTIALITY_LABELS, CONFIDENTIALITY_LEVELS } from "@/lib/metadata";
+import type { Confidentiality, DocumentMetadata } from "@/types/document";
+import type { IngestJob } from "@/types/job";
+
+type ActionDoc = {
+  id: number;
+  name: string;
+  chunk_size?: number | null;
+  chunk_overlap?: number | null;
+  metadata?: DocumentMetadata | null;
+};
+
+type DialogKind = "rename" | "metadata" | "reindex" | "delete";
+
+type MetadataDraft = {
+  department: string;
+  owner: string;
+  tags: string; // 逗号分隔
+  effective_date: string;
+  confidentiality: Confidentiality | "";
+};
+
+const toDraft = (m?: DocumentMetadata | null): MetadataDraft => ({
+  department: m?.department ?? "",
+  owner: m?.owner ?? "",
+  tags: (m?.tags ?? []).join(", "),
+  effective_date: m?.effective_date ?? "",
+  confidentiality: m?.confidentiality ?? "",
+});
+
+interface Props {
+  doc: ActionDoc;
+  onChanged?: () => void; // 重命名 / 重建索引完成后刷新数据
+  onDeleted?: () => void; // 删除成功后（详情页用来跳回列表）
+}
+
+// 🛠️ 文档操作按钮组：重命名 / 重建索引 / 删除，均带确认弹窗。
+// 列表页和详情页共用，保证两处行为一致。
+export default function DocumentActions({ doc, onChanged, onDeleted }: Props) {
+  const [dialog, setDialog] = useState<DialogKind | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [nameDraft, setNameDraft] = useState(doc.name);
+  const [chunkSize, setChunkSize] = useState(
+    doc.chunk_size ?? DEFAULT_CHUNK_SIZE
+  );
+  const [chunkOverlap, setChunkOverlap] = useState(
+    doc.chunk_overlap ?? DEFAULT_CHUNK_OVERLAP
+  );
+
+  const [metaDraft, setMetaDraft] = useState<MetadataDraft>(() =>
+    toDraft(doc.metadata)
+  );
+
+  const [reindexJob, setReindexJob] = useState<IngestJob | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
+
+  // 🛑 组件卸载（例如删除后跳回列表）时停止轮询
+  const pollingRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    pollingRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const open = (kind: DialogKind) => {
+    setError(null);
+    setNameDraft(doc.name);
+    setChunkSize(doc.chunk_size ?? DEFAULT_CHUNK_SIZE);
+    setChunkOverlap(doc.chunk_overlap ?? DEFAULT_CHUNK_OVERLAP);
+    setMetaDraft(toDraft(doc.metadata));
+    setDialog(kind);
+  };
+
+  // 📡 轮询重建索引任务，结束后通知上层刷新
+  const trackReindex = async (jobId: string) => {
+    if (!pollingRef.current) return;
+    setTrackError(null);
+    try {
+      const job = await pollJob(jobId, {
+        signal: pollingRef.current.signal,
+        onUpdate: setReindexJob,
+      });
+      if (job) onChanged?.();
+    } catch (err) {
+      setReindexJob(null);
+      setTrackError(err instanceof Error ? err.message : "获取任务状态失败");
+    }
+  };
+
+  const confirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      let res: Response;
+      if (dialog === "rename") {
+        res = await fetch(`/api/documents/${doc.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: nameDraft }),
+        });
+      } else if (dialog === "metadata") {
+        // 保留 category / path 等导入信息，只覆盖可编辑字段
+        const metadata = {
+          ...doc.metadata,
+          department: metaDraft.department,
+          owner: metaDraft.owner,
+          tags: metaDraft.tags.split(/[,，]/),
+          effective_date: metaDraft.effective_date,
+          confidentiality: metaDraft.confidentiality,
+        };
+        res = await fetch(`/api/documents/${doc.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ metadata }),
+        });
+      } else if (dialog === "reindex") {
+        res = await fetch(`/api/documents/${doc.id}/reindex`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ chunkSize, chunkOverlap }),
+        });
+      } else {
+        res = await fetch(`/api/documents/${doc.id}`, { method: "DELETE" });
+      }
+
+      const data = await res.json();
+      if (!res.ok)
+        throw new Error(data?.error || `Request failed: ${res.status}`);
+
+      setDialog(null);
+      if (dialog === "delete") {
+        // 详情页删除后直接跳走，不再刷新已不存在的文档
+        (onDeleted ?? onChanged)?.();
+        return;
+      }
+      if (dialog === "reindex") {
+        setReindexJob(null);
+        void trackReindex(data.job_id);
+      }
+      onChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "操作失败");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reindexRunning =
+    reindexJob !== null && !TERMINAL_JOB_STATUSES.includes(reindexJob.status);
+
+  return (
+    <>
+      <div className="flex items-center gap-2 text-xs whitespace-nowrap">
+        <button
+          type="button"
+          onClick={() => open("rename")}
+          className="text-blue-600 hover:underline"
+        >
+          重命名
+        </button>
+        <button
+          type="button"
+          onClick={() => open("metadata")}
+          className="text-blue-600 hover:underline"
+        >
+          元数据
+        </button>
+        <button
+          type="button"
+          disabled={reindexRunning}
+          onClick={() => open("reindex")}
+          className="text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          {reindexJob && reindexRunning
+            ? `重建中 ${jobPercent(reindexJob)}%`
+            : "重建索引"}
+        </button>
+        <button
+          type="button"
+          onClick={() => open("delete")}
+          className="text-red-600 hover:underline"
+        >
+          删除
+        </button>
+        {reindexJob?.status === "failed" && (
+          <span className="text-red-500" title={reindexJob.error ?? ""}>
+            重建失败
+          </span>
+        )}
+        {trackError && (
+          <span className="text-red-500" title={trackError}>
+            进度获取失败
+          </span>
+        )}
+      </div>
+
+      {dialog && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+          <div className="bg-white rounded shadow-lg w-80 p-4 text-sm text-gray-800">
+            <div className="font-semibold mb-2">
+              {dialog === "rename" && "重命名文档"}
+              {dialog === "metadata" && "编辑元数据"}
+              {dialog === "reindex" && "重建索引"}
+              {dialog === "delete" && "删除文档"}
+            </div>
+
+            {dialog === "rename" && (
+              <input
+                value={nameDraft}
+                onChange={(e) => setNameDraft(e.target.value)}
+                className="w-full border rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+            )}
+
+            {dialog === "metadata" && (
+              <div className="space-y-2 text-xs text-gray-600">
+                {(
+                  [
+                    ["department", "部门", "例如 人力资源部"],
+                    ["owner", "负责人", "例如 张三"],
+                    ["tags", "标签", "逗号分隔，例如 假期, 考勤"],
+                  ] as const
+                ).map(([key, label, placeholder]) => (
+                  <label key={key} className="flex items-center gap-2">
+                    <span className="w-14 shrink-0">{label}：</span>
+                    <input
+                      value={metaDraft[key]}
+                      placeholder={placeholder}
+                      onChange={(e) =>
+                        setMetaDraft((d) => ({ ...d, [key]: e.target.value }))
+                      }
+                      className="flex-1 border rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-400"
+                    />
+                  </label>
+                ))}
+                <label className="flex items-center gap-2">
+                  <span className="w-14 shrink-0">生效日期：</span>
+                  <input
+                    type="date"
+                    value={metaDraft.effective_date}
+                    onChange={(e) =>
+                      setMetaDraft((d) => ({
+                        ...d,
+                        effective_date: e.target.value,
+                      }))
+                    }
+                    className="flex-1 border rounded px-2 py-1"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="w-14 shrink-0">密级：</span>
+                  <select
+                    value={metaDraft.confidentiality}
+                    onChange={(e) =>
+                      setMetaDraft((d) => ({
+                        ...d,
+                        confidentiality: e.target.value as Confidentiality | "",
+                      }))
+                    }
+                    className="flex-1 border rounded px-2 py-1 bg-white"
+                  >
+                    <option value="">未设置（按内部处理）</option>
+                    {CONFIDENTIALITY_LEVELS.map((level) => (
+                      <option key={level} value={level}>
+                        {CONFIDENTIALITY_LABELS[level]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            {dialog === "reindex" && (
+              <div className="space-y-2 text-xs text-gray-600">
+                <p>
+                  将删除「{doc.name}」的全部分片，并按以下参数重新切片、向量化。
+                  重建期间该文档可能检索不到。
+                </p>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1">
+                    <span>切片长度：</span>
+                    <input
+                      type="number"
+                      min={MIN_CHUNK_SIZE}
+                      max={MAX_CHUNK_SIZE}
+                      step={50}
+                      value={chunkSize}
+                      onChange={(e) => setChunkSize(Number(e.target.value))}
+                      className="w-16 border rounded px-1 py-0.5"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <span>重叠：</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={10}
+                      value={chunkOverlap}
+                      onChange={(e) => setChunkOverlap(Number(e.target.value))}
+                      className="w-14 border rounded px-1 py-0.5"
+                    />
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {dialog === "delete" && (
+              <p className="text-xs text-gray-600">
+                确定删除「{doc.name}
+                」吗？文档及其全部分片将被永久删除，无法恢复。
+              </p>
+            )}
+
+            {error && <div className="mt-2 text-xs text-red-500">{error}</div>}
+
+            <div className="mt-4 flex justify-end gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => setDialog(null)}
+                disabled={busy}
+                className="px-3 py-1 rounded border bg-white hover:bg-gray-50"
+              >
+                取消
+              </button>
+              <button
+                type="button"
+                onClick={() => void confirm()}
+                disabled={busy || (dialog === "rename" && !nameDraft.trim())}
+                className={`px-3 py-1 rounded text-white disabled:bg-gray-400 ${
+                  dialog === "delete"
+                    ? "bg-red-500 hover:bg-red-600"
+                    : "bg-blue-500 hover:bg-blue-600"
+                }`}
+              >
+                {busy ? "处理中..." : "确定"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
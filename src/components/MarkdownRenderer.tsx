@@ -10,10 +10,33 @@ import rehypeKatex from "rehype-katex";
 import "highlight.js/styles/github.css";
 import "katex/dist/katex.min.css";
 
+import { CITATION_PATTERN, parseCitationNumbers } from "@/lib/citations";
+import { chunkHref } from "@/lib/contextWindow/options";
+import type { Source } from "@/types/chat";
+
+type CitationSource = Pick<
+  Source,
+  "id" | "document_id" | "snippet" | "heading_path" | "window_chunk_ids"
+>;
+
 interface Props {
   content: string;
+  // 回答的来源（顺序即 [n] 编号）；传入时正文里的 [n] 渲染成可点击的引用徽标
+  citations?: CitationSource[];
+  // 回答核查未通过的句子，正文里标红
+  unsupported?: string[];
 }
 
+type MdNode = {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+};
+
+const CITATION_HREF = /^#cite-(\d+)$/;
+
 /** 🧠 工具1：去除最外层 ```markdown 包裹 */
 function unwrapTopFence(md: string) {
   if (!md) return md.trim();
@@ -32,8 +55,127 @@ function normalizeTasks(md: string) {
   );
 }
 
+/** 🔖 工具3：remark 插件，把正文里的 [n] 拆成 #cite-n 链接；代码、公式、已有链接里的不处理 */
+function remarkCitations(sourceCount: number) {
+  const split = (value: string): MdNode[] => {
+    const nodes: MdNode[] = [];
+    let last = 0;
+    for (const m of value.matchAll(CITATION_PATTERN)) {
+      const numbers = parseCitationNumbers(m[1]);
+      if (!numbers.every((n) => n >= 1 && n <= sourceCount)) continue;
+      if (m.index > last) {
+        nodes.push({ type: "text", value: value.slice(last, m.index) });
+      }
+      for (const n of numbers) {
+        nodes.push({
+          type: "link",
+          url: `#cite-${n}`,
+          children: [{ type: "text", value: String(n) }],
+        });
+      }
+      last = m.index + m[0].length;
+    }
+    if (last < value.length) {
+      nodes.push({ type: "text", value: value.slice(last) });
+    }
+    return nodes;
+  };
+
+  const walk = (node: MdNode) => {
+    if (
+      !node.children ||
+      node.type === "link" ||
+      node.type === "linkReference"
+    ) {
+      return;
+    }
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text" && child.value) return split(child.value);
+      walk(child);
+      return [child];
+    });
+  };
+
+  return () => (tree: MdNode) => walk(tree);
+}
+
+/** 🚩 工具4：remark 插件，把核查未通过的句子包成 <mark>；只能标出落在同一个文本节点里的整句 */
+function remarkMarkSentences(sentences: string[]) {
+  const targets = sentences.filter(Boolean); // 空串会让 indexOf 原地打转
+  const mark = (value: string): MdNode[] => {
+    const nodes: MdNode[] = [];
+    let rest = value;
+    for (;;) {
+      let hit: { index: number; text: string } | null = null;
+      for (const text of targets) {
+        const index = rest.indexOf(text);
+        if (index !== -1 && (!hit || index < hit.index)) hit = { index, text };
+      }
+      if (!hit) break;
+      if (hit.index > 0) {
+        nodes.push({ type: "text", value: rest.slice(0, hit.index) });
+      }
+      nodes.push({
+        type: "unsupported",
+        data: {
+          hName: "mark",
+          hProperties: {
+            className: ["bg-red-100", "text-red-800", "rounded", "px-0.5"],
+            title: "未在检索片段中找到依据",
+          },
+        },
+        children: [{ type: "text", value: hit.text }],
+      });
+      rest = rest.slice(hit.index + hit.text.length);
+    }
+    if (rest) nodes.push({ type: "text", value: rest });
+    return nodes;
+  };
+
+  const walk = (node: MdNode) => {
+    if (!node.children) return;
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text" && child.value) return mark(child.value);
+      walk(child);
+      return [child];
+    });
+  };
+
+  return () => (tree: MdNode) => walk(tree);
+}
+
+/** 🏷️ 引用徽标：点击跳到对应分片，悬停预览片段内容 */
+function CitationBadge({ n, source }: { n: number; source: CitationSource }) {
+  return (
+    <span className="relative group inline-block align-super">
+      <a
+        href={chunkHref(source)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-blue-100 px-1 text-[10px] font-medium text-blue-700 no-underline hover:bg-blue-200"
+      >
+        {n}
+      </a>
+      <span className="pointer-events-none absolute bottom-full left-0 z-10 mb-1 hidden w-72 rounded border bg-white p-2 text-xs font-normal text-gray-700 shadow-lg group-hover:block">
+        {source.heading_path && (
+          <span className="mb-1 block text-gray-500">
+            {source.heading_path}
+          </span>
+        )}
+        <span className="block max-h-40 overflow-hidden whitespace-pre-wrap">
+          {source.snippet}
+        </span>
+      </span>
+    </span>
+  );
+}
+
 /** ✨ 主组件：Markdown 渲染器 */
-export default function MarkdownRenderer({ content }: Props) {
+export default function MarkdownRenderer({
+  content,
+  citations,
+  unsupported,
+}: Props) {
   // 1️⃣ 清洗 Markdown 内容
   const cleaned = normalizeTasks(unwrapTopFence(content));
 
@@ -46,15 +188,26 @@ export default function MarkdownRenderer({ content }: Props) {
       prose-a:text-blue-600 hover:prose-a:underline"
     >
       <ReactMarkdown
-        remarkPlugins={[remarkGfm, remarkMath]}
+        remarkPlugins={[
+          remarkGfm,
+          remarkMath,
+          // 先标句子再拆引用：整句匹配时 [n] 还在同一个文本节点里
+          ...(unsupported?.length ? [remarkMarkSentences(unsupported)] : []),
+          ...(citations?.length ? [remarkCitations(citations.length)] : []),
+        ]}
         rehypePlugins={[rehypeHighlight, rehypeKatex]}
         components={{
-          // 🔗 链接
-          a: ({ href, children }) => (
-            <a href={href} target="_blank" rel="noopener noreferrer">
-              {children}
-            </a>
-          ),
+          // 🔗 链接（#cite-n 是 remarkCitations 生成的行内引用）
+          a: ({ href, children }) => {
+            const n = Number(href?.match(CITATION_HREF)?.[1]);
+            const source = citations?.[n - 1];
+            if (source) return <CitationBadge n={n} source={source} />;
+            return (
+              <a href={href} target="_blank" rel="noopener noreferrer">
+                {children}
+              </a>
+            );
+          },
 
           // 🖼️ 图片
           img: ({ src, alt }) => {
@@ -0,0 +1,71 @@
+// src/components/PromptPicker.tsx
+"use client";
+
+import useSWR from "swr";
+import { LANGUAGE_OPTIONS, templateRef } from "@/lib/promptTemplates/options";
+import type { PromptTemplate } from "@/types/prompt";
+
+interface Props {
+  template: string; // "" = 默认模板，"name" = 最新版本，"name@3" = 固定版本
+  onTemplateChange: (ref: string) => void;
+  language: string;
+  onLanguageChange: (language: string) => void;
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// 📝 提示词模板 + 回答语言：模板列表来自 /api/prompts，同名模板可以选“最新”或固定某个版本
+export default function PromptPicker({
+  template,
+  onTemplateChange,
+  language,
+  onLanguageChange,
+}: Props) {
+  const { data } = useSWR("/api/prompts", fetcher);
+  const templates: PromptTemplate[] = data?.templates ?? [];
+  const defaultTemplate = templates.find((t) => t.is_default);
+  const names = [...new Set(templates.map((t) => t.name))];
+
+  return (
+    <>
+      <label className="flex items-center gap-1">
+        <span>提示词：</span>
+        <select
+          value={template}
+          onChange={(e) => onTemplateChange(e.target.value)}
+          className="border rounded px-1 py-0.5 text-xs bg-white max-w-[12rem]"
+        >
+          <option value="">
+            默认（{defaultTemplate ? templateRef(defaultTemplate) : "内置"}）
+          </option>
+          {names.map((name) => (
+            <optgroup key={name} label={name}>
+              <option value={name}>{name}（最新）</option>
+              {templates
+                .filter((t) => t.name === name)
+                .map((t) => (
+                  <option key={t.id} value={templateRef(t)}>
+                    {templateRef(t)}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        <span>回答语言：</span>
+        <select
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value)}
+          className="border rounded px-1 py-0.5 text-xs bg-white"
+        >
+          {LANGUAGE_OPTIONS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+}
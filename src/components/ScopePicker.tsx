@@ -0,0 +1,88 @@
+// src/components/ScopePicker.tsx
+"use client";
+
+import useSWR from "swr";
+import type { MetadataFilter } from "@/types/document";
+
+type Facet = { value: string; count: number };
+
+interface Props {
+  value: MetadataFilter;
+  onChange: (next: MetadataFilter) => void;
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// 🎯 检索范围选择：按部门 / 标签限定本次提问只在这些文档里检索，不选即全库
+export default function ScopePicker({ value, onChange }: Props) {
+  const { data } = useSWR("/api/documents/facets", fetcher);
+  const departments: Facet[] = data?.departments ?? [];
+  const tags: Facet[] = data?.tags ?? [];
+
+  if (!departments.length && !tags.length) return null;
+
+  const toggle = (key: "departments" | "tags", item: string) => {
+    const current = value[key] ?? [];
+    const next = current.includes(item)
+      ? current.filter((x) => x !== item)
+      : [...current, item];
+    onChange({ ...value, [key]: next.length ? next : undefined });
+  };
+
+  const chip = (key: "departments" | "tags", facet: Facet) => {
+    const active = value[key]?.includes(facet.value) ?? false;
+    return (
+      <button
+        key={facet.value}
+        type="button"
+        onClick={() => toggle(key, facet.value)}
+        className={`px-2 py-0.5 rounded-full border text-[11px] ${
+          active
+            ? "bg-blue-500 border-blue-500 text-white"
+            : "bg-white text-gray-600 hover:bg-gray-50"
+        }`}
+      >
+        {facet.value}
+        <span className={active ? "text-blue-100" : "text-gray-400"}>
+          {" "}
+          {facet.count}
+        </span>
+      </button>
+    );
+  };
+
+  const hasScope = !!(value.departments?.length || value.tags?.length);
+
+  return (
+    <div className="w-full space-y-1">
+      {departments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-gray-500">部门：</span>
+          {departments.map((d) => chip("departments", d))}
+        </div>
+      )}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-gray-500">标签：</span>
+          {tags.map((t) => chip("tags", t))}
+        </div>
+      )}
+      <div className="text-[11px] text-gray-500">
+        {hasScope ? (
+          <>
+            仅在所选范围内检索（部门、标签之间为“且”，同类多选为“或”）。
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              className="ml-1 text-blue-600 hover:underline"
+            >
+              清除
+            </button>
+          </>
+        ) : (
+          "未选择范围，检索全部文档。"
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,54 @@
 // src/components/UploadBox.tsx
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { UPLOAD_ACCEPT, UPLOAD_FORMAT_LABEL } from "@/lib/extractors/formats";
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+} from "@/lib/chunker";
+import { jobPercent, pollJob } from "@/lib/jobProgress";
+import type { ImportReport, IngestJob, JobStatus } from "@/types/job";
 
-type UploadStatus = "pending" | "uploading" | "done" | "error";
+type UploadStatus =
+  | "pending"
+  | "uploading"
+  | "processing"
+  | "done"
+  | "partial"
+  | "conflict"
+  | "error";
+
+type ConflictChoice = "replace" | "keep";
 
 type UploadItem = {
   id: string;
-  file: File;
+  file?: File; // 本地文件上传
+  url?: string; // 或者从网页地址入库
+  name: string;
   status: UploadStatus;
   message?: string; // 成功 / 失败文案
+  jobId?: string; // 后台入库任务 id
+  job?: IngestJob; // 最近一次轮询到的任务状态
+  conflictWith?: number; // 同名旧版本的文档 id
+  onConflict?: ConflictChoice; // 用户对同名冲突的选择
+};
+
+// 📦 .zip 走批量导入接口，压缩包里的每个文件各自成为一篇文档
+const isZip = (file?: File) => !!file?.name.toLowerCase().endsWith(".zip");
+
+const reportSummary = (r: ImportReport) =>
+  `导入 ${r.imported.length} · 重复 ${r.duplicates.length} · 跳过 ${r.skipped.length} · 失败 ${r.failed.length}`;
+
+const stageText: Record<JobStatus, string> = {
+  queued: "排队中",
+  extracting: "解析文本",
+  chunking: "切片中",
+  embedding: "向量化",
+  done: "已完成",
+  failed: "失败",
 };
 
 interface Props {
@@ -22,6 +61,18 @@ export default function UploadBox({ onUploaded }: Props) {
   const [items, setItems] = useState<UploadItem[]>([]);
   const [isUploading, setIsUploading] = useState(false);
 
+  // 🛑 组件卸载时停止所有任务轮询
+  const pollingRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    pollingRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  // ✂️ 切片参数：随本次上传一起提交，后端会再做一次合法性校验
+  const [chunkSize, setChunkSize] = useState(DEFAULT_CHUNK_SIZE);
+  const [chunkOverlap, setChunkOverlap] = useState(DEFAULT_CHUNK_OVERLAP);
+
   // 🧠 用户选择文件时：把 FileList 转成队列项
   const handleSelectFiles = (files: FileList | null) => {
     if (!files?.length) return;
@@ -29,6 +80,7 @@ export default function UploadBox({ onUploaded }: Props) {
     const next: UploadItem[] = Array.from(files).map((file) => ({
       id: crypto.randomUUID(),
       file,
+      name: file.name,
       status: "pending",
     }));
 
@@ -38,79 +90,144 @@ export default function UploadBox({ onUploaded }: Props) {
     void startUpload(next);
   };
 
-  // 🚀 上传队列中的文件（串行，避免打爆后端；想并发以后可以再改）
+  // 🌐 按 URL 入库内网 wiki 页面
+  const [urlDraft, setUrlDraft] = useState("");
+
+  const handleAddUrl = () => {
+    const url = urlDraft.trim();
+    if (!url) return;
+    const item: UploadItem = {
+      id: crypto.randomUUID(),
+      url,
+      name: url,
+      status: "pending",
+    };
+    setItems((prev) => [...prev, item]);
+    setUrlDraft("");
+    void startUpload([item]);
+  };
+
+  const patchItem = (id: string, patch: Partial<UploadItem>) =>
+    setItems((prev) => prev.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+
+  // 📡 轮询后台任务直到 done / failed
+  const trackJob = async (itemId: string, jobId: string) => {
+    if (!pollingRef.current) return;
+    let job: IngestJob | null;
+    try {
+      job = await pollJob(jobId, {
+        signal: pollingRef.current.signal,
+        onUpdate: (j) => patchItem(itemId, { job: j }),
+      });
+    } catch (err) {
+      patchItem(itemId, {
+        status: "error",
+        message: `❌ ${err instanceof Error ? err.message : "获取任务状态失败"}`,
+      });
+      return;
+    }
+    if (!job) return; // 组件已卸载
+
+    if (job.status === "failed") {
+      patchItem(itemId, {
+        status: "error",
+        message: `❌ ${job.error || "入库失败"}`,
+      });
+    } else if (job.report) {
+      patchItem(itemId, {
+        status: job.report.failed.length ? "partial" : "done",
+        message: `${job.report.failed.length ? "⚠️" : "✅"} ${reportSummary(job.report)}`,
+      });
+      onUploaded?.();
+    } else if (job.index_status === "partial") {
+      patchItem(itemId, {
+        status: "partial",
+        message: `⚠️ 部分索引：${job.error ?? "部分分片向量化失败"}`,
+      });
+      onUploaded?.();
+    } else {
+      patchItem(itemId, {
+        status: "done",
+        message: `✅ ${job.file_name} · ${job.progress_total} 个分片`,
+      });
+      // 通知上层：有文件入库成功了（例如 /documents 页可用来刷新列表）
+      onUploaded?.();
+    }
+  };
+
+  // 🚀 上传队列中的文件：上传本身很快（只建任务），入库进度交给 trackJob 并行轮询
   const startUpload = async (targets: UploadItem[]) => {
     setIsUploading(true);
     try {
       for (const item of targets) {
-        // 标记为 uploading
-        setItems((prev) =>
-          prev.map((x) =>
-            x.id === item.id
-              ? { ...x, status: "uploading", message: undefined }
-              : x
-          )
-        );
-
-        const formData = new FormData();
-        // ⚠️ 字段名 "file" 要与 /api/upload 的实现保持一致
-        formData.append("file", item.file);
+        patchItem(item.id, {
+          status: "uploading",
+          message: undefined,
+          job: undefined,
+        });
 
         try {
-          const res = await fetch("/api/upload", {
-            method: "POST",
-            body: formData,
-          });
+          const res = item.url
+            ? await fetch("/api/ingest/url", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  url: item.url,
+                  chunkSize,
+                  chunkOverlap,
+                }),
+              })
+            : await fetch(
+                isZip(item.file) ? "/api/ingest/zip" : "/api/upload",
+                {
+                  method: "POST",
+                  body: uploadForm(item, chunkSize, chunkOverlap),
+                }
+              );
 
-          // 兼容你原来返回 JSON { filename, length, preview, error }
+          // 返回 { job_id, status } / { duplicate | unchanged, document_id } / { error }
           const data = await res.json();
 
+          if (res.status === 409 && data?.conflict === "same_name") {
+            patchItem(item.id, {
+              status: "conflict",
+              conflictWith: data.existing_document_id,
+              message: `⚠️ 已存在同名文档 #${data.existing_document_id}（内容不同）`,
+            });
+            continue;
+          }
+
           if (!res.ok) {
             const msg = data?.error || `Upload failed: ${res.status}`;
             throw new Error(msg);
           }
 
-          const successMsg = `✅ ${data.filename || item.file.name} · length ${
-            data.length ?? "unknown"
-          }`;
-
-          setItems((prev) =>
-            prev.map((x) =>
-              x.id === item.id
-                ? {
-                    ...x,
-                    status: "done",
-                    message: successMsg,
-                  }
-                : x
-            )
-          );
-
-          // 你原来是 console.log preview，这里保留
-          if (data?.preview) {
-            console.log("Extracted preview:", data.preview);
+          if (data.duplicate) {
+            patchItem(item.id, {
+              status: "done",
+              message: `✅ 内容与已有文档 #${data.document_id} 完全相同，已跳过`,
+            });
+            continue;
           }
 
-          // 通知上层：有文件上传成功了（例如 /documents 页可用来刷新列表）
-          onUploaded?.();
-        } catch (err: any) {
-          const errorMsg = `❌ ${
-            err?.message || "Upload failed"
-          }`;
+          if (data.unchanged) {
+            patchItem(item.id, {
+              status: "done",
+              message: `✅ 页面内容未变化（文档 #${data.document_id}），无需更新`,
+            });
+            continue;
+          }
 
+          patchItem(item.id, { status: "processing", jobId: data.job_id });
+          void trackJob(item.id, data.job_id);
+        } catch (err: unknown) {
           console.error("Upload error:", err);
-
-          setItems((prev) =>
-            prev.map((x) =>
-              x.id === item.id
-                ? {
-                    ...x,
-                    status: "error",
-                    message: errorMsg,
-                  }
-                : x
-            )
-          );
+          patchItem(item.id, {
+            status: "error",
+            message: `❌ ${
+              err instanceof Error ? err.message : "Upload failed"
+            }`,
+          });
         }
       }
     } finally {
@@ -118,6 +235,39 @@ export default function UploadBox({ onUploaded }: Props) {
     }
   };
 
+  // 🔁 重试：已建好文档的任务走服务端重建索引；抽取阶段就失败的，用本地文件重新上传
+  const retryItem = async (item: UploadItem) => {
+    if (item.jobId) {
+      const res = await fetch(`/api/jobs/${item.jobId}/retry`, {
+        method: "POST",
+      });
+      if (res.ok) {
+        patchItem(item.id, {
+          status: "processing",
+          message: undefined,
+          job: undefined,
+        });
+        void trackJob(item.id, item.jobId);
+        return;
+      }
+      if (res.status !== 409) {
+        const data = await res.json().catch(() => null);
+        patchItem(item.id, {
+          message: `❌ ${data?.error || `Retry failed: ${res.status}`}`,
+        });
+        return;
+      }
+    }
+    await startUpload([item]);
+  };
+
+  // ⚖️ 同名冲突：替换旧版本（保留原文档 id 并重建索引）或保留两份
+  const resolveConflict = (item: UploadItem, choice: ConflictChoice) => {
+    const next = { ...item, onConflict: choice };
+    patchItem(item.id, { onConflict: choice });
+    void startUpload([next]);
+  };
+
   const hasItems = items.length > 0;
 
   return (
@@ -129,8 +279,34 @@ export default function UploadBox({ onUploaded }: Props) {
             📂 上传企业文档
           </p>
           <p className="text-xs text-gray-500 mt-1">
-            支持多文件上传，PDF / Markdown / TXT。
+            支持多文件上传，{UPLOAD_FORMAT_LABEL}；也可上传整个文件夹的 .zip
+            压缩包（保留目录结构）。
           </p>
+          <div className="flex items-center gap-3 mt-1 text-[11px] text-gray-600">
+            <label className="flex items-center gap-1">
+              <span>切片长度：</span>
+              <input
+                type="number"
+                min={MIN_CHUNK_SIZE}
+                max={MAX_CHUNK_SIZE}
+                step={50}
+                value={chunkSize}
+                onChange={(e) => setChunkSize(Number(e.target.value))}
+                className="w-16 border rounded px-1 py-0.5"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <span>重叠：</span>
+              <input
+                type="number"
+                min={0}
+                step={10}
+                value={chunkOverlap}
+                onChange={(e) => setChunkOverlap(Number(e.target.value))}
+                className="w-14 border rounded px-1 py-0.5"
+              />
+            </label>
+          </div>
         </div>
         <div>
           <button
@@ -144,13 +320,34 @@ export default function UploadBox({ onUploaded }: Props) {
             ref={inputRef}
             type="file"
             multiple
-            accept=".pdf,.md,.markdown,.txt"
+            accept={`${UPLOAD_ACCEPT},.zip`}
             className="hidden"
             onChange={(e) => handleSelectFiles(e.target.files)}
           />
         </div>
       </div>
 
+      {/* 网页地址入库 */}
+      <div className="mt-3 flex items-center gap-2">
+        <input
+          value={urlDraft}
+          onChange={(e) => setUrlDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAddUrl();
+          }}
+          placeholder="或粘贴内网 wiki 页面地址，例如 https://wiki.example.com/leave-policy"
+          className="flex-1 border rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-400"
+        />
+        <button
+          type="button"
+          onClick={handleAddUrl}
+          disabled={!urlDraft.trim()}
+          className="px-3 py-1 rounded border text-xs bg-white hover:bg-gray-50 disabled:text-gray-400"
+        >
+          抓取入库
+        </button>
+      </div>
+
       {/* 队列列表 */}
       {hasItems && (
         <div className="mt-3 max-h-40 overflow-y-auto text-xs text-left">
@@ -161,11 +358,36 @@ export default function UploadBox({ onUploaded }: Props) {
             >
               <div className="flex-1 pr-2">
                 <div className="truncate text-gray-800">
-                  {item.file.name}
-                </div>
-                <div className="text-[11px] text-gray-500">
-                  {(item.file.size / 1024).toFixed(1)} KB
+                  {item.url ? `🌐 ${item.name}` : item.name}
                 </div>
+                {item.file && (
+                  <div className="text-[11px] text-gray-500">
+                    {(item.file.size / 1024).toFixed(1)} KB
+                  </div>
+                )}
+                {item.status === "processing" && (
+                  <div className="mt-1">
+                    <div className="h-1.5 bg-gray-200 rounded overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${item.job ? jobPercent(item.job) : 0}%` }}
+                      />
+                    </div>
+                    <div className="text-[11px] text-gray-500 mt-0.5">
+                      {item.job?.report
+                        ? `导入中 ${item.job.progress_done}/${item.job.progress_total} 个文件`
+                        : item.job
+                          ? stageText[item.job.status]
+                          : "排队中"}
+                      {!item.job?.report &&
+                        item.job?.status === "embedding" &&
+                        ` ${item.job.progress_done}/${item.job.progress_total}`}
+                    </div>
+                  </div>
+                )}
+                {item.job?.report && item.status !== "processing" && (
+                  <ImportReportDetails report={item.job.report} />
+                )}
                 {item.message && (
                   <div
                     className={`text-[11px] mt-0.5 ${
@@ -178,7 +400,36 @@ export default function UploadBox({ onUploaded }: Props) {
                   </div>
                 )}
               </div>
-              <StatusBadge status={item.status} />
+              <div className="flex flex-col items-end gap-1">
+                <StatusBadge status={item.status} />
+                {item.status === "conflict" && (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => resolveConflict(item, "replace")}
+                      className="text-[11px] text-blue-600 hover:underline"
+                    >
+                      替换旧版本
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => resolveConflict(item, "keep")}
+                      className="text-[11px] text-gray-600 hover:underline"
+                    >
+                      保留两份
+                    </button>
+                  </div>
+                )}
+                {(item.status === "error" || item.status === "partial") && (
+                  <button
+                    type="button"
+                    onClick={() => void retryItem(item)}
+                    className="text-[11px] text-blue-600 hover:underline"
+                  >
+                    重试
+                  </button>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -186,13 +437,49 @@ export default function UploadBox({ onUploaded }: Props) {
 
       {!hasItems && (
         <div className="mt-3 text-sm text-gray-500">
-          还没有选择文件，点击右上角按钮添加。
+          还没有选择文件，点击右上角按钮添加，或粘贴页面地址。
         </div>
       )}
     </div>
   );
 }
 
+// 📋 导入汇总明细：只展开有问题的文件（失败 / 跳过 / 重复），成功的只计数
+function ImportReportDetails({ report }: { report: ImportReport }) {
+  const rows = [
+    ...report.failed.map((f) => ({ path: f.path, note: `失败：${f.error}` })),
+    ...report.skipped.map((f) => ({ path: f.path, note: `跳过：${f.reason}` })),
+    ...report.duplicates.map((f) => ({
+      path: f.path,
+      note: `重复：已有文档 #${f.document_id}`,
+    })),
+  ];
+  if (!rows.length) return null;
+
+  return (
+    <details className="mt-0.5 text-[11px] text-gray-600">
+      <summary className="cursor-pointer">查看明细（{rows.length}）</summary>
+      <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto">
+        {rows.map((r) => (
+          <li key={r.path} className="truncate" title={`${r.path} · ${r.note}`}>
+            {r.path} · {r.note}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function uploadForm(item: UploadItem, chunkSize: number, chunkOverlap: number) {
+  const formData = new FormData();
+  // ⚠️ 字段名 "file" 要与 /api/upload 的实现保持一致
+  if (item.file) formData.append("file", item.file);
+  formData.append("chunkSize", String(chunkSize));
+  formData.append("chunkOverlap", String(chunkOverlap));
+  if (item.onConflict) formData.append("onConflict", item.onConflict);
+  return formData;
+}
+
 function StatusBadge({ status }: { status: UploadStatus }) {
   if (status === "pending") {
     return (
@@ -208,6 +495,27 @@ function StatusBadge({ status }: { status: UploadStatus }) {
       </span>
     );
   }
+  if (status === "processing") {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[11px] bg-blue-100 text-blue-700">
+        处理中...
+      </span>
+    );
+  }
+  if (status === "conflict") {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[11px] bg-yellow-100 text-yellow-700">
+        待确认
+      </span>
+    );
+  }
+  if (status === "partial") {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[11px] bg-orange-100 text-orange-700">
+        部分完成
+      </span>
+    );
+  }
   if (status === "done") {
     return (
       <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[11px] bg-green-100 text-green-700">
@@ -0,0 +1,138 @@
+// src/lib/agent/index.ts
+// 🤖 Agent 循环：把工具交给模型（function calling），模型决定调用哪些工具、调用几次；
+// 每轮都流式读取，工具调用累积完整后执行并把结果追加进对话，再进入下一轮。
+// 还能调用工具的轮次先攒着文本，确认这一轮没有调用工具才转发给前端：调用工具前的“我先查一下”不算回答。
+// 轮数和工具结果的 token 都有上限，超出后用 tool_choice=none 逼模型直接回答。
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import { countTokens } from "@/lib/promptBuilder";
+import { TOOL_DEFINITIONS, runTool, type ToolContext } from "./tools";
+import type { ToolResult } from "./tools";
+
+export * from "./tools";
+
+export const MAX_TOOL_ROUNDS = 3; // 最多几轮工具调用（一轮里模型可以并行调用多个工具）
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+export type AgentOptions = {
+  messages: ChatCompletionMessageParam[];
+  maxTokens: number; // 回答的 max_tokens
+  toolBudget: number; // 工具结果最多占多少 token（提示词预算里剩下的部分）
+  tools: boolean; // false = 不给工具，直接流式回答
+  context: ToolContext;
+  onDelta: (text: string) => void;
+  onToolCall: (call: ToolCall, round: number, index: number) => void;
+  onToolResult: (
+    call: ToolCall,
+    result: ToolResult,
+    round: number,
+    index: number
+  ) => void;
+};
+
+export type AgentRun = {
+  rounds: number; // 实际进行的工具调用轮数
+  toolCalls: number;
+  toolTokens: number;
+  stoppedEarly: boolean; // 因轮数 / token 上限被强制结束工具调用
+};
+
+export async function runAgent(options: AgentOptions): Promise<AgentRun> {
+  const messages = [...options.messages];
+  let rounds = 0;
+  let toolCalls = 0;
+  let toolTokens = 0;
+  let stoppedEarly = false;
+
+  for (;;) {
+    const canCallTools =
+      options.tools &&
+      rounds < MAX_TOOL_ROUNDS &&
+      toolTokens < options.toolBudget;
+    // 上一轮还在调用工具、这一轮却不允许了：说明是被上限截断的
+    if (options.tools && rounds > 0 && !canCallTools) stoppedEarly = true;
+
+    const stream = await aiClient.chat.completions.create({
+      model: AI_MODEL,
+      stream: true,
+      max_tokens: options.maxTokens,
+      messages,
+      // 对话里已经有工具消息时必须继续带上 tools，用 tool_choice=none 禁止再调用
+      ...(options.tools
+        ? {
+            tools: TOOL_DEFINITIONS,
+            tool_choice: canCallTools ? ("auto" as const) : ("none" as const),
+          }
+        : {}),
+    });
+
+    let content = "";
+    const calls: ToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        if (!canCallTools) options.onDelta(delta.content);
+      }
+      // 工具调用的参数是分片流式返回的，按 index 拼接
+      for (const tc of delta?.tool_calls ?? []) {
+        const call = (calls[tc.index] ??= { id: "", name: "", arguments: "" });
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.arguments += tc.function.arguments;
+      }
+    }
+
+    const pending = calls.filter(Boolean);
+    if (!pending.length || !canCallTools) {
+      if (canCallTools && content) options.onDelta(content);
+      return { rounds, toolCalls, toolTokens, stoppedEarly };
+    }
+
+    rounds++;
+    messages.push({
+      role: "assistant",
+      content: content || null,
+      tool_calls: pending.map((c) => ({
+        id: c.id,
+        type: "function" as const,
+        function: { name: c.name, arguments: c.arguments },
+      })),
+    });
+
+    // 同一轮的工具按顺序执行：结果采用后立即登记新来源，下一个工具的 [n] 编号接着往后排
+    for (const [index, call] of pending.entries()) {
+      options.onToolCall(call, rounds, index);
+      let result = await runTool(call.name, call.arguments, options.context);
+      const cost = countTokens(result.content, AI_MODEL);
+      if (toolTokens + cost > options.toolBudget) {
+        result = {
+          ok: false,
+          content: "工具结果超出上下文预算，请根据已有信息直接回答。",
+          summary: `结果约 ${cost} tokens，超出剩余预算 ${Math.max(
+            options.toolBudget - toolTokens,
+            0
+          )}，已丢弃`,
+        };
+        toolTokens = options.toolBudget;
+      } else {
+        toolTokens += cost;
+        if (result.sources?.length) {
+          options.context.addSources(result.sources, call.name);
+        }
+      }
+      toolCalls++;
+      options.onToolResult(call, result, rounds, index);
+      messages.push({
+        role: "tool",
+        tool_call_id: call.id,
+        content: result.content,
+      });
+    }
+  }
+}
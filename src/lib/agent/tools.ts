@@ -0,0 +1,418 @@
+// src/lib/agent/tools.ts
+// 🛠️ Agent 可调用的工具（OpenAI function calling）：检索知识库、读整篇文档、按标签列文档、取相邻分片。
+// 所有工具都限制在用户选定的检索范围内；返回的分片登记为新的来源，编号接在已有 sources 后面，回答里同样用 [n] 引用。
+import { errorMessage } from "@/lib/errors";
+import type { ChatCompletionFunctionTool } from "openai/resources/chat/completions";
+import type { EmbeddingModelConfig } from "@/lib/embedClient";
+import { embedTexts } from "@/lib/embeddingCache";
+import {
+  CONFIDENTIALITY_LEVELS,
+  InvalidMetadataError,
+  describeFilter,
+  narrowMetadataFilter,
+  normalizeMetadataFilter,
+} from "@/lib/metadata";
+import { getRecordStore } from "@/lib/recordStore";
+import { hybridRetrieve, type MatchRow } from "@/lib/retrieval";
+import { getVectorStore } from "@/lib/vectorStore";
+import { documentMatchesFilter } from "@/lib/vectorStore/local";
+import { MAX_NEIGHBOR_WINDOW } from "@/lib/contextWindow/options";
+import type { MetadataFilter } from "@/types/document";
+
+const MAX_SEARCH_RESULTS = 8;
+const MAX_LISTED_DOCUMENTS = 30;
+const MAX_CHUNK_CHARS = 1200; // 每个分片给模型看的长度
+const DEFAULT_DOCUMENT_CHARS = 4000;
+const MAX_DOCUMENT_CHARS = 12000;
+
+export type ToolContext = {
+  filter: MetadataFilter | null; // 用户选定的检索范围，工具只能在此范围内收窄
+  embedding: EmbeddingModelConfig;
+  threshold: number;
+  keywordWeight: number;
+  sources: MatchRow[]; // 当前 sources（顺序即 [n] 编号）
+  addSources: (chunks: MatchRow[], tool: string) => void; // 登记新来源，接在 sources 后面
+};
+
+export type ToolResult = {
+  ok: boolean;
+  content: string; // 回传给模型
+  summary: string; // 展示在步骤里
+  // 结果里新出现的分片；结果被采用（没超出 token 预算）后才由 runAgent 登记为来源
+  sources?: MatchRow[];
+};
+
+type AgentTool = {
+  definition: ChatCompletionFunctionTool;
+  run: (args: Record<string, unknown>, ctx: ToolContext) => Promise<ToolResult>;
+};
+
+// ❌ 参数不对 / 查不到：作为工具结果告诉模型，而不是中断整个回答
+class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolInputError";
+  }
+}
+
+function intArg(
+  args: Record<string, unknown>,
+  key: string,
+  { min, max, fallback }: { min: number; max: number; fallback?: number }
+) {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    if (fallback === undefined) throw new ToolInputError(`${key} is required`);
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new ToolInputError(`${key} must be an integer`);
+  }
+  return Math.min(Math.max(value, min), max);
+}
+
+function renderChunks(chunks: MatchRow[], numbers: number[]) {
+  return chunks
+    .map(
+      (c, i) =>
+        `[${numbers[i]}]（文档 #${c.document_id}${
+          c.heading_path ? ` · ${c.heading_path}` : ""
+        }）${c.content.slice(0, MAX_CHUNK_CHARS)}`
+    )
+    .join("\n\n");
+}
+
+async function fetchDocument(documentId: number) {
+  const records = await getRecordStore();
+  return records.getDocument(documentId);
+}
+
+// 🔢 分片 → [n] 编号：已在 sources 里的（含扩展窗口内的）用原编号，新的按顺序接在后面。
+// 只算编号不登记，登记交给 runAgent，被丢弃的结果不会在 sources 里留下没人引用的来源
+function numberSources(ctx: ToolContext, chunks: MatchRow[]) {
+  const fresh: MatchRow[] = [];
+  const numbers = chunks.map((chunk) => {
+    const existing = ctx.sources.findIndex(
+      (s) =>
+        s.id === chunk.id ||
+        (s as { window_chunk_ids?: number[] }).window_chunk_ids?.includes(
+          chunk.id
+        )
+    );
+    if (existing !== -1) return existing + 1;
+    const staged = fresh.findIndex((c) => c.id === chunk.id);
+    if (staged !== -1) return ctx.sources.length + staged + 1;
+    fresh.push(chunk);
+    return ctx.sources.length + fresh.length;
+  });
+  return { numbers, fresh };
+}
+
+// 🔢 [n] 编号 → 来源分片；扩展过窗口的来源取它的命中分片
+function sourceAt(ctx: ToolContext, n: number) {
+  const source = ctx.sources[n - 1] as
+    (MatchRow & { hit_chunk_ids?: number[] }) | undefined;
+  if (!source) throw new ToolInputError(`source [${n}] does not exist`);
+  return source;
+}
+
+const searchKnowledgeBase: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "search_knowledge_base",
+      description:
+        "在企业知识库中检索与查询相关的文档分片。已有片段不足以回答、需要换个说法或查另一个方面时使用。返回的分片带 [n] 编号，可在回答中引用。",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "检索查询，保留专有名词和编号原文",
+          },
+          top_k: {
+            type: "integer",
+            description: `返回条数，1~${MAX_SEARCH_RESULTS}，默认 5`,
+          },
+          departments: {
+            type: "array",
+            items: { type: "string" },
+            description: "只检索这些部门的文档",
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "只检索带这些标签之一的文档",
+          },
+          confidentiality: {
+            type: "array",
+            items: { type: "string", enum: CONFIDENTIALITY_LEVELS },
+            description: "只检索这些密级的文档",
+          },
+        },
+        required: ["query"],
+      },
+    },
+  },
+  async run(args, ctx) {
+    const query = typeof args.query === "string" ? args.query.trim() : "";
+    if (!query) throw new ToolInputError("query is required");
+    const topK = intArg(args, "top_k", {
+      min: 1,
+      max: MAX_SEARCH_RESULTS,
+      fallback: 5,
+    });
+    const filter = narrowMetadataFilter(
+      ctx.filter,
+      normalizeMetadataFilter({
+        departments: args.departments,
+        tags: args.tags,
+        confidentiality: args.confidentiality,
+      })
+    );
+
+    const {
+      vectors: [vector],
+    } = await embedTexts([query], ctx.embedding);
+    const { matches } = await hybridRetrieve(query, vector, {
+      embedding: ctx.embedding,
+      topK,
+      threshold: ctx.threshold,
+      filter,
+      keywordWeight: ctx.keywordWeight,
+    });
+    if (!matches.length) {
+      return {
+        ok: true,
+        content: "没有找到相关分片。",
+        summary: `“${query}”（${describeFilter(filter)}）：无结果`,
+      };
+    }
+
+    const { numbers, fresh } = numberSources(ctx, matches);
+    return {
+      ok: true,
+      content: renderChunks(matches, numbers),
+      summary: `“${query}”（${describeFilter(filter)}）：命中 ${
+        matches.length
+      } 条，来源 ${numbers.map((n) => `[${n}]`).join("")}`,
+      sources: fresh,
+    };
+  },
+};
+
+const getDocument: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_document",
+      description:
+        "读取一篇文档的原文（从开头起最多 max_chars 个字符），用于需要通读整篇制度的问题。可以传文档 id，或传某个来源的 [n] 编号读取它所在的文档。整篇原文不能用 [n] 引用。",
+      parameters: {
+        type: "object",
+        properties: {
+          document_id: { type: "integer", description: "文档 id" },
+          source: {
+            type: "integer",
+            description: "来源编号 n（即 [n]），读取该来源所在的文档",
+          },
+          max_chars: {
+            type: "integer",
+            description: `最多返回的字符数，默认 ${DEFAULT_DOCUMENT_CHARS}，最大 ${MAX_DOCUMENT_CHARS}`,
+          },
+        },
+      },
+    },
+  },
+  async run(args, ctx) {
+    const documentId =
+      args.source !== undefined
+        ? sourceAt(ctx, intArg(args, "source", { min: 1, max: Infinity }))
+            .document_id
+        : intArg(args, "document_id", { min: 1, max: Number.MAX_SAFE_INTEGER });
+    const maxChars = intArg(args, "max_chars", {
+      min: 200,
+      max: MAX_DOCUMENT_CHARS,
+      fallback: DEFAULT_DOCUMENT_CHARS,
+    });
+
+    const doc = await fetchDocument(documentId);
+    // 范围外的文档和不存在的文档给同样的回复，不泄露它的存在
+    if (!doc || !documentMatchesFilter(doc.metadata, ctx.filter)) {
+      throw new ToolInputError(
+        `document #${documentId} not found in the current scope`
+      );
+    }
+
+    const truncated = doc.content.length > maxChars;
+    return {
+      ok: true,
+      content: `《${doc.name}》（文档 #${doc.id}）\n${doc.content.slice(0, maxChars)}${
+        truncated ? `\n……（全文 ${doc.content.length} 字，已截断）` : ""
+      }`,
+      summary: `《${doc.name}》：返回 ${Math.min(
+        maxChars,
+        doc.content.length
+      )} / ${doc.content.length} 字`,
+    };
+  },
+};
+
+const listDocuments: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "list_documents",
+      description:
+        "列出带有某个标签的文档（id、名称、部门），用于“有哪些关于 X 的制度”这类问题，或先找到文档再用 get_document 读取。",
+      parameters: {
+        type: "object",
+        properties: {
+          tag: { type: "string", description: "文档标签" },
+          limit: {
+            type: "integer",
+            description: `最多返回多少篇，默认 10，最大 ${MAX_LISTED_DOCUMENTS}`,
+          },
+        },
+        required: ["tag"],
+      },
+    },
+  },
+  async run(args, ctx) {
+    const tag = typeof args.tag === "string" ? args.tag.trim() : "";
+    if (!tag) throw new ToolInputError("tag is required");
+    const limit = intArg(args, "limit", {
+      min: 1,
+      max: MAX_LISTED_DOCUMENTS,
+      fallback: 10,
+    });
+
+    // 多取一些，再按用户的检索范围过滤
+    const records = await getRecordStore();
+    const docs = (
+      await records.listDocumentsByTag(tag, MAX_LISTED_DOCUMENTS * 2)
+    )
+      .filter((d) => documentMatchesFilter(d.metadata, ctx.filter))
+      .slice(0, limit);
+
+    return {
+      ok: true,
+      content: docs.length
+        ? docs
+            .map(
+              (d) =>
+                `#${d.id} 《${d.name}》${
+                  d.metadata?.department ? `（${d.metadata.department}）` : ""
+                }`
+            )
+            .join("\n")
+        : `没有带“${tag}”标签的文档。`,
+      summary: `标签“${tag}”：${docs.length} 篇文档`,
+    };
+  },
+};
+
+const getNeighborChunks: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_neighbor_chunks",
+      description:
+        "取某个来源分片在原文中前后相邻的分片，用于答案被切断、需要看上下文的情况。返回的分片带 [n] 编号，可在回答中引用。",
+      parameters: {
+        type: "object",
+        properties: {
+          source: { type: "integer", description: "来源编号 n（即 [n]）" },
+          window: {
+            type: "integer",
+            description: `前后各取几个分片，1~${MAX_NEIGHBOR_WINDOW}，默认 1`,
+          },
+        },
+        required: ["source"],
+      },
+    },
+  },
+  async run(args, ctx) {
+    const n = intArg(args, "source", { min: 1, max: Infinity });
+    const source = sourceAt(ctx, n);
+    const window = intArg(args, "window", {
+      min: 1,
+      max: MAX_NEIGHBOR_WINDOW,
+      fallback: 1,
+    });
+
+    const store = await getVectorStore();
+    const hitIds = source.hit_chunk_ids?.length
+      ? source.hit_chunk_ids
+      : [source.id];
+    const rows = await store.neighbors(hitIds, window);
+    // 已经在这条来源（或其他来源）里的分片不再重复登记
+    const known = new Set(
+      ctx.sources.flatMap((s) => [
+        s.id,
+        ...((s as { window_chunk_ids?: number[] }).window_chunk_ids ?? []),
+      ])
+    );
+    const fresh = rows.filter((r) => !known.has(r.id));
+    if (!fresh.length) {
+      return {
+        ok: true,
+        content: `来源 [${n}] 前后 ${window} 个分片已经都在上下文中。`,
+        summary: `[${n}] 前后 ${window} 个：没有新的分片`,
+      };
+    }
+
+    const { numbers } = numberSources(ctx, fresh);
+    return {
+      ok: true,
+      content: renderChunks(fresh, numbers),
+      summary: `[${n}] 前后 ${window} 个：新增来源 ${numbers
+        .map((x) => `[${x}]`)
+        .join("")}`,
+      sources: fresh,
+    };
+  },
+};
+
+const TOOLS: AgentTool[] = [
+  searchKnowledgeBase,
+  getDocument,
+  listDocuments,
+  getNeighborChunks,
+];
+
+export const TOOL_DEFINITIONS = TOOLS.map((t) => t.definition);
+
+export async function runTool(
+  name: string,
+  rawArgs: string,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const tool = TOOLS.find((t) => t.definition.function.name === name);
+  if (!tool) {
+    return {
+      ok: false,
+      content: `Unknown tool: ${name}`,
+      summary: `未知工具 ${name}`,
+    };
+  }
+  try {
+    let args: unknown;
+    try {
+      args = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+    } catch {
+      throw new ToolInputError("arguments must be valid JSON");
+    }
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      throw new ToolInputError("arguments must be a JSON object");
+    }
+    return await tool.run(args as Record<string, unknown>, ctx);
+  } catch (e) {
+    const message = errorMessage(e);
+    // 参数问题告诉模型改正；其他错误（数据库 / 向量接口）也回传，让模型决定是否换个方式
+    if (!(e instanceof ToolInputError || e instanceof InvalidMetadataError)) {
+      console.error(`❌ Tool ${name} failed:`, e);
+    }
+    return { ok: false, content: `Error: ${message}`, summary: message };
+  }
+}
@@ -0,0 +1,144 @@
+// src/lib/bulkImport.ts
+// 📦 压缩包批量导入：解压 → 逐个文件去重 / 抽取 / 切片 / 向量化，
+// 相对目录写入 documents.metadata.category，最后在 job.report 里给出导入汇总。
+import { detectFormat } from "@/lib/extractors";
+import { findDuplicates, hashContent, ingestDocument } from "@/lib/ingest";
+import { updateJob } from "@/lib/jobs";
+import { getRecordStore } from "@/lib/recordStore";
+import { readZipEntries, type ZipEntry } from "@/lib/zip";
+import { errorMessage } from "@/lib/errors";
+import type { ImportReport } from "@/types/job";
+
+export const MAX_IMPORT_FILES = 2000;
+export const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024;
+export const MAX_IMPORT_TOTAL_BYTES = 500 * 1024 * 1024; // 整个压缩包解压后的总量上限
+
+export type ZipImportSource = {
+  buffer: Buffer;
+  chunkSize: number;
+  overlap: number;
+};
+
+// 🗂️ "手册/人事/年假.md" → { folder: "手册/人事", fileName: "年假.md" }
+export function splitEntryPath(path: string) {
+  const idx = path.lastIndexOf("/");
+  return idx === -1
+    ? { folder: "", fileName: path }
+    : { folder: path.slice(0, idx), fileName: path.slice(idx + 1) };
+}
+
+// macOS 打包带的 __MACOSX/、.DS_Store 之类的隐藏文件直接忽略，不计入汇总
+function isHiddenEntry(entry: ZipEntry) {
+  return entry.name
+    .split("/")
+    .some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+// 同一相对路径再次导入时覆盖旧文档（导出包更新后重新上传即可）
+async function findDocumentByImportPath(path: string) {
+  const records = await getRecordStore();
+  const doc = await records.findDocument({ import_path: path }, "newest");
+  return doc?.id ?? null;
+}
+
+export async function runZipImportJob(jobId: string, source: ZipImportSource) {
+  const report: ImportReport = {
+    imported: [],
+    duplicates: [],
+    skipped: [],
+    failed: [],
+  };
+
+  let inflatedBytes = 0;
+
+  try {
+    await updateJob(jobId, { status: "extracting", report });
+    const entries = readZipEntries(source.buffer).filter(
+      (e) => !e.isDirectory && !isHiddenEntry(e)
+    );
+    if (entries.length > MAX_IMPORT_FILES) {
+      throw new Error(
+        `Too many files in archive: ${entries.length} (max ${MAX_IMPORT_FILES})`
+      );
+    }
+
+    await updateJob(jobId, {
+      status: "embedding",
+      progress_done: 0,
+      progress_total: entries.length,
+    });
+
+    // 逐个文件串行处理：每个文件内部的向量化已经是并发的，串行可以避免打爆 embedding 限流
+    for (const [i, entry] of entries.entries()) {
+      const path = entry.name;
+      const { folder, fileName } = splitEntryPath(path);
+
+      try {
+        if (!detectFormat(fileName)) {
+          report.skipped.push({ path, reason: "unsupported file type" });
+        } else if (entry.size > MAX_IMPORT_FILE_BYTES) {
+          report.skipped.push({ path, reason: "file too large" });
+        } else if (entry.size === 0) {
+          report.skipped.push({ path, reason: "empty file" });
+        } else if (inflatedBytes + entry.size > MAX_IMPORT_TOTAL_BYTES) {
+          report.skipped.push({ path, reason: "archive size limit reached" });
+        } else {
+          // read 会核对实际解压长度与声明的 size 一致，累计值因此可信
+          const buffer = entry.read(MAX_IMPORT_FILE_BYTES);
+          inflatedBytes += buffer.length;
+          const contentHash = hashContent(buffer);
+          const { exact } = await findDuplicates(contentHash, fileName);
+
+          if (exact) {
+            report.duplicates.push({ path, document_id: exact.id });
+          } else {
+            const replaceDocumentId = await findDocumentByImportPath(path);
+            const { documentId, result } = await ingestDocument({
+              buffer,
+              fileName,
+              chunkSize: source.chunkSize,
+              overlap: source.overlap,
+              contentHash,
+              replaceDocumentId,
+              metadata: folder ? { category: folder, path } : { path },
+            });
+
+            if (result.status === "failed") {
+              report.failed.push({
+                path,
+                error: result.errors.join("; ") || "indexing failed",
+              });
+            } else {
+              report.imported.push({
+                path,
+                document_id: documentId,
+                replaced: replaceDocumentId !== null,
+              });
+            }
+          }
+        }
+      } catch (e) {
+        console.error(`❌ Import ${path} failed:`, e);
+        report.failed.push({ path, error: errorMessage(e) });
+      }
+
+      await updateJob(jobId, { progress_done: i + 1, report });
+    }
+
+    await updateJob(jobId, {
+      status: "done",
+      index_status: report.failed.length ? "partial" : "indexed",
+      error: report.failed.length
+        ? `${report.failed.length} file(s) failed`
+        : null,
+      report,
+    });
+  } catch (e) {
+    console.error("❌ Zip import job failed:", e);
+    await updateJob(jobId, {
+      status: "failed",
+      error: errorMessage(e),
+      report,
+    });
+  }
+}
@@ -0,0 +1,273 @@
+// src/lib/chunker.ts
+// ✂️ 结构感知切片器：替代按固定字符数硬切的 splitText。
+// 1) Markdown 文档先按 标题 / 代码块 / 表格 / 列表项 / 段落 拆成块，标题切换时强制换片；
+// 2) 超长块再按中英文句末标点拆句，仍超长才按字符硬切；
+// 3) 每个 chunk 的 content 都是原文的精确子串，并记录 start/end 偏移和标题路径，
+//    详情页可以据此在原文中高亮定位。
+
+export type ChunkOptions = {
+  chunkSize: number; // 目标长度（字符）
+  overlap: number; // 相邻 chunk 的重叠长度（字符，按整句回退）
+  structure: "markdown" | "plain";
+};
+
+export type Chunk = {
+  content: string;
+  start: number; // 原文起始偏移
+  end: number; // 原文结束偏移（不含）
+  headingPath: string[]; // 例如 ["员工手册", "假期", "年假"]
+};
+
+export const DEFAULT_CHUNK_SIZE = 500;
+export const DEFAULT_CHUNK_OVERLAP = 50;
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 4000;
+
+export const HEADING_PATH_SEPARATOR = " > ";
+
+// 🧱 最小不可再分的片段（一句话 / 一行代码 / 一个小块），带原文偏移
+type Unit = {
+  start: number;
+  end: number;
+  headingPath: string[];
+  startsSection: boolean; // 标题行：强制从这里开新 chunk
+};
+
+type Block = {
+  start: number;
+  end: number;
+  kind: "heading" | "code" | "table" | "list" | "paragraph";
+  level?: number;
+  title?: string;
+};
+
+// 中文句末标点直接断；英文 . ! ? 需要后面跟空白才算句末，避免把 3.5 / e.g. 拆开
+const SENTENCE_END = /[。！？；!?;…]+["'”’」』）)]*|\.(?=\s)|\n/g;
+
+// 📏 统一校验上传参数，非法值回落到默认值
+export function normalizeChunkOptions(
+  chunkSize?: number | null,
+  overlap?: number | null
+): Pick<ChunkOptions, "chunkSize" | "overlap"> {
+  const size =
+    typeof chunkSize === "number" &&
+    Number.isFinite(chunkSize) &&
+    chunkSize >= MIN_CHUNK_SIZE &&
+    chunkSize <= MAX_CHUNK_SIZE
+      ? Math.floor(chunkSize)
+      : DEFAULT_CHUNK_SIZE;
+  const lap =
+    typeof overlap === "number" && Number.isFinite(overlap) && overlap >= 0
+      ? Math.min(Math.floor(overlap), Math.floor(size / 2))
+      : Math.min(DEFAULT_CHUNK_OVERLAP, Math.floor(size / 2));
+  return { chunkSize: size, overlap: lap };
+}
+
+// 1️⃣ 把原文按行扫描成结构块
+function parseBlocks(text: string, structure: ChunkOptions["structure"]) {
+  const blocks: Block[] = [];
+  const lines: { start: number; end: number; text: string }[] = [];
+  let pos = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ start: pos, end: pos + line.length, text: line });
+    pos += line.length + 1;
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.text.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    if (structure === "markdown") {
+      const heading = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (heading) {
+        blocks.push({
+          start: line.start,
+          end: line.end,
+          kind: "heading",
+          level: heading[1].length,
+          title: heading[2].trim(),
+        });
+        i++;
+        continue;
+      }
+
+      const fence = trimmed.match(/^(```|~~~)/);
+      if (fence) {
+        let j = i + 1;
+        while (j < lines.length && !lines[j].text.trim().startsWith(fence[1])) {
+          j++;
+        }
+        const last = lines[Math.min(j, lines.length - 1)];
+        blocks.push({ start: line.start, end: last.end, kind: "code" });
+        i = j + 1;
+        continue;
+      }
+
+      if (trimmed.startsWith("|")) {
+        let j = i;
+        while (
+          j + 1 < lines.length &&
+          lines[j + 1].text.trim().startsWith("|")
+        ) {
+          j++;
+        }
+        blocks.push({ start: line.start, end: lines[j].end, kind: "table" });
+        i = j + 1;
+        continue;
+      }
+
+      if (/^([-*+]|\d+[.)])\s+/.test(trimmed)) {
+        // 列表项：续行（缩进且非新列表项）并入当前项
+        let j = i;
+        while (
+          j + 1 < lines.length &&
+          lines[j + 1].text.trim() &&
+          /^\s+/.test(lines[j + 1].text) &&
+          !/^([-*+]|\d+[.)])\s+/.test(lines[j + 1].text.trim())
+        ) {
+          j++;
+        }
+        blocks.push({ start: line.start, end: lines[j].end, kind: "list" });
+        i = j + 1;
+        continue;
+      }
+    }
+
+    // 普通段落：连续非空行，遇到空行或 Markdown 结构行结束
+    let j = i;
+    while (
+      j + 1 < lines.length &&
+      lines[j + 1].text.trim() &&
+      !(
+        structure === "markdown" &&
+        /^(#{1,6}\s|```|~~~|\||([-*+]|\d+[.)])\s)/.test(
+          lines[j + 1].text.trim()
+        )
+      )
+    ) {
+      j++;
+    }
+    blocks.push({ start: line.start, end: lines[j].end, kind: "paragraph" });
+    i = j + 1;
+  }
+
+  return blocks;
+}
+
+// 2️⃣ 超长块拆成句子（代码 / 表格按行），再不行就按字符硬切
+function splitBlock(text: string, block: Block, chunkSize: number) {
+  const ranges: { start: number; end: number }[] = [];
+  if (block.end - block.start <= chunkSize) {
+    return [{ start: block.start, end: block.end }];
+  }
+
+  const body = text.slice(block.start, block.end);
+  const boundary =
+    block.kind === "code" || block.kind === "table" ? /\n/g : SENTENCE_END;
+
+  let last = 0;
+  for (const m of body.matchAll(boundary)) {
+    const cut = (m.index ?? 0) + m[0].length;
+    if (cut > last) ranges.push({ start: last, end: cut });
+    last = cut;
+  }
+  if (last < body.length) ranges.push({ start: last, end: body.length });
+
+  return ranges.flatMap((r) => {
+    const out: { start: number; end: number }[] = [];
+    for (let s = r.start; s < r.end; s += chunkSize) {
+      out.push({
+        start: block.start + s,
+        end: block.start + Math.min(s + chunkSize, r.end),
+      });
+    }
+    return out;
+  });
+}
+
+// 3️⃣ 按块生成 unit，同时维护当前标题路径
+function toUnits(text: string, options: ChunkOptions) {
+  const units: Unit[] = [];
+  const stack: { level: number; title: string }[] = [];
+
+  for (const block of parseBlocks(text, options.structure)) {
+    if (block.kind === "heading" && block.level && block.title) {
+      while (stack.length && stack[stack.length - 1].level >= block.level) {
+        stack.pop();
+      }
+      stack.push({ level: block.level, title: block.title });
+    }
+    const headingPath = stack.map((h) => h.title);
+
+    splitBlock(text, block, options.chunkSize).forEach((r, idx) => {
+      if (!text.slice(r.start, r.end).trim()) return;
+      units.push({
+        ...r,
+        headingPath,
+        startsSection: block.kind === "heading" && idx === 0,
+      });
+    });
+  }
+
+  return units;
+}
+
+// 4️⃣ 贪心打包 unit：不超过 chunkSize、不跨标题；换片时回退若干整句作为 overlap
+export function chunkText(text: string, options: ChunkOptions): Chunk[] {
+  const units = toUnits(text, options);
+  const chunks: Chunk[] = [];
+
+  let current: Unit[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    chunks.push({
+      content: text.slice(start, end),
+      start,
+      end,
+      headingPath: current[current.length - 1].headingPath,
+    });
+  };
+
+  for (const unit of units) {
+    const last = current[current.length - 1];
+    // 连续标题（如 "# 手册" 紧跟 "## 假期"）合并到同一片，不单独成片
+    const onlyHeadings = current.every((u) => u.startsSection);
+    const sameSection =
+      current.length > 0 &&
+      (onlyHeadings ||
+        (!unit.startsSection &&
+          last.headingPath.join("\u0000") === unit.headingPath.join("\u0000")));
+    const fits =
+      current.length > 0 && unit.end - current[0].start <= options.chunkSize;
+
+    if (current.length === 0 || (sameSection && fits)) {
+      current.push(unit);
+      continue;
+    }
+
+    flush();
+
+    // 只在同一章节内做重叠，避免把上一节的尾巴带进新标题下
+    const carry: Unit[] = [];
+    if (sameSection && !onlyHeadings && options.overlap > 0) {
+      for (let k = current.length - 1; k > 0; k--) {
+        if (unit.end - current[k].start > options.chunkSize) break;
+        if (last.end - current[k].start > options.overlap) break;
+        carry.unshift(current[k]);
+      }
+    }
+    current = [...carry, unit];
+  }
+  flush();
+
+  return chunks;
+}
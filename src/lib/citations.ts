@@ -0,0 +1,189 @@
+// src/lib/citations.ts
+// 🔖 行内引用：提示词里的片段按 sources 事件的顺序编号 [1]、[2]…，模型在句末标注所依据的片段。
+// 服务端在流式输出时校验编号、去掉不存在的引用；前端 MarkdownRenderer 把编号渲染成可点击的徽标。
+// 不依赖服务端模块，前后端共用。
+
+// [1]、[1,2]、[1、3] 都算引用；只匹配纯数字，不会误伤 [ ] 任务列表和 [文字](链接)
+export const CITATION_PATTERN = /\[(\d{1,3}(?:\s*[,，、]\s*\d{1,3})*)\]/g;
+
+// 流式输出时末尾可能是半个引用（"[1" 或 "[1,"），先压住等下一个 delta
+const PARTIAL_CITATION = /\[[\d\s,，、]*$/;
+const MAX_PARTIAL_LENGTH = 16;
+// 末尾的反引号可能还没写完（` → ```），行首这种还可能是围栏的开头或结尾
+const TRAILING_BACKTICKS = /`+$/;
+const PARTIAL_FENCE_LINE = /^ {0,3}(?:`*|~*)$/;
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+// 🧱 代码里的 [n] 是原文（数组下标、正则……），不当引用处理：
+// fence 为所在围栏代码块的开头标记，ticks 为所在行内代码的反引号个数，lineStart 表示下一个字符在行首
+type CodeState = { fence: string | null; ticks: number; lineStart: boolean };
+
+const INITIAL_CODE_STATE: CodeState = {
+  fence: null,
+  ticks: 0,
+  lineStart: true,
+};
+
+// 按行扫描，把文本切成代码 / 正文片段；从 state 接着上一段往下扫，并更新 state
+function splitCode(text: string, state: CodeState) {
+  const parts: { text: string; code: boolean }[] = [];
+  const add = (part: string, code: boolean) => {
+    if (!part) return;
+    const last = parts[parts.length - 1];
+    if (last?.code === code) last.text += part;
+    else parts.push({ text: part, code });
+  };
+
+  for (const line of text.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+    const atLineStart = state.lineStart;
+    state.lineStart = line.endsWith("\n");
+    const fence = atLineStart
+      ? line.replace(/\n$/, "").match(FENCE_LINE)
+      : null;
+
+    if (state.fence) {
+      // 同一种字符、不短于开头、后面没有别的内容才算结束
+      if (
+        fence &&
+        fence[1][0] === state.fence[0] &&
+        fence[1].length >= state.fence.length &&
+        !fence[2].trim()
+      ) {
+        state.fence = null;
+      }
+      add(line, true);
+      continue;
+    }
+    if (
+      fence &&
+      !state.ticks &&
+      !(fence[1][0] === "`" && fence[2].includes("`"))
+    ) {
+      state.fence = fence[1];
+      add(line, true);
+      continue;
+    }
+    // 空行结束段落，没闭合的行内代码不再延续
+    if (atLineStart && !line.trim()) state.ticks = 0;
+
+    let last = 0;
+    for (const run of line.matchAll(/`+/g)) {
+      if (!state.ticks) {
+        add(line.slice(last, run.index), false);
+        last = run.index;
+        state.ticks = run[0].length;
+      } else if (run[0].length === state.ticks) {
+        const end = run.index + run[0].length;
+        add(line.slice(last, end), true);
+        last = end;
+        state.ticks = 0;
+      }
+    }
+    add(line.slice(last), state.ticks > 0);
+  }
+  return parts;
+}
+
+export function citationLabel(n: number) {
+  return `[${n}]`;
+}
+
+export function parseCitationNumbers(inner: string) {
+  return inner
+    .split(/[,，、]/)
+    .map((s) => Number(s.trim()))
+    .filter((n) => Number.isInteger(n));
+}
+
+export type CitationCheck = {
+  text: string;
+  cited: number[]; // 有效引用（去重，按出现顺序）
+  removed: number[]; // 超出来源范围被去掉的编号
+};
+
+// ✂️ 只保留 1..sourceCount 之内的编号；一个都不剩的引用整个去掉。代码里的不动
+export function sanitizeCitations(
+  text: string,
+  sourceCount: number
+): CitationCheck {
+  return sanitizeParts(splitCode(text, { ...INITIAL_CODE_STATE }), sourceCount);
+}
+
+function sanitizeParts(
+  parts: { text: string; code: boolean }[],
+  sourceCount: number
+): CitationCheck {
+  const cited: number[] = [];
+  const removed: number[] = [];
+  const cleaned = parts.map(({ text, code }) =>
+    code
+      ? text
+      : text.replace(CITATION_PATTERN, (_, inner: string) => {
+          const valid: number[] = [];
+          for (const n of parseCitationNumbers(inner)) {
+            if (n >= 1 && n <= sourceCount) {
+              if (!valid.includes(n)) valid.push(n);
+              if (!cited.includes(n)) cited.push(n);
+            } else if (!removed.includes(n)) {
+              removed.push(n);
+            }
+          }
+          return valid.map(citationLabel).join("");
+        })
+  );
+  return { text: cleaned.join(""), cited, removed };
+}
+
+// 🌊 流式版本：push 每个 delta 返回可以立即发给前端的文本，结束时 flush 剩余部分；
+// 代码状态跨 delta 延续，还判断不了的结尾（半个引用、没写完的反引号）先压住。
+// Agent 调用工具新增来源后用 setSourceCount 放宽范围
+export function createCitationFilter(sourceCount: number) {
+  let count = sourceCount;
+  let pending = "";
+  const state: CodeState = { ...INITIAL_CODE_STATE };
+  const cited: number[] = [];
+  const removed: number[] = [];
+
+  const emit = (text: string) => {
+    const result = sanitizeParts(splitCode(text, state), count);
+    result.cited.forEach((n) => !cited.includes(n) && cited.push(n));
+    result.removed.forEach((n) => !removed.includes(n) && removed.push(n));
+    return result.text;
+  };
+
+  return {
+    push(delta: string) {
+      const text = pending + delta;
+      let cut = text.length;
+      const partial = text.match(PARTIAL_CITATION);
+      if (partial && partial[0].length <= MAX_PARTIAL_LENGTH) {
+        cut = partial.index!;
+      }
+      const backticks = text.match(TRAILING_BACKTICKS);
+      if (backticks) cut = Math.min(cut, backticks.index!);
+      const lineBegin = text.lastIndexOf("\n") + 1;
+      if (
+        (lineBegin > 0 || state.lineStart) &&
+        PARTIAL_FENCE_LINE.test(text.slice(lineBegin))
+      ) {
+        cut = Math.min(cut, lineBegin);
+      }
+      pending = text.slice(cut);
+      return emit(text.slice(0, cut));
+    },
+    flush() {
+      const text = pending;
+      pending = "";
+      return emit(text);
+    },
+    setSourceCount(n: number) {
+      count = n;
+    },
+    get cited() {
+      return cited;
+    },
+    get removed() {
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+// src/lib/contextWindow/index.ts
+// 🪟 上下文窗口扩展：一个 chunk 经常把答案切成两半，命中后顺带取同一文档前后 N 个分片，
+// 重叠 / 相邻的窗口合并成一段连续原文，再交给 LLM。
+import type { MatchRow } from "@/lib/retrieval";
+import { getVectorStore, type StoredChunk } from "@/lib/vectorStore";
+
+export * from "./options";
+
+export type NeighborRow = StoredChunk & {
+  seq: number; // 文档内顺序（从 1 开始）
+};
+
+export type Windowed<T> = T & {
+  window_chunk_ids: number[]; // 窗口内全部分片，按文档顺序
+  hit_chunk_ids: number[]; // 被合并进这段窗口的命中分片
+};
+
+// ✂️ 相邻分片之间有 overlap，按原文偏移去掉重复部分再拼接；没有偏移的老数据直接换行拼接
+export function stitchChunks(rows: NeighborRow[]) {
+  let text = "";
+  let end: number | null = null;
+  for (const row of rows) {
+    if (end !== null && row.start_offset !== null) {
+      if (row.start_offset < end) {
+        text += row.content.slice(
+          Math.min(end - row.start_offset, row.content.length)
+        );
+      } else {
+        text += (row.start_offset > end ? "\n" : "") + row.content;
+      }
+    } else {
+      text += (text ? "\n" : "") + row.content;
+    }
+    end =
+      row.end_offset === null
+        ? null
+        : Math.max(end ?? row.end_offset, row.end_offset);
+  }
+  return text;
+}
+
+function minOf(values: (number | null)[]) {
+  const nums = values.filter((v): v is number => v !== null);
+  return nums.length ? Math.min(...nums) : null;
+}
+
+function maxOf(values: (number | null)[]) {
+  const nums = values.filter((v): v is number => v !== null);
+  return nums.length ? Math.max(...nums) : null;
+}
+
+// 🧮 每个命中取 [seq-N, seq+N]，同一文档里重叠或首尾相接的区间合并；
+// 合并后的段落沿用其中排名最靠前的命中（分数 / 来源通道等字段），段落按该命中的名次排序
+export function mergeNeighborWindows<T extends MatchRow>(
+  hits: T[],
+  rows: NeighborRow[],
+  windowSize: number
+): Windowed<T>[] {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const byDocument = new Map<number, NeighborRow[]>();
+  for (const row of rows) {
+    const list = byDocument.get(row.document_id) ?? [];
+    list.push(row);
+    byDocument.set(row.document_id, list);
+  }
+
+  type Interval = { from: number; to: number; hitIdx: number[] };
+  const intervals = new Map<number, Interval[]>();
+  const passthrough: number[] = []; // 查不到顺序的命中（例如刚被删除）原样保留
+
+  hits.forEach((hit, idx) => {
+    const row = byId.get(hit.id);
+    if (!row) {
+      passthrough.push(idx);
+      return;
+    }
+    const list = intervals.get(hit.document_id) ?? [];
+    list.push({
+      from: row.seq - windowSize,
+      to: row.seq + windowSize,
+      hitIdx: [idx],
+    });
+    intervals.set(hit.document_id, list);
+  });
+
+  const passages: { rank: number; passage: Windowed<T> }[] = [];
+
+  for (const [documentId, list] of intervals) {
+    list.sort((a, b) => a.from - b.from);
+    const merged: Interval[] = [];
+    for (const interval of list) {
+      const last = merged[merged.length - 1];
+      if (last && interval.from <= last.to + 1) {
+        last.to = Math.max(last.to, interval.to);
+        last.hitIdx.push(...interval.hitIdx);
+      } else {
+        merged.push({ ...interval, hitIdx: [...interval.hitIdx] });
+      }
+    }
+
+    const docRows = byDocument.get(documentId) ?? [];
+    for (const interval of merged) {
+      const windowRows = docRows.filter(
+        (r) => r.seq >= interval.from && r.seq <= interval.to
+      );
+      const rank = Math.min(...interval.hitIdx);
+      const hit = hits[rank];
+      passages.push({
+        rank,
+        passage: {
+          ...hit,
+          content: stitchChunks(windowRows),
+          start_offset: windowRows[0].start_offset,
+          end_offset: windowRows[windowRows.length - 1].end_offset,
+          page_start: minOf(windowRows.map((r) => r.page_start)),
+          page_end: maxOf(windowRows.map((r) => r.page_end)),
+          window_chunk_ids: windowRows.map((r) => r.id),
+          hit_chunk_ids: interval.hitIdx
+            .sort((a, b) => a - b)
+            .map((i) => hits[i].id),
+        },
+      });
+    }
+  }
+
+  for (const idx of passthrough) {
+    const hit = hits[idx];
+    passages.push({
+      rank: idx,
+      passage: { ...hit, window_chunk_ids: [hit.id], hit_chunk_ids: [hit.id] },
+    });
+  }
+
+  return passages.sort((a, b) => a.rank - b.rank).map((p) => p.passage);
+}
+
+export async function expandNeighbors<T extends MatchRow>(
+  hits: T[],
+  windowSize: number
+): Promise<Windowed<T>[]> {
+  if (!hits.length) return [];
+  const store = await getVectorStore();
+  const rows = await store.neighbors(
+    hits.map((h) => h.id),
+    windowSize
+  );
+  return mergeNeighborWindows(hits, rows, windowSize);
+}
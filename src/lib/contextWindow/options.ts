@@ -0,0 +1,29 @@
+// src/lib/contextWindow/options.ts
+// 🎛️ 相邻分片扩展的窗口大小 + 来源跳转链接（不依赖服务端模块，前端可以直接 import）
+
+export const DEFAULT_NEIGHBOR_WINDOW = 0; // 0 = 不扩展
+export const MAX_NEIGHBOR_WINDOW = 3;
+
+export function normalizeNeighborWindow(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.min(Math.floor(value), MAX_NEIGHBOR_WINDOW)
+    : DEFAULT_NEIGHBOR_WINDOW;
+}
+
+// 🔗 来源 → 文档详情页：扩展过窗口时带上 span=首个分片-末个分片，详情页高亮整段
+export function chunkHref(source: {
+  id: number;
+  document_id: number;
+  window_chunk_ids?: number[] | null;
+}) {
+  const base = `/documents/${source.document_id}?chunk=${source.id}`;
+  const ids = source.window_chunk_ids;
+  return ids && ids.length > 1
+    ? `${base}&span=${ids[0]}-${ids[ids.length - 1]}`
+    : base;
+}
+
+export function parseChunkSpan(span: string | null) {
+  const m = span?.match(/^(\d+)-(\d+)$/);
+  return m ? { firstId: Number(m[1]), lastId: Number(m[2]) } : null;
+}
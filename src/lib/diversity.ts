@@ -0,0 +1,114 @@
+// src/lib/diversity.ts
+// 🌈 多样性筛选：MMR（最大边际相关）+ 单文档条数上限，避免 TopK 被同一段落的重叠切片 / 重复上传占满。
+// 片段之间的“相似度”用字符二元组的 Jaccard 计算：关键词侧命中的片段没有向量，
+// 而重叠切片、重复上传恰好是字面高度重合，用文本相似度判断更直接。
+
+export type DiversityOptions = {
+  lambda: number; // 1 = 只看相关度（关闭 MMR），越小越强调多样性
+  maxPerDocument: number; // 0 = 不限制
+};
+
+export const DEFAULT_MMR_LAMBDA = 1;
+export const DEFAULT_MAX_PER_DOCUMENT = 0;
+export const DIVERSITY_OVERFETCH = 3; // 开启多样性筛选时先召回 topK × 3 条候选
+export const DIVERSITY_MAX_CANDIDATES = 30;
+
+export function normalizeMmrLambda(value: unknown) {
+  return typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    value <= 1
+    ? value
+    : DEFAULT_MMR_LAMBDA;
+}
+
+export function normalizeMaxPerDocument(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.min(Math.floor(value), 20)
+    : DEFAULT_MAX_PER_DOCUMENT;
+}
+
+export function isDiversityEnabled(options: DiversityOptions) {
+  return options.lambda < 1 || options.maxPerDocument > 0;
+}
+
+function shingles(text: string) {
+  const normalized = text.replace(/\s+/g, "").toLowerCase();
+  const set = new Set<string>();
+  for (let i = 0; i + 2 <= normalized.length; i++) {
+    set.add(normalized.slice(i, i + 2));
+  }
+  return set;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let inter = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const s of small) if (large.has(s)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+type Candidate = {
+  id: number;
+  document_id: number;
+  content: string;
+  score: number; // 检索融合分
+  rerank_score?: number; // 有重排分时优先用它衡量相关度
+};
+
+export type DiversityResult<T> = {
+  selected: T[];
+  cappedCount: number; // 因单文档上限被跳过的候选数
+};
+
+// 🧮 贪心 MMR：每轮选 λ·相关度 − (1−λ)·与已选片段的最大相似度 最高的候选
+export function selectDiverse<T extends Candidate>(
+  candidates: T[],
+  topK: number,
+  options: DiversityOptions
+): DiversityResult<T> {
+  const relevance = candidates.map((c) => c.rerank_score ?? c.score);
+  const maxRelevance = Math.max(...relevance, Number.EPSILON);
+  const pool = candidates.map((c, i) => ({
+    chunk: c,
+    relevance: relevance[i] / maxRelevance, // 归一化到 0~1，与 Jaccard 同量纲
+    grams: shingles(c.content),
+    maxSim: 0,
+  }));
+
+  const selected: T[] = [];
+  const perDocument = new Map<number, number>();
+  let cappedCount = 0;
+
+  while (selected.length < topK && pool.length) {
+    let bestIdx = -1;
+    let bestScore = -Infinity;
+    for (let i = 0; i < pool.length; i++) {
+      const p = pool[i];
+      const mmr =
+        options.lambda * p.relevance - (1 - options.lambda) * p.maxSim;
+      if (mmr > bestScore) {
+        bestScore = mmr;
+        bestIdx = i;
+      }
+    }
+
+    const [best] = pool.splice(bestIdx, 1);
+    const docCount = perDocument.get(best.chunk.document_id) ?? 0;
+    if (options.maxPerDocument > 0 && docCount >= options.maxPerDocument) {
+      cappedCount++;
+      continue;
+    }
+
+    selected.push(best.chunk);
+    perDocument.set(best.chunk.document_id, docCount + 1);
+    if (options.lambda < 1) {
+      for (const p of pool) {
+        p.maxSim = Math.max(p.maxSim, jaccard(p.grams, best.grams));
+      }
+    }
+  }
+
+  return { selected, cappedCount };
+}
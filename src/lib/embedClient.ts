@@ -1,10 +1,139 @@
 // src/lib/embedClient.ts
+// 🔢 向量模型配置与对话模型分开：EMBEDDING_PROVIDER / EMBEDDING_MODEL / EMBEDDING_DIMENSIONS，
+// 平台地址和 key 可以单独配置（EMBEDDING_BASE_URL / EMBEDDING_API_KEY），不配时沿用 AI_BASE_URL / AI_API_KEY。
+// 实际检索用哪个模型以索引里记录的为准（见 embeddingIndex.ts），这里只负责“按给定配置算向量”。
 import { OpenAIEmbeddings } from "@langchain/openai";
 
-export const embeddings = new OpenAIEmbeddings({
-  model: "netease-youdao/bce-embedding-base_v1",
-  apiKey: process.env.AI_API_KEY!,
-  configuration: {
-    baseURL: process.env.AI_BASE_URL,
-  },
-});
+export const EMBEDDING_PROVIDERS = ["siliconflow", "openai", "zhipu"] as const;
+export type EmbeddingProvider = (typeof EMBEDDING_PROVIDERS)[number];
+
+export type EmbeddingModelConfig = {
+  provider: EmbeddingProvider;
+  model: string;
+  dimensions: number;
+};
+
+// 🌐 各平台的 OpenAI 兼容地址
+const PROVIDER_BASE_URLS: Record<EmbeddingProvider, string> = {
+  siliconflow: "https://api.siliconflow.cn/v1",
+  openai: "https://api.openai.com/v1",
+  zhipu: "https://open.bigmodel.cn/api/paas/v4",
+};
+
+// 只有 OpenAI text-embedding-3 系列支持在请求里指定输出维度
+const SUPPORTS_DIMENSIONS_PARAM = /^text-embedding-3/;
+
+export const LEGACY_EMBEDDING_MODEL = "netease-youdao/bce-embedding-base_v1";
+const LEGACY_DIMENSIONS = 768;
+
+export function isEmbeddingProvider(
+  value: unknown
+): value is EmbeddingProvider {
+  return EMBEDDING_PROVIDERS.includes(value as EmbeddingProvider);
+}
+
+export function normalizeEmbeddingConfig(
+  value: unknown
+): EmbeddingModelConfig | null {
+  const v = (value ?? {}) as Partial<
+    Record<keyof EmbeddingModelConfig, unknown>
+  >;
+  const dimensions = Number(v.dimensions);
+  if (
+    !isEmbeddingProvider(v.provider) ||
+    typeof v.model !== "string" ||
+    !v.model.trim() ||
+    !Number.isInteger(dimensions) ||
+    dimensions <= 0
+  ) {
+    return null;
+  }
+  return { provider: v.provider, model: v.model.trim(), dimensions };
+}
+
+export const CONFIGURED_EMBEDDING: EmbeddingModelConfig =
+  normalizeEmbeddingConfig({
+    provider: process.env.EMBEDDING_PROVIDER || "siliconflow",
+    model: process.env.EMBEDDING_MODEL || LEGACY_EMBEDDING_MODEL,
+    dimensions: process.env.EMBEDDING_DIMENSIONS || LEGACY_DIMENSIONS,
+  }) ?? {
+    provider: "siliconflow",
+    model: LEGACY_EMBEDDING_MODEL,
+    dimensions: LEGACY_DIMENSIONS,
+  };
+
+export function sameEmbeddingModel(
+  a: EmbeddingModelConfig,
+  b: EmbeddingModelConfig
+) {
+  return (
+    a.provider === b.provider &&
+    a.model === b.model &&
+    a.dimensions === b.dimensions
+  );
+}
+
+export function describeEmbeddingModel(config: EmbeddingModelConfig) {
+  return `${config.provider}/${config.model}（${config.dimensions} 维）`;
+}
+
+// 🏷️ 写在每个分片上、也作为向量缓存的命名空间：同名模型换维度也算不同模型
+export function embeddingModelId(config: EmbeddingModelConfig) {
+  return `${config.model}@${config.dimensions}`;
+}
+
+export class EmbeddingDimensionError extends Error {
+  constructor(config: EmbeddingModelConfig, actual: number) {
+    super(
+      `Embedding model ${config.model} returned ${actual} dimensions, expected ${config.dimensions}`
+    );
+    this.name = "EmbeddingDimensionError";
+  }
+}
+
+// 🔑 迁移期间新旧模型可能在不同平台：EMBEDDING_API_KEY_<PROVIDER> 优先，其次 EMBEDDING_API_KEY，最后 AI_API_KEY
+function credentialsFor(provider: EmbeddingProvider) {
+  const isConfigured = provider === CONFIGURED_EMBEDDING.provider;
+  const baseURL =
+    (isConfigured ? process.env.EMBEDDING_BASE_URL : undefined) ||
+    (isConfigured && !process.env.EMBEDDING_PROVIDER
+      ? process.env.AI_BASE_URL
+      : undefined) ||
+    PROVIDER_BASE_URLS[provider];
+  const apiKey =
+    process.env[`EMBEDDING_API_KEY_${provider.toUpperCase()}`] ||
+    process.env.EMBEDDING_API_KEY ||
+    process.env.AI_API_KEY!;
+  return { baseURL, apiKey };
+}
+
+const clients = new Map<string, OpenAIEmbeddings>();
+
+function clientFor(config: EmbeddingModelConfig) {
+  const key = `${config.provider}:${embeddingModelId(config)}`;
+  let client = clients.get(key);
+  if (!client) {
+    const { baseURL, apiKey } = credentialsFor(config.provider);
+    client = new OpenAIEmbeddings({
+      model: config.model,
+      apiKey,
+      ...(SUPPORTS_DIMENSIONS_PARAM.test(config.model)
+        ? { dimensions: config.dimensions }
+        : {}),
+      configuration: { baseURL },
+    });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+// ✅ 返回的维度必须和配置一致：配错维度时在入库前就失败，而不是写进去之后检索全部报错
+export async function embedWithModel(
+  config: EmbeddingModelConfig,
+  texts: string[]
+): Promise<number[][]> {
+  const vectors = await clientFor(config).embedDocuments(texts);
+  const wrong = vectors.find((v) => v.length !== config.dimensions);
+  if (wrong) throw new EmbeddingDimensionError(config, wrong.length);
+  return vectors;
+}
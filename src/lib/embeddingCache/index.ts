@@ -0,0 +1,121 @@
+// src/lib/embeddingCache/index.ts
+// ⚡ 向量缓存：挡在 embedClient 前面，按 模型名@维度 + 文本 sha256 查缓存，只把没命中的文本发给 embedding 接口。
+// 两级：进程内 LRU → 持久化表（EMBEDDING_CACHE=supabase，默认）；EMBEDDING_CACHE=memory 只用 LRU，off 关闭。
+// 持久化层出错只打日志按未命中处理，缓存永远不能影响正常向量化。
+import { createHash } from "crypto";
+import {
+  embedWithModel,
+  embeddingModelId,
+  type EmbeddingModelConfig,
+} from "@/lib/embedClient";
+import { createMemoryCache } from "./memory";
+import type { EmbeddingCacheBackend, EmbeddingCacheStats } from "./types";
+
+export * from "./types";
+
+const DEFAULT_MEMORY_ENTRIES = 5000;
+
+function cacheMode() {
+  const mode =
+    process.env.EMBEDDING_CACHE ||
+    (process.env.VECTOR_STORE === "local" ? "memory" : "supabase");
+  return mode === "off" || mode === "memory" ? mode : "supabase";
+}
+
+const memorySize = Number(process.env.EMBEDDING_CACHE_SIZE);
+const memory = createMemoryCache(
+  Number.isFinite(memorySize) && memorySize > 0
+    ? Math.floor(memorySize)
+    : DEFAULT_MEMORY_ENTRIES
+);
+
+let persistent: Promise<EmbeddingCacheBackend> | null = null;
+
+function getPersistentCache() {
+  if (!persistent) {
+    persistent = import("./supabase").then((m) => m.supabaseEmbeddingCache);
+  }
+  return persistent;
+}
+
+export function textHash(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export async function embedTexts(
+  texts: string[],
+  config: EmbeddingModelConfig
+): Promise<{ vectors: number[][]; stats: EmbeddingCacheStats }> {
+  const mode = cacheMode();
+  const model = embeddingModelId(config);
+  const hashes = texts.map(textHash);
+  // 同一批里重复的文本只向量化一次
+  const uniqueTexts = new Map<string, string>();
+  hashes.forEach((h, i) => uniqueTexts.set(h, texts[i]));
+
+  const found = new Map<string, number[]>();
+  let memoryHits = 0;
+  let persistentHits = 0;
+
+  if (mode !== "off") {
+    const fromMemory = await memory.getMany(model, [...uniqueTexts.keys()]);
+    fromMemory.forEach((v, h) => found.set(h, v));
+    memoryHits = fromMemory.size;
+  }
+
+  if (mode === "supabase") {
+    const pending = [...uniqueTexts.keys()].filter((h) => !found.has(h));
+    if (pending.length) {
+      try {
+        const store = await getPersistentCache();
+        const fromStore = await store.getMany(model, pending);
+        fromStore.forEach((v, h) => found.set(h, v));
+        persistentHits = fromStore.size;
+        await memory.setMany(
+          model,
+          [...fromStore].map(([hash, embedding]) => ({ hash, embedding }))
+        );
+      } catch (e) {
+        console.error("❌ Embedding cache read error:", e);
+      }
+    }
+  }
+
+  const missing = [...uniqueTexts].filter(([h]) => !found.has(h));
+  if (missing.length) {
+    const computed = await embedWithModel(
+      config,
+      missing.map(([, text]) => text)
+    );
+    const entries = missing.map(([hash], i) => ({
+      hash,
+      embedding: computed[i],
+    }));
+    entries.forEach((e) => found.set(e.hash, e.embedding));
+
+    if (mode !== "off") await memory.setMany(model, entries);
+    if (mode === "supabase") {
+      try {
+        const store = await getPersistentCache();
+        await store.setMany(model, entries);
+      } catch (e) {
+        console.error("❌ Embedding cache write error:", e);
+      }
+    }
+  }
+
+  return {
+    vectors: hashes.map((h) => found.get(h)!),
+    stats: {
+      total: uniqueTexts.size,
+      memoryHits,
+      persistentHits,
+      misses: missing.length,
+    },
+  };
+}
+
+export function describeCacheStats(stats: EmbeddingCacheStats) {
+  const hits = stats.memoryHits + stats.persistentHits;
+  return `向量缓存命中 ${hits}/${stats.total}（内存 ${stats.memoryHits} · 持久化 ${stats.persistentHits}），未命中 ${stats.misses}`;
+}
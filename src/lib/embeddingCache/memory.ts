@@ -0,0 +1,38 @@
+// src/lib/embeddingCache/memory.ts
+// 🧠 进程内 LRU：Map 保持插入顺序，命中时删掉重插就是“最近使用”，超出容量从头部淘汰。
+import type { EmbeddingCacheBackend } from "./types";
+
+export function createMemoryCache(maxEntries: number): EmbeddingCacheBackend {
+  const entries = new Map<string, number[]>();
+  const keyOf = (model: string, hash: string) => `${model}\u0000${hash}`;
+
+  return {
+    name: "memory",
+
+    async getMany(model, hashes) {
+      const found = new Map<string, number[]>();
+      for (const hash of hashes) {
+        const key = keyOf(model, hash);
+        const embedding = entries.get(key);
+        if (embedding) {
+          entries.delete(key);
+          entries.set(key, embedding);
+          found.set(hash, embedding);
+        }
+      }
+      return found;
+    },
+
+    async setMany(model, items) {
+      for (const { hash, embedding } of items) {
+        const key = keyOf(model, hash);
+        entries.delete(key);
+        entries.set(key, embedding);
+      }
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
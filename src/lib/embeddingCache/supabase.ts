@@ -0,0 +1,39 @@
+// src/lib/embeddingCache/supabase.ts
+// 🐘 持久化缓存：embedding_cache 表，重启 / 多实例之间共享，重建索引时未改动的分片不再重新向量化。
+import { supabase } from "@/lib/supabaseClient";
+import type { EmbeddingCacheBackend } from "./types";
+
+export const supabaseEmbeddingCache: EmbeddingCacheBackend = {
+  name: "supabase",
+
+  async getMany(model, hashes) {
+    const found = new Map<string, number[]>();
+    if (!hashes.length) return found;
+    const { data, error } = await supabase
+      .from("embedding_cache")
+      .select("content_hash, embedding")
+      .eq("model", model)
+      .in("content_hash", hashes);
+    if (error) throw error;
+    for (const row of (data ?? []) as {
+      content_hash: string;
+      embedding: number[];
+    }[]) {
+      found.set(row.content_hash, row.embedding);
+    }
+    return found;
+  },
+
+  async setMany(model, entries) {
+    if (!entries.length) return;
+    const { error } = await supabase.from("embedding_cache").upsert(
+      entries.map((e) => ({
+        model,
+        content_hash: e.hash,
+        embedding: e.embedding,
+      })),
+      { onConflict: "model,content_hash", ignoreDuplicates: true }
+    );
+    if (error) throw error;
+  },
+};
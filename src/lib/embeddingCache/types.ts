@@ -0,0 +1,18 @@
+// src/lib/embeddingCache/types.ts
+
+// 🗃️ 向量缓存后端：key = 模型名 + 文本 sha256，换模型后旧缓存自然失效
+export interface EmbeddingCacheBackend {
+  readonly name: string;
+  getMany(model: string, hashes: string[]): Promise<Map<string, number[]>>;
+  setMany(
+    model: string,
+    entries: { hash: string; embedding: number[] }[]
+  ): Promise<void>;
+}
+
+export type EmbeddingCacheStats = {
+  total: number; // 本次请求去重后的文本条数
+  memoryHits: number;
+  persistentHits: number;
+  misses: number; // 实际调用 embedding 接口的条数（同批内重复文本只算一次）
+};
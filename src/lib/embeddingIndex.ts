@@ -0,0 +1,48 @@
+// src/lib/embeddingIndex.ts
+// 🔁 索引当前使用的向量模型：以向量库里记录的 active 为准，而不是环境变量。
+// 改了 EMBEDDING_MODEL 但还没迁移时，检索和入库继续用旧模型，直到迁移任务切换过去。
+import {
+  CONFIGURED_EMBEDDING,
+  sameEmbeddingModel,
+  type EmbeddingModelConfig,
+} from "@/lib/embedClient";
+import { getVectorStore, type EmbeddingIndexState } from "@/lib/vectorStore";
+
+// 每次检索都要用，短暂缓存一下；迁移切换时主动失效
+const STATE_TTL_MS = 10_000;
+
+let cached: { state: EmbeddingIndexState; at: number } | null = null;
+
+export async function getEmbeddingIndexState(): Promise<EmbeddingIndexState> {
+  if (cached && Date.now() - cached.at < STATE_TTL_MS) return cached.state;
+  const store = await getVectorStore();
+  // 从没记录过（空库 / 老的本地文件）时，按当前配置的模型建索引
+  const state = (await store.getIndexState()) ?? {
+    active: CONFIGURED_EMBEDDING,
+    pending: null,
+  };
+  cached = { state, at: Date.now() };
+  return state;
+}
+
+export function invalidateEmbeddingIndexState() {
+  cached = null;
+}
+
+export type EmbeddingModelStatus = EmbeddingIndexState & {
+  configured: EmbeddingModelConfig;
+  needsMigration: boolean; // 配置的模型和索引里的不一致，且没有在迁移
+};
+
+export async function getEmbeddingModelStatus(): Promise<EmbeddingModelStatus> {
+  const state = await getEmbeddingIndexState();
+  return {
+    ...state,
+    configured: CONFIGURED_EMBEDDING,
+    needsMigration:
+      !sameEmbeddingModel(state.active, CONFIGURED_EMBEDDING) &&
+      !(
+        state.pending && sameEmbeddingModel(state.pending, CONFIGURED_EMBEDDING)
+      ),
+  };
+}
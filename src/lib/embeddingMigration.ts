@@ -0,0 +1,155 @@
+// src/lib/embeddingMigration.ts
+// 🔁 向量模型迁移：把整个语料用新模型重新向量化，写进 embedding_next；旧模型的向量在此期间照常服务检索，
+// 全部写完后一次性切换 active。任务进度复用 ingest_jobs，前端用同一个 /api/jobs/[id] 轮询。
+// 中途失败不影响检索，重新发起同一目标模型的迁移会跳过已经算好的分片。
+import {
+  describeEmbeddingModel,
+  embeddingModelId,
+  sameEmbeddingModel,
+  type EmbeddingModelConfig,
+} from "@/lib/embedClient";
+import { embedTexts } from "@/lib/embeddingCache";
+import {
+  getEmbeddingIndexState,
+  invalidateEmbeddingIndexState,
+} from "@/lib/embeddingIndex";
+import { chunkEmbeddingInput } from "@/lib/ingest";
+import { TERMINAL_JOB_STATUSES } from "@/lib/jobProgress";
+import { createJob, getJob, updateJob } from "@/lib/jobs";
+import { withRetry } from "@/lib/retry";
+import { getVectorStore } from "@/lib/vectorStore";
+import { errorMessage } from "@/lib/errors";
+import type { IngestJob } from "@/types/job";
+
+export const MIGRATION_BATCH_SIZE = 32;
+// 每批写完都会更新任务；这么久没动静的任务视为进程已经退出，允许重新发起
+const STALE_MIGRATION_MS = 15 * 60_000;
+
+export class EmbeddingMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingMigrationError";
+  }
+}
+
+// 登记迁移目标并建任务；同一时间只允许一个迁移任务在跑
+export async function startEmbeddingMigration(
+  target: EmbeddingModelConfig
+): Promise<IngestJob> {
+  invalidateEmbeddingIndexState();
+  const state = await getEmbeddingIndexState();
+  if (sameEmbeddingModel(state.active, target)) {
+    throw new EmbeddingMigrationError(
+      `Index already uses ${embeddingModelId(target)}`
+    );
+  }
+  if (state.pending && !sameEmbeddingModel(state.pending, target)) {
+    throw new EmbeddingMigrationError(
+      `Migration to ${embeddingModelId(state.pending)} is already pending`
+    );
+  }
+  const expectedJobId = state.job_id ?? null;
+  if (expectedJobId && (await isMigrationRunning(expectedJobId))) {
+    throw new EmbeddingMigrationError(
+      `Migration to ${embeddingModelId(target)} is already running (job ${expectedJobId})`
+    );
+  }
+
+  // 🔒 先建任务再登记：登记成功时任务一定已经存在，别的请求能查到它还没结束
+  const job = await createJob(
+    `向量模型迁移：${describeEmbeddingModel(state.active)} → ${describeEmbeddingModel(target)}`
+  );
+  const store = await getVectorStore();
+  const claimed = await store.claimMigration(
+    { active: state.active, pending: target, job_id: job.id },
+    expectedJobId
+  );
+  invalidateEmbeddingIndexState();
+  if (!claimed) {
+    await updateJob(job.id, {
+      status: "failed",
+      error: "Another migration request started first",
+    });
+    throw new EmbeddingMigrationError(
+      `Migration to ${embeddingModelId(target)} was just started by another request`
+    );
+  }
+  return job;
+}
+
+async function isMigrationRunning(jobId: string) {
+  const job = await getJob(jobId);
+  return (
+    !!job &&
+    !TERMINAL_JOB_STATUSES.includes(job.status) &&
+    Date.now() - Date.parse(job.updated_at) < STALE_MIGRATION_MS
+  );
+}
+
+export async function runEmbeddingMigrationJob(
+  jobId: string,
+  target: EmbeddingModelConfig
+) {
+  const model = embeddingModelId(target);
+  try {
+    const store = await getVectorStore();
+    const total = await store.countUnmigrated(model);
+    await updateJob(jobId, {
+      status: "embedding",
+      progress_done: 0,
+      progress_total: total,
+    });
+
+    let done = 0;
+    for (;;) {
+      const batch = await store.listUnmigrated(model, MIGRATION_BATCH_SIZE);
+      if (!batch.length) break;
+
+      const vectors = await withRetry(
+        async () =>
+          (
+            await embedTexts(
+              batch.map((c) => chunkEmbeddingInput(c.heading_path, c.content)),
+              target
+            )
+          ).vectors,
+        {
+          onRetry: (err, attempt, delay) =>
+            console.warn(
+              `⏳ Migration embedding retry #${attempt} in ${Math.round(delay)}ms:`,
+              errorMessage(err)
+            ),
+        }
+      );
+      await withRetry(() =>
+        store.setNextEmbeddings(
+          model,
+          batch.map((c, i) => ({ id: c.id, embedding: vectors[i] }))
+        )
+      );
+
+      done += batch.length;
+      // 迁移期间还有新文档入库，总数可能比开始时多
+      await updateJob(jobId, {
+        progress_done: done,
+        progress_total: Math.max(total, done),
+      });
+    }
+
+    // ✅ 全部就绪，一次性切换；期间用旧模型入库、没赶上写新向量的分片会留在旧模型上
+    const { remaining } = await store.promoteEmbeddings(target);
+    invalidateEmbeddingIndexState();
+
+    await updateJob(jobId, {
+      status: "done",
+      index_status: remaining ? "partial" : "indexed",
+      error: remaining
+        ? `${remaining} chunks still use the previous model, reindex their documents`
+        : null,
+    });
+  } catch (e) {
+    // 旧模型仍是 active，检索不受影响；pending 保留，重新发起时从断点继续
+    console.error("❌ Embedding migration failed:", e);
+    await updateJob(jobId, { status: "failed", error: errorMessage(e) });
+  }
+}
@@ -0,0 +1,5 @@
+// src/lib/errors.ts
+// ⚠️ PostgrestError、SDK 抛出的错误不一定是 Error 实例，但都带 message
+export function errorMessage(e: unknown) {
+  return (e as { message?: string } | null)?.message ?? String(e);
+}
@@ -0,0 +1,85 @@
+// src/lib/expansion/index.ts
+// 🧬 查询扩展：短问题 / 措辞含糊的问题常常低于相似度阈值，
+// 1) multi-query：让 LLM 换几种说法各检索一次；
+// 2) HyDE：让 LLM 先写一段“假设的答案”，用答案去检索答案（文档对文档，相似度更高）。
+import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import type { ExpandedQuery, ExpansionMode } from "./options";
+
+export * from "./options";
+
+const PARAPHRASE_COUNT = 3;
+const MAX_HYDE_CHARS = 600;
+
+const PARAPHRASE_PROMPT = `你负责为企业文档检索生成查询改写。
+针对用户的问题，给出 ${PARAPHRASE_COUNT} 个语义相同但措辞不同的检索查询：可以换同义词、补全简称、换成文档里更可能出现的正式说法。
+保留专有名词、编号、数字原文。只输出 JSON：{"queries": ["...", "..."]}`;
+
+const HYDE_PROMPT = `请假设你手里有一份企业内部制度文档，写一段可能直接回答下面问题的文档原文（100~200 字），
+使用正式、书面的制度文风。不确定的细节可以合理假设，不要说明这是假设，不要输出标题。`;
+
+export async function generateParaphrases(query: string): Promise<string[]> {
+  const completion = await aiClient.chat.completions.create({
+    model: AI_MODEL,
+    temperature: 0.7,
+    messages: [
+      { role: "system", content: PARAPHRASE_PROMPT },
+      { role: "user", content: query },
+    ],
+  });
+
+  const raw = completion.choices?.[0]?.message?.content ?? "";
+  const json = raw.match(/\{[\s\S]*\}/)?.[0];
+  let queries: unknown;
+  try {
+    queries = json ? JSON.parse(json).queries : undefined;
+  } catch {
+    queries = undefined;
+  }
+  if (!Array.isArray(queries)) return [];
+
+  // 去掉与原问题 / 彼此重复的改写
+  const seen = new Set([query.trim()]);
+  const out: string[] = [];
+  for (const q of queries) {
+    if (typeof q !== "string") continue;
+    const text = q.trim();
+    if (!text || seen.has(text)) continue;
+    seen.add(text);
+    out.push(text);
+  }
+  return out.slice(0, PARAPHRASE_COUNT);
+}
+
+export async function generateHypotheticalAnswer(query: string) {
+  const completion = await aiClient.chat.completions.create({
+    model: AI_MODEL,
+    temperature: 0.3,
+    messages: [
+      { role: "system", content: HYDE_PROMPT },
+      { role: "user", content: query },
+    ],
+  });
+  const text = completion.choices?.[0]?.message?.content?.trim() ?? "";
+  return text.slice(0, MAX_HYDE_CHARS);
+}
+
+// 🚀 按模式生成查询列表，原问题始终排第一；两种扩展并行生成
+export async function expandQuery(
+  query: string,
+  mode: ExpansionMode
+): Promise<ExpandedQuery[]> {
+  const [paraphrases, hyde] = await Promise.all([
+    mode === "multi-query" || mode === "both"
+      ? generateParaphrases(query)
+      : Promise.resolve([]),
+    mode === "hyde" || mode === "both"
+      ? generateHypotheticalAnswer(query)
+      : Promise.resolve(""),
+  ]);
+
+  return [
+    { kind: "original", text: query },
+    ...paraphrases.map((text) => ({ kind: "paraphrase" as const, text })),
+    ...(hyde ? [{ kind: "hyde" as const, text: hyde }] : []),
+  ];
+}
@@ -0,0 +1,29 @@
+// src/lib/expansion/options.ts
+// 🎛️ 查询扩展模式（不依赖服务端模块，配置面板可以直接 import）
+
+export type ExpansionMode = "none" | "multi-query" | "hyde" | "both";
+
+export const EXPANSION_OPTIONS: { value: ExpansionMode; label: string }[] = [
+  { value: "none", label: "关闭" },
+  { value: "multi-query", label: "多查询改写" },
+  { value: "hyde", label: "HyDE 假设答案" },
+  { value: "both", label: "多查询 + HyDE" },
+];
+
+export function normalizeExpansionMode(value: unknown): ExpansionMode {
+  return EXPANSION_OPTIONS.some((o) => o.value === value)
+    ? (value as ExpansionMode)
+    : "none";
+}
+
+// 🔎 实际参与检索的一条查询
+export type ExpandedQuery = {
+  kind: "original" | "paraphrase" | "hyde";
+  text: string;
+};
+
+export const EXPANDED_QUERY_LABELS: Record<ExpandedQuery["kind"], string> = {
+  original: "原问题",
+  paraphrase: "改写",
+  hyde: "HyDE",
+};
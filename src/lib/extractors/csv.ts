@@ -0,0 +1,80 @@
+// src/lib/extractors/csv.ts
+import type { Extractor } from "./types";
+
+// 🔍 按首行出现次数猜分隔符（Excel 中文版导出常见分号 / 制表符）
+function detectDelimiter(firstLine: string) {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+}
+
+// RFC 4180：支持双引号包裹、"" 转义、字段内换行
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, "");
+  const firstLineEnd = text.indexOf("\n");
+  const delimiter = detectDelimiter(
+    firstLineEnd === -1 ? text : text.slice(0, firstLineEnd)
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+// 📊 CSV：每一行转成一条 "列名: 值; 列名: 值" 记录，一行一段，切片时不会把一行拆开
+export const csvExtractor: Extractor = {
+  format: "csv",
+  async extract(buffer) {
+    const [header = [], ...records] = parseCsv(buffer.toString("utf-8"));
+    const columns = header.map((h, i) => h.trim() || `列${i + 1}`);
+
+    const lines = records.map((record) =>
+      record
+        .map((value, i) => [columns[i] ?? `列${i + 1}`, value.trim()] as const)
+        .filter(([, value]) => value)
+        .map(([col, value]) => `${col}: ${value}`)
+        .join("; ")
+    );
+
+    return {
+      format: "csv",
+      structure: "plain",
+      text: lines.filter(Boolean).join("\n\n"),
+    };
+  },
+};
@@ -0,0 +1,74 @@
+// src/lib/extractors/docx.ts
+import { readZipEntries } from "@/lib/zip";
+import { collapseWhitespace, decodeEntities } from "./markup";
+import type { Extractor } from "./types";
+
+// 🏷️ 标题样式：英文版 Word 为 Heading1，中文版常见 "1" / "标题 1"
+const HEADING_STYLE = /^(?:heading|标题)?\s*([1-6])$/i;
+
+// 一个 <w:p> 段落 → 一行文本（标题转成 #，列表项转成 -）
+function paragraphToText(xml: string) {
+  const parts: string[] = [];
+  for (const m of xml.matchAll(
+    /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\/>/g
+  )) {
+    if (m[1] !== undefined) parts.push(m[1]);
+    else parts.push(m[0].startsWith("<w:tab") ? "\t" : "\n");
+  }
+  const text = decodeEntities(parts.join("")).trim();
+  if (!text) return "";
+
+  const style = xml.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+  const outline = xml.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+  const level =
+    style?.match(HEADING_STYLE)?.[1] ??
+    (outline && Number(outline) < 6 ? String(Number(outline) + 1) : undefined);
+  if (level) return `${"#".repeat(Number(level))} ${text}`;
+
+  if (/<w:numPr>/.test(xml)) return `- ${text}`;
+  return text;
+}
+
+function tableToText(xml: string) {
+  const rows = xml.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) ?? [];
+  return rows
+    .map((row) => {
+      const cells = row.match(/<w:tc>[\s\S]*?<\/w:tc>/g) ?? [];
+      return cells
+        .map((cell) =>
+          (cell.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? [])
+            .map(paragraphToText)
+            .filter(Boolean)
+            .join(" ")
+        )
+        .join(" | ");
+    })
+    .filter((line) => line.replace(/[\s|]/g, ""))
+    .join("\n");
+}
+
+// 📝 .docx 本质是 zip，正文在 word/document.xml 里
+export const docxExtractor: Extractor = {
+  format: "docx",
+  async extract(buffer, fileName) {
+    const entry = readZipEntries(buffer).find(
+      (e) => e.name === "word/document.xml"
+    );
+    if (!entry) throw new Error(`Invalid .docx file: ${fileName}`);
+
+    const xml = entry.read().toString("utf-8");
+    const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+
+    const blocks = (
+      body.match(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g) ?? []
+    ).map((block) =>
+      block.startsWith("<w:tbl>") ? tableToText(block) : paragraphToText(block)
+    );
+
+    return {
+      format: "docx",
+      structure: "markdown",
+      text: collapseWhitespace(blocks.filter(Boolean).join("\n\n")),
+    };
+  },
+};
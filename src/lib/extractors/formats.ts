@@ -0,0 +1,94 @@
+// src/lib/extractors/formats.ts
+// 🗂️ 支持的上传格式清单：前后端共享（UploadBox 的 accept / 文案 与 /api/upload 的校验同源）
+// ⚠️ 本文件会被客户端组件引用，不能 import 任何 Node-only 依赖
+
+export type FileFormat =
+  "pdf" | "markdown" | "text" | "docx" | "html" | "csv" | "json";
+
+export type FileFormatSpec = {
+  label: string; // 展示文案
+  extensions: string[]; // 小写、带点
+  mimeTypes: string[];
+  structure: "markdown" | "plain"; // 从 documents.content 重新切片时使用
+};
+
+export const FILE_FORMATS: Record<FileFormat, FileFormatSpec> = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+    structure: "plain",
+  },
+  markdown: {
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    structure: "markdown",
+  },
+  text: {
+    label: "TXT",
+    extensions: [".txt"],
+    mimeTypes: ["text/plain"],
+    structure: "plain",
+  },
+  docx: {
+    label: "Word",
+    extensions: [".docx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+    structure: "markdown",
+  },
+  html: {
+    label: "HTML",
+    extensions: [".html", ".htm"],
+    mimeTypes: ["text/html"],
+    structure: "markdown",
+  },
+  csv: {
+    label: "CSV",
+    extensions: [".csv"],
+    mimeTypes: ["text/csv"],
+    structure: "plain",
+  },
+  json: {
+    label: "JSON",
+    extensions: [".json"],
+    mimeTypes: ["application/json"],
+    structure: "plain",
+  },
+};
+
+export const ACCEPTED_EXTENSIONS = Object.values(FILE_FORMATS).flatMap(
+  (f) => f.extensions
+);
+
+// 📎 <input type="file" accept="..."> 直接使用
+export const UPLOAD_ACCEPT = ACCEPTED_EXTENSIONS.join(",");
+
+// 📝 "PDF / Markdown / TXT / ..." 展示文案
+export const UPLOAD_FORMAT_LABEL = Object.values(FILE_FORMATS)
+  .map((f) => f.label)
+  .join(" / ");
+
+// 🔍 先按扩展名判断，扩展名缺失或不认识时再按 MIME 兜底
+export function detectFormat(
+  fileName: string,
+  mimeType?: string | null
+): FileFormat | null {
+  const lower = fileName.toLowerCase();
+  const entries = Object.entries(FILE_FORMATS) as [
+    FileFormat,
+    FileFormatSpec,
+  ][];
+
+  const byExt = entries.find(([, spec]) =>
+    spec.extensions.some((ext) => lower.endsWith(ext))
+  );
+  if (byExt) return byExt[0];
+
+  const mime = mimeType?.split(";")[0].trim().toLowerCase();
+  if (!mime) return null;
+  const byMime = entries.find(([, spec]) => spec.mimeTypes.includes(mime));
+  return byMime ? byMime[0] : null;
+}
@@ -0,0 +1,89 @@
+// src/lib/extractors/html.ts
+import { collapseWhitespace, decodeEntities } from "./markup";
+import type { Extractor } from "./types";
+
+// 🚫 导航、页眉页脚、脚本等与正文无关的区块，整块丢弃
+const BOILERPLATE_TAGS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+];
+
+function pickMainContent(html: string) {
+  // 优先取 <main> / <article>，导出的 wiki 页面通常正文都在这里
+  const main =
+    html.match(/<main[^>]*>([\s\S]*?)<\/main>/i) ??
+    html.match(/<article[^>]*>([\s\S]*?)<\/article>/i) ??
+    html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  return main ? main[1] : html;
+}
+
+// 🔁 HTML → 轻量 Markdown：保留标题层级、列表、代码块和表格行，丢掉其余标签
+export function htmlToMarkdown(html: string): { text: string; title?: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch
+    ? collapseWhitespace(decodeEntities(titleMatch[1])) || undefined
+    : undefined;
+
+  let body = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const tag of BOILERPLATE_TAGS) {
+    body = body.replace(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, "gi"),
+      ""
+    );
+  }
+  body = pickMainContent(body);
+
+  // 代码块：先整体转成围栏，避免里面的换行被后续规则吃掉
+  const codeBlocks: string[] = [];
+  body = body.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+    const code = decodeEntities(inner.replace(/<[^>]+>/g, ""));
+    codeBlocks.push("\n\n```\n" + code.replace(/^\n+|\s+$/g, "") + "\n```\n\n");
+    return `\u0000${codeBlocks.length - 1}\u0000`;
+  });
+
+  body = body
+    .replace(
+      /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, inner: string) => {
+        const heading = inner
+          .replace(/<[^>]+>/g, "")
+          .replace(/\s+/g, " ")
+          .trim();
+        return heading ? `\n\n${"#".repeat(Number(level))} ${heading}\n\n` : "";
+      }
+    )
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(td|th)>/gi, " | ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/?(p|div|section|ul|ol|table|tr|blockquote|dl|dt|dd)\b[^>]*>/gi,
+      "\n\n"
+    )
+    .replace(/<[^>]+>/g, "");
+
+  let text = collapseWhitespace(decodeEntities(body)).replace(/ \|$/gm, "");
+  text = text.replace(
+    /\u0000(\d+)\u0000/g,
+    (_, i: string) => codeBlocks[Number(i)]
+  );
+
+  return { text: text.replace(/\n{3,}/g, "\n\n").trim(), title };
+}
+
+export const htmlExtractor: Extractor = {
+  format: "html",
+  async extract(buffer) {
+    const { text, title } = htmlToMarkdown(buffer.toString("utf-8"));
+    return { format: "html", structure: "markdown", text, title };
+  },
+};
@@ -0,0 +1,56 @@
+// src/lib/extractors/index.ts
+// 🧩 文本抽取注册表：按格式（扩展名 / MIME）分发到对应的 Extractor，
+// 新增格式只需在 formats.ts 声明 + 在这里 registerExtractor，上传接口无需改动。
+import { csvExtractor } from "./csv";
+import { docxExtractor } from "./docx";
+import { ACCEPTED_EXTENSIONS, detectFormat, type FileFormat } from "./formats";
+import { htmlExtractor } from "./html";
+import { jsonExtractor } from "./json";
+import { pdfExtractor } from "./pdf";
+import { markdownExtractor, textExtractor } from "./text";
+import {
+  EmptyDocumentError,
+  UnsupportedFileTypeError,
+  type ExtractedDocument,
+  type Extractor,
+} from "./types";
+
+export * from "./types";
+export * from "./formats";
+
+const registry = new Map<FileFormat, Extractor>();
+
+export function registerExtractor(extractor: Extractor) {
+  registry.set(extractor.format, extractor);
+}
+
+[
+  pdfExtractor,
+  markdownExtractor,
+  textExtractor,
+  docxExtractor,
+  htmlExtractor,
+  csvExtractor,
+  jsonExtractor,
+].forEach(registerExtractor);
+
+export function getExtractor(fileName: string, mimeType?: string | null) {
+  const format = detectFormat(fileName, mimeType);
+  const extractor = format ? registry.get(format) : undefined;
+  if (!extractor) {
+    throw new UnsupportedFileTypeError(fileName, ACCEPTED_EXTENSIONS);
+  }
+  return extractor;
+}
+
+// 🚀 上传入口统一调用：识别格式 → 抽取文本 → 校验非空
+export async function extractDocument(
+  buffer: Buffer,
+  fileName: string,
+  mimeType?: string | null
+): Promise<ExtractedDocument> {
+  const extractor = getExtractor(fileName, mimeType);
+  const doc = await extractor.extract(buffer, fileName);
+  if (!doc.text.trim()) throw new EmptyDocumentError(fileName);
+  return doc;
+}
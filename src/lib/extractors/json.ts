@@ -0,0 +1,41 @@
+// src/lib/extractors/json.ts
+import type { Extractor } from "./types";
+
+// 🧬 把嵌套 JSON 拍平成 "a.b[0].c: value" 形式的行
+function flatten(value: unknown, path: string, out: string[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+  } else if (value !== null && value !== undefined && value !== "") {
+    out.push(`${path || "value"}: ${String(value)}`);
+  }
+}
+
+// 📦 JSON：顶层是数组时每个元素单独成段（常见的"导出记录列表"），否则整体拍平
+export const jsonExtractor: Extractor = {
+  format: "json",
+  async extract(buffer, fileName) {
+    let data: unknown;
+    try {
+      data = JSON.parse(buffer.toString("utf-8").replace(/^\uFEFF/, ""));
+    } catch {
+      throw new Error(`Invalid JSON file: ${fileName}`);
+    }
+
+    const items = Array.isArray(data) ? data : [data];
+    const blocks = items.map((item) => {
+      const lines: string[] = [];
+      flatten(item, "", lines);
+      return lines.join("\n");
+    });
+
+    return {
+      format: "json",
+      structure: "plain",
+      text: blocks.filter(Boolean).join("\n\n"),
+    };
+  },
+};
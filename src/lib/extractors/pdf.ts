@@ -0,0 +1,26 @@
+// src/lib/extractors/pdf.ts
+import { parsePdfPages } from "@/lib/pdfParser";
+import type { Extractor, PageSpan } from "./types";
+
+// 📄 PDF：逐页拼接全文，同时记录每页的偏移，后面给 chunk 标页码
+export const pdfExtractor: Extractor = {
+  format: "pdf",
+  async extract(buffer) {
+    const pages = await parsePdfPages(buffer);
+
+    let text = "";
+    const spans: PageSpan[] = [];
+    for (const page of pages) {
+      if (!page.text) continue;
+      if (text) text += "\n\n";
+      spans.push({
+        num: page.num,
+        start: text.length,
+        end: text.length + page.text.length,
+      });
+      text += page.text;
+    }
+
+    return { format: "pdf", structure: "plain", text, pages: spans };
+  },
+};
@@ -0,0 +1,25 @@
+// src/lib/extractors/text.ts
+import type { Extractor } from "./types";
+
+// 📝 .txt / .md：UTF-8 直读，去掉 BOM
+function decodeUtf8(buffer: Buffer) {
+  return buffer.toString("utf-8").replace(/^\uFEFF/, "");
+}
+
+export const markdownExtractor: Extractor = {
+  format: "markdown",
+  async extract(buffer) {
+    return {
+      format: "markdown",
+      structure: "markdown",
+      text: decodeUtf8(buffer),
+    };
+  },
+};
+
+export const textExtractor: Extractor = {
+  format: "text",
+  async extract(buffer) {
+    return { format: "text", structure: "plain", text: decodeUtf8(buffer) };
+  },
+};
@@ -0,0 +1,46 @@
+// src/lib/extractors/types.ts
+import type { FileFormat } from "./formats";
+
+// 📄 原文中的一页（仅 PDF 有），start/end 为在 text 中的偏移
+export type PageSpan = {
+  num: number;
+  start: number;
+  end: number;
+};
+
+// 🧾 抽取结果：干净的文本 + 给切片器的结构提示
+export type ExtractedDocument = {
+  format: FileFormat;
+  text: string;
+  // markdown：文本里保留了 # 标题 / 列表 / 代码块，切片时可按结构切
+  // plain：纯文本，只按段落和句子切
+  structure: "markdown" | "plain";
+  title?: string; // 例如 HTML 的 <title>
+  pages?: PageSpan[];
+};
+
+export interface Extractor {
+  format: FileFormat;
+  extract(buffer: Buffer, fileName: string): Promise<ExtractedDocument>;
+}
+
+// ❌ 不支持的文件类型：带上可接受的扩展名，方便接口直接返回给前端
+export class UnsupportedFileTypeError extends Error {
+  readonly accepted: string[];
+
+  constructor(fileName: string, accepted: string[]) {
+    super(
+      `Unsupported file type: ${fileName}. Accepted: ${accepted.join(", ")}`
+    );
+    this.name = "UnsupportedFileTypeError";
+    this.accepted = accepted;
+  }
+}
+
+// ❌ 文件能识别但抽不出任何文本（扫描版 PDF、空文件等）
+export class EmptyDocumentError extends Error {
+  constructor(fileName: string) {
+    super(`No extractable text in ${fileName}`);
+    this.name = "EmptyDocumentError";
+  }
+}
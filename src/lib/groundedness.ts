@@ -0,0 +1,15 @@
+// src/lib/groundedness.ts
+// 🎯 回答核查结果的展示：groundedness 分档配色（不依赖服务端模块，前端可以直接 import）
+
+export const GROUNDED_SCORE = 0.8; // 八成以上句子有依据视为可信
+export const WEAK_GROUNDED_SCORE = 0.5;
+
+export function formatGroundedness(score: number) {
+  return `${Math.round(score * 100)}%`;
+}
+
+export function groundednessClass(score: number) {
+  if (score >= GROUNDED_SCORE) return "bg-green-100 text-green-700";
+  if (score >= WEAK_GROUNDED_SCORE) return "bg-amber-100 text-amber-700";
+  return "bg-red-100 text-red-700";
+}
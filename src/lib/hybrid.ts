@@ -0,0 +1,137 @@
+// src/lib/hybrid.ts
+// 🔀 混合检索的纯函数部分：关键词抽取 + 倒数排名融合（RRF），不依赖数据库，方便单独调试。
+import type { RetrievalOrigin } from "@/types/chat";
+
+export const ORIGIN_LABELS: Record<RetrievalOrigin, string> = {
+  vector: "向量",
+  keyword: "关键词",
+  both: "向量+关键词",
+};
+
+export const RRF_K = 60; // RRF 平滑常数，论文与多数实现的默认值
+export const DEFAULT_KEYWORD_WEIGHT = 0.3;
+
+// 🔑 关键词：编号 / SKU / 错误码 这类向量检索容易漏掉的精确标识 + 英文词 + 中文二元组。
+// 中文没有空格分词，连续汉字按 2 字滑窗切开，数据库侧用子串匹配（pg_trgm）即可命中。
+const ASCII_TOKEN = /[A-Za-z0-9][A-Za-z0-9._\-/]*[A-Za-z0-9]/g;
+const CJK_RUN = /[\u4e00-\u9fff]+/g;
+const CJK_STOP_BIGRAMS = new Set([
+  "什么",
+  "怎么",
+  "如何",
+  "是否",
+  "哪些",
+  "多少",
+  "可以",
+  "请问",
+  "一下",
+]);
+const MAX_KEYWORDS = 24;
+
+export function extractKeywords(question: string) {
+  const seen = new Set<string>();
+  for (const m of question.matchAll(ASCII_TOKEN)) {
+    seen.add(m[0].toLowerCase());
+  }
+  for (const m of question.matchAll(CJK_RUN)) {
+    const run = m[0];
+    if (run.length === 1) continue; // 单字没有区分度
+    for (let i = 0; i + 2 <= run.length; i++) {
+      const bigram = run.slice(i, i + 2);
+      if (!CJK_STOP_BIGRAMS.has(bigram)) seen.add(bigram);
+    }
+  }
+  return Array.from(seen).slice(0, MAX_KEYWORDS);
+}
+
+export function normalizeKeywordWeight(weight: unknown) {
+  return typeof weight === "number" &&
+    Number.isFinite(weight) &&
+    weight >= 0 &&
+    weight <= 1
+    ? weight
+    : DEFAULT_KEYWORD_WEIGHT;
+}
+
+export type FusedHit<T> = T & {
+  origin: RetrievalOrigin;
+  score: number; // RRF 融合分
+  vector_rank: number | null; // 在向量结果中的名次（从 1 开始）
+  keyword_rank: number | null;
+};
+
+// 🧮 加权 RRF：score = (1-w)/(k+rank_vector) + w/(k+rank_keyword)，只出现在一路的按 0 计另一侧
+export function reciprocalRankFusion<T extends { id: number }>(
+  vectorHits: T[],
+  keywordHits: T[],
+  keywordWeight: number,
+  k = RRF_K
+): FusedHit<T>[] {
+  const fused = new Map<number, FusedHit<T>>();
+
+  vectorHits.forEach((hit, i) => {
+    fused.set(hit.id, {
+      ...hit,
+      origin: "vector",
+      score: (1 - keywordWeight) / (k + i + 1),
+      vector_rank: i + 1,
+      keyword_rank: null,
+    });
+  });
+
+  keywordHits.forEach((hit, i) => {
+    const contribution = keywordWeight / (k + i + 1);
+    const existing = fused.get(hit.id);
+    if (existing) {
+      // 两路都命中：保留向量侧的 similarity 等字段，只补上关键词名次
+      existing.origin = "both";
+      existing.score += contribution;
+      existing.keyword_rank = i + 1;
+    } else {
+      fused.set(hit.id, {
+        ...hit,
+        origin: "keyword",
+        score: contribution,
+        vector_rank: null,
+        keyword_rank: i + 1,
+      });
+    }
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+function minRank(a: number | null, b: number | null) {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+// 🧬 多查询合并：每个查询各自检索得到一份有序列表，再按 RRF 合并去重；
+// 被多个查询同时召回的片段得分累加，自然排到前面
+export function mergeRankedLists<
+  T extends FusedHit<{ id: number; similarity?: number }>,
+>(lists: T[][], k = RRF_K): (T & { matched_queries: number })[] {
+  const merged = new Map<number, T & { matched_queries: number }>();
+
+  for (const list of lists) {
+    list.forEach((hit, i) => {
+      const contribution = 1 / (k + i + 1);
+      const existing = merged.get(hit.id);
+      if (!existing) {
+        merged.set(hit.id, { ...hit, score: contribution, matched_queries: 1 });
+        return;
+      }
+      existing.score += contribution;
+      existing.matched_queries += 1;
+      if (existing.origin !== hit.origin) existing.origin = "both";
+      if ((hit.similarity ?? -1) > (existing.similarity ?? -1)) {
+        existing.similarity = hit.similarity;
+      }
+      existing.vector_rank = minRank(existing.vector_rank, hit.vector_rank);
+      existing.keyword_rank = minRank(existing.keyword_rank, hit.keyword_rank);
+    });
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,432 @@
+// src/lib/ingest.ts
+// 🏭 入库流水线：chunk → 批量向量化（限并发 + 指数退避重试，命中向量缓存的分片跳过）→ 批量写入向量库（VectorStore），
+// 并把成功 / 失败数量回写到 documents（RecordStore），缺片的文档标记为 partial 而不是“全部成功”。
+import { createHash } from "crypto";
+import { embeddingModelId } from "@/lib/embedClient";
+import { embedTexts } from "@/lib/embeddingCache";
+import { getEmbeddingIndexState } from "@/lib/embeddingIndex";
+import { getVectorStore } from "@/lib/vectorStore";
+import { getRecordStore, type DocumentFields } from "@/lib/recordStore";
+import {
+  HEADING_PATH_SEPARATOR,
+  chunkText,
+  normalizeChunkOptions,
+  type Chunk,
+} from "@/lib/chunker";
+import {
+  FILE_FORMATS,
+  extractDocument,
+  type ExtractedDocument,
+  type FileFormat,
+  type PageSpan,
+} from "@/lib/extractors";
+import { updateJob } from "@/lib/jobs";
+import { withRetry } from "@/lib/retry";
+import { errorMessage } from "@/lib/errors";
+import type { DocumentMetadata, IndexStatus } from "@/types/document";
+
+export type IndexResult = {
+  total: number;
+  succeeded: number;
+  failed: number;
+  status: IndexStatus;
+  errors: string[]; // 每个失败批次的错误信息（去重）
+  keptPrevious: boolean; // 新分片没有全部写入，已撤回，文档仍用旧分片（只在 replaceExisting 时出现）
+};
+
+export type IndexOptions = {
+  batchSize?: number; // 每次 embedDocuments 的条数
+  concurrency?: number; // 同时进行的批次数
+  onProgress?: (done: number, total: number) => void;
+  // 文档已有分片时：新分片全部写入后才删旧分片；有批次失败就撤回新分片，旧分片继续服务检索
+  replaceExisting?: boolean;
+};
+
+export const EMBED_BATCH_SIZE = 16;
+export const EMBED_CONCURRENCY = 3;
+
+// 🔹 根据 chunk 的偏移量，找出它覆盖的页码范围
+function pageRangeOf(chunk: Chunk, spans: PageSpan[]) {
+  const hit = spans.filter((p) => p.start < chunk.end && p.end > chunk.start);
+  if (!hit.length) return { page_start: null, page_end: null };
+  return { page_start: hit[0].num, page_end: hit[hit.length - 1].num };
+}
+
+// 标题路径一起参与向量化，让“年假”这类只出现在标题里的词也能召回；
+// 模型迁移时从已存的分片重新拼出同样的输入
+export function chunkEmbeddingInput(
+  headingPath: string | null,
+  content: string
+) {
+  return headingPath ? `${headingPath}\n${content}` : content;
+}
+
+function embeddingInput(chunk: Chunk) {
+  return chunkEmbeddingInput(
+    chunk.headingPath.join(HEADING_PATH_SEPARATOR),
+    chunk.content
+  );
+}
+
+// 🚦 简单的并发池：最多 limit 个任务同时执行
+async function runPool<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+) {
+  let cursor = 0;
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (cursor < items.length) {
+        const item = items[cursor++];
+        await worker(item);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
+
+export async function indexChunks(
+  documentId: number,
+  chunks: Chunk[],
+  pages: PageSpan[] = [],
+  options: IndexOptions = {}
+): Promise<IndexResult> {
+  const batchSize = options.batchSize ?? EMBED_BATCH_SIZE;
+  const concurrency = options.concurrency ?? EMBED_CONCURRENCY;
+
+  const batches: Chunk[][] = [];
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    batches.push(chunks.slice(i, i + batchSize));
+  }
+
+  let succeeded = 0;
+  let failed = 0;
+  const errors = new Set<string>();
+  const store = await getVectorStore();
+  // 用索引当前的模型入库；正在迁移时顺带算好新模型的向量，切换后不会漏掉这批分片
+  const { active, pending } = await getEmbeddingIndexState();
+  // 旧分片的最大 id：之后写入的新分片 id 都比它大，据此区分新旧
+  const previousMaxId = options.replaceExisting
+    ? (await store.listByDocument(documentId)).reduce<number | null>(
+        (max, c) => Math.max(max ?? c.id, c.id),
+        null
+      )
+    : null;
+
+  await runPool(batches, concurrency, async (batch) => {
+    try {
+      const inputs = batch.map(embeddingInput);
+      const [vectors, nextVectors] = await withRetry(
+        async () =>
+          Promise.all([
+            embedTexts(inputs, active).then((r) => r.vectors),
+            pending ? embedTexts(inputs, pending).then((r) => r.vectors) : null,
+          ]),
+        {
+          onRetry: (err, attempt, delay) =>
+            console.warn(
+              `⏳ Embedding retry #${attempt} in ${Math.round(delay)}ms:`,
+              err instanceof Error ? err.message : err
+            ),
+        }
+      );
+
+      const rows = batch.map((chunk, i) => ({
+        document_id: documentId,
+        content: chunk.content,
+        embedding: vectors[i],
+        embedding_model: embeddingModelId(active),
+        ...(pending && nextVectors
+          ? {
+              embedding_next: nextVectors[i],
+              embedding_next_model: embeddingModelId(pending),
+            }
+          : {}),
+        heading_path: chunk.headingPath.join(HEADING_PATH_SEPARATOR) || null,
+        start_offset: chunk.start,
+        end_offset: chunk.end,
+        ...pageRangeOf(chunk, pages),
+      }));
+
+      await withRetry(() => store.upsert(rows));
+
+      succeeded += batch.length;
+    } catch (e) {
+      failed += batch.length;
+      const message = errorMessage(e);
+      errors.add(message);
+      console.error("❌ Chunk batch failed:", message);
+    } finally {
+      options.onProgress?.(succeeded + failed, chunks.length);
+    }
+  });
+
+  let status: IndexStatus =
+    failed === 0 ? "indexed" : succeeded === 0 ? "failed" : "partial";
+
+  // ♻️ 新旧交换：全部成功才删旧分片；否则删掉这次写入的新分片，文档保持原来的可检索状态
+  const keptPrevious = previousMaxId !== null && failed > 0;
+  if (previousMaxId !== null) {
+    await withRetry(() =>
+      store.deleteByDocument(
+        documentId,
+        keptPrevious ? { after: previousMaxId } : { upTo: previousMaxId }
+      )
+    );
+  }
+  if (keptPrevious) {
+    status = "failed";
+    errors.add("new chunks discarded, previous chunks kept");
+  } else {
+    // 📝 回写索引状态；失败不影响返回结果，只打日志
+    try {
+      const records = await getRecordStore();
+      await records.updateDocument(documentId, {
+        index_status: status,
+        indexed_chunks: succeeded,
+        failed_chunks: failed,
+      });
+    } catch (e) {
+      console.error("❌ update index status error:", e);
+    }
+  }
+
+  return {
+    total: chunks.length,
+    succeeded,
+    failed,
+    status,
+    errors: Array.from(errors),
+    keptPrevious,
+  };
+}
+
+// 🔑 内容指纹：对原始字节做 sha256，同一份文件重复上传时能直接识别
+export function hashContent(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export type DuplicateCheck = {
+  exact: { id: number; name: string } | null; // 内容完全相同的已有文档
+  sameName: { id: number; name: string } | null; // 同名但内容不同的旧版本
+};
+
+export async function findDuplicates(
+  contentHash: string,
+  name: string
+): Promise<DuplicateCheck> {
+  const records = await getRecordStore();
+  const exact = await records.findDocument(
+    { content_hash: contentHash },
+    "oldest"
+  );
+  if (exact) {
+    return { exact: { id: exact.id, name: exact.name }, sameName: null };
+  }
+
+  const sameName = await records.findDocument({ name }, "newest");
+  return {
+    exact: null,
+    sameName: sameName ? { id: sameName.id, name: sameName.name } : null,
+  };
+}
+
+// 🌐 同一 URL 只对应一篇文档，重新抓取时据此更新而不是新建
+export async function findDocumentBySourceUrl(sourceUrl: string) {
+  const records = await getRecordStore();
+  return records.findDocument({ source_url: sourceUrl }, "newest");
+}
+
+export type IngestSource = {
+  buffer: Buffer;
+  fileName: string;
+  mimeType?: string | null;
+  chunkSize: number;
+  overlap: number;
+  contentHash: string;
+  replaceDocumentId?: number | null; // 同名替换：覆盖这篇旧文档而不是新建
+  sourceUrl?: string | null; // 从 URL 抓取时的来源地址
+  metadata?: DocumentMetadata; // 例如压缩包导入时的目录（category）
+};
+
+// 🗄️ 新文档直接写入 documents 行；替换旧版本时只算出要写入的字段（replacing），
+// 等新分片全部写入后再落库（commitDocument），向量化失败时旧版本原样保留
+async function storeDocument(
+  source: IngestSource,
+  extracted: ExtractedDocument
+): Promise<{ documentId: number; replacing: DocumentFields | null }> {
+  const fields = {
+    // 网页用 <title> 做文档名，比 URL 最后一段更好认
+    name: (source.sourceUrl && extracted.title) || source.fileName,
+    content: extracted.text,
+    content_hash: source.contentHash,
+    format: extracted.format,
+    pages: extracted.pages ?? null,
+    chunk_size: source.chunkSize,
+    chunk_overlap: source.overlap,
+    source_url: source.sourceUrl ?? null,
+    ...(source.metadata ? { metadata: source.metadata } : {}),
+  };
+
+  const store = await getVectorStore();
+  const records = await getRecordStore();
+
+  if (source.replaceDocumentId) {
+    // ♻️ 替换旧版本：保留文档 id（已有链接 / 运行记录不失效）
+    const existing = await records.getDocument(source.replaceDocumentId);
+    if (!existing) {
+      throw new Error(`Document ${source.replaceDocumentId} not found`);
+    }
+    // 传入的元数据（如压缩包的 category / path）合并进已有元数据，文档页上编辑过的部门、标签等保持不变
+    return {
+      documentId: existing.id,
+      replacing: source.metadata
+        ? { ...fields, metadata: { ...existing.metadata, ...source.metadata } }
+        : fields,
+    };
+  }
+
+  const inserted = await records.insertDocument(fields);
+  await store.setDocumentMetadata(inserted.id, inserted.metadata);
+  return { documentId: inserted.id, replacing: null };
+}
+
+// ✅ 新分片全部写入后，把替换 / 重建时推迟的字段写回 documents，元数据同步给向量库
+async function commitDocument(documentId: number, fields: DocumentFields) {
+  const records = await getRecordStore();
+  const updated = await records.updateDocument(documentId, fields);
+  const store = await getVectorStore();
+  await store.setDocumentMetadata(documentId, updated.metadata);
+}
+
+// 📥 同步完成一篇文档的完整入库（批量导入逐个文件调用，不单独建 job）
+export async function ingestDocument(source: IngestSource) {
+  const extracted = await extractDocument(
+    source.buffer,
+    source.fileName,
+    source.mimeType
+  );
+  const { documentId, replacing } = await storeDocument(source, extracted);
+  const chunks = chunkText(extracted.text, {
+    chunkSize: source.chunkSize,
+    overlap: source.overlap,
+    structure: extracted.structure,
+  });
+  const result = await indexChunks(documentId, chunks, extracted.pages, {
+    replaceExisting: replacing !== null,
+  });
+  if (replacing && !result.keptPrevious) {
+    await commitDocument(documentId, replacing);
+  }
+  return { documentId, result };
+}
+
+// 🚀 后台任务：抽取 → 建文档 → 切片 → 向量化，每个阶段都回写 job 状态供前端轮询
+export async function runIngestJob(jobId: string, source: IngestSource) {
+  try {
+    await updateJob(jobId, { status: "extracting" });
+    const extracted = await extractDocument(
+      source.buffer,
+      source.fileName,
+      source.mimeType
+    );
+
+    const { documentId, replacing } = await storeDocument(source, extracted);
+
+    await updateJob(jobId, { status: "chunking", document_id: documentId });
+    const chunks = chunkText(extracted.text, {
+      chunkSize: source.chunkSize,
+      overlap: source.overlap,
+      structure: extracted.structure,
+    });
+
+    await finishWithIndexing(
+      jobId,
+      documentId,
+      chunks,
+      extracted.pages,
+      replacing
+    );
+  } catch (e) {
+    console.error("❌ Ingest job failed:", e);
+    await updateJob(jobId, { status: "failed", error: errorMessage(e) });
+  }
+}
+
+// 🔁 重建索引：从 documents.content 重新切片并向量化（失败任务重试也走这里）
+export async function runReindexJob(
+  jobId: string,
+  documentId: number,
+  options: { chunkSize?: number | null; overlap?: number | null } = {}
+) {
+  try {
+    await updateJob(jobId, { status: "chunking", error: null });
+
+    const records = await getRecordStore();
+    const doc = await records.getDocument(documentId);
+    if (!doc) throw new Error(`Document ${documentId} not found`);
+
+    const { chunkSize, overlap } = normalizeChunkOptions(
+      options.chunkSize ?? doc.chunk_size,
+      options.overlap ?? doc.chunk_overlap
+    );
+    const format = (doc.format as FileFormat | null) ?? "text";
+
+    const store = await getVectorStore();
+    await store.setDocumentMetadata(documentId, doc.metadata);
+
+    const chunks = chunkText(doc.content, {
+      chunkSize,
+      overlap,
+      structure: FILE_FORMATS[format]?.structure ?? "plain",
+    });
+
+    // 旧分片保留到新分片全部写入为止，重建失败时文档照常可检索；新的切片参数也等成功后再落库
+    await finishWithIndexing(jobId, documentId, chunks, doc.pages ?? [], {
+      chunk_size: chunkSize,
+      chunk_overlap: overlap,
+    });
+  } catch (e) {
+    console.error("❌ Reindex job failed:", e);
+    await updateJob(jobId, { status: "failed", error: errorMessage(e) });
+  }
+}
+
+// replacing 不为空表示替换已有分片，新分片全部写入后把这些字段写回 documents
+async function finishWithIndexing(
+  jobId: string,
+  documentId: number,
+  chunks: Chunk[],
+  pages: PageSpan[] = [],
+  replacing: DocumentFields | null = null
+) {
+  await updateJob(jobId, {
+    status: "embedding",
+    progress_done: 0,
+    progress_total: chunks.length,
+  });
+
+  // 进度写入串成一条链：按完成顺序落库，最终状态等它们都写完再写，不会被迟到的进度覆盖
+  let progressWrites = Promise.resolve();
+  const result = await indexChunks(documentId, chunks, pages, {
+    replaceExisting: replacing !== null,
+    onProgress: (done) => {
+      progressWrites = progressWrites.then(() =>
+        updateJob(jobId, { progress_done: done })
+      );
+    },
+  });
+  await progressWrites;
+  if (replacing && !result.keptPrevious) {
+    await commitDocument(documentId, replacing);
+  }
+
+  await updateJob(jobId, {
+    status: result.status === "failed" ? "failed" : "done",
+    index_status: result.status,
+    progress_done: result.total,
+    error: result.errors.length ? result.errors.join("; ") : null,
+  });
+}
@@ -0,0 +1,89 @@
+// src/lib/jobProgress.ts
+import type { IngestJob, JobStatus } from "@/types/job";
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ["done", "failed"];
+
+export const JOB_POLL_INTERVAL = 1000;
+export const MAX_POLL_FAILURES = 5; // 连续失败这么多次就不再轮询（服务挂了 / 网络断了）
+
+// ❌ 任务不存在，或连续多次拿不到任务状态
+export class JobPollError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobPollError";
+  }
+}
+
+// 等待一个轮询间隔；中止时立刻返回，不用等满
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+// 📡 轮询任务直到 done / failed，每拿到一次状态就回调 onUpdate。
+// 404 或连续 MAX_POLL_FAILURES 次失败时抛 JobPollError；signal 中止（组件卸载）时返回 null
+export async function pollJob(
+  jobId: string,
+  options: { signal: AbortSignal; onUpdate: (job: IngestJob) => void }
+): Promise<IngestJob | null> {
+  const { signal, onUpdate } = options;
+  let failures = 0;
+
+  for (;;) {
+    await wait(JOB_POLL_INTERVAL, signal);
+    if (signal.aborted) return null;
+
+    let res: Response | null = null;
+    let job: IngestJob | null = null;
+    try {
+      res = await fetch(`/api/jobs/${jobId}`, { signal });
+      if (res.ok) job = (await res.json()) as IngestJob;
+    } catch {
+      // 网络错误 / 中止，下面统一处理
+    }
+    if (signal.aborted) return null;
+    if (res?.status === 404) throw new JobPollError("任务不存在或已被清理");
+    if (!job) {
+      // 偶发失败继续轮询，一直失败就放弃
+      if (++failures >= MAX_POLL_FAILURES) {
+        throw new JobPollError(
+          `连续 ${MAX_POLL_FAILURES} 次获取任务状态失败，请稍后刷新查看`
+        );
+      }
+      continue;
+    }
+
+    failures = 0;
+    onUpdate(job);
+    if (TERMINAL_JOB_STATUSES.includes(job.status)) return job;
+  }
+}
+
+// 📊 粗略进度百分比：抽取 / 切片各占一小段，向量化占大头
+export function jobPercent(
+  job: Pick<IngestJob, "status" | "progress_done" | "progress_total">
+) {
+  switch (job.status) {
+    case "queued":
+      return 0;
+    case "extracting":
+      return 5;
+    case "chunking":
+      return 10;
+    case "embedding":
+      return job.progress_total > 0
+        ? 10 + Math.round((90 * job.progress_done) / job.progress_total)
+        : 10;
+    default:
+      return 100;
+  }
+}
@@ -0,0 +1,65 @@
+// src/lib/jobs.ts
+// 🗃️ 入库任务存储：状态持久化到 ingest_jobs 表（RecordStore，多实例 / 重启后仍可查询），
+// 进行中的任务在进程内缓存一份，轮询同一实例时不必每次打数据库；任务结束后从缓存移除，之后的查询读表。
+import { TERMINAL_JOB_STATUSES } from "@/lib/jobProgress";
+import { getRecordStore } from "@/lib/recordStore";
+import type { IngestJob } from "@/types/job";
+
+const cache = new Map<string, IngestJob>();
+
+export async function createJob(
+  fileName: string,
+  documentId: number | null = null
+): Promise<IngestJob> {
+  const now = new Date().toISOString();
+  const job: IngestJob = {
+    id: crypto.randomUUID(),
+    file_name: fileName,
+    status: "queued",
+    progress_done: 0,
+    progress_total: 0,
+    document_id: documentId,
+    index_status: null,
+    error: null,
+    report: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const records = await getRecordStore();
+  await records.insertJob(job);
+
+  cache.set(job.id, job);
+  return job;
+}
+
+export async function updateJob(
+  id: string,
+  patch: Partial<Omit<IngestJob, "id" | "created_at">>
+) {
+  const next = { ...patch, updated_at: new Date().toISOString() };
+
+  const cached = cache.get(id);
+  if (cached) cache.set(id, { ...cached, ...next });
+
+  // ⚠️ 进度写库失败不应打断入库流程，只打日志
+  try {
+    const records = await getRecordStore();
+    await records.updateJob(id, next);
+  } catch (e) {
+    console.error("❌ update ingest job error:", e);
+  }
+
+  // 🧹 结束的任务等写库之后再移出缓存，这期间的轮询仍能读到最终状态
+  if (patch.status && TERMINAL_JOB_STATUSES.includes(patch.status)) {
+    cache.delete(id);
+  }
+}
+
+export async function getJob(id: string): Promise<IngestJob | null> {
+  const cached = cache.get(id);
+  if (cached) return cached;
+
+  const records = await getRecordStore();
+  return records.getJob(id);
+}
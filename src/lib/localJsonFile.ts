@@ -0,0 +1,47 @@
+// src/lib/localJsonFile.ts
+// 💾 本地模式的存储底座：整个数据集放在一个 JSON 文件里，首次使用时读入内存，
+// 写操作串行执行并先写临时文件再 rename，避免并发写入互相覆盖或留下半个文件。
+import { promises as fs } from "fs";
+import path from "path";
+
+export function createJsonFile<T>(filePath: string, initial: () => T) {
+  let data: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load() {
+    if (data) return data;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+      data = initial();
+    }
+    return data;
+  }
+
+  async function persist(d: T) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(d));
+    await fs.rename(tmp, filePath);
+  }
+
+  return {
+    // 等排队中的写操作完成后再读，保证读到自己刚写入的数据
+    async read() {
+      await queue;
+      return load();
+    },
+
+    mutate<R>(fn: (d: T) => R): Promise<R> {
+      const run = queue.then(async () => {
+        const d = await load();
+        const result = fn(d);
+        await persist(d);
+        return result;
+      });
+      queue = run.catch(() => {});
+      return run;
+    },
+  };
+}
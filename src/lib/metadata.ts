@@ -0,0 +1,165 @@
+// src/lib/metadata.ts
+// 🏷️ 文档元数据与检索范围的校验：PATCH 文档、/api/search 共用，保证写进去和查出来的格式一致。
+import type {
+  Confidentiality,
+  DocumentMetadata,
+  MetadataFilter,
+} from "@/types/document";
+
+export const CONFIDENTIALITY_LEVELS: Confidentiality[] = [
+  "public",
+  "internal",
+  "confidential",
+  "secret",
+];
+
+export const CONFIDENTIALITY_LABELS: Record<Confidentiality, string> = {
+  public: "公开",
+  internal: "内部",
+  confidential: "机密",
+  secret: "绝密",
+};
+
+const MAX_TAGS = 20;
+const MAX_FILTER_VALUES = 50;
+
+// ❌ 元数据格式不对：接口直接返回 400
+export class InvalidMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMetadataError";
+  }
+}
+
+function optionalString(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new InvalidMetadataError(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function stringList(value: unknown, field: string, max: number) {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new InvalidMetadataError(`${field} must be an array of strings`);
+  }
+  const list = Array.from(
+    new Set((value as string[]).map((v) => v.trim()).filter(Boolean))
+  );
+  if (list.length > max) {
+    throw new InvalidMetadataError(`${field} accepts at most ${max} values`);
+  }
+  return list.length ? list : undefined;
+}
+
+function isConfidentiality(value: unknown): value is Confidentiality {
+  return CONFIDENTIALITY_LEVELS.includes(value as Confidentiality);
+}
+
+// ✅ 校验已知字段；category / path 等其他字段原样保留，避免编辑时把导入信息冲掉
+export function normalizeMetadata(input: unknown): DocumentMetadata {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new InvalidMetadataError("metadata must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+
+  const effectiveDate = optionalString(raw.effective_date, "effective_date");
+  if (
+    effectiveDate &&
+    (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) ||
+      Number.isNaN(Date.parse(effectiveDate)))
+  ) {
+    throw new InvalidMetadataError("effective_date must be YYYY-MM-DD");
+  }
+
+  const confidentiality = optionalString(
+    raw.confidentiality,
+    "confidentiality"
+  );
+  if (confidentiality && !isConfidentiality(confidentiality)) {
+    throw new InvalidMetadataError(
+      `confidentiality must be one of ${CONFIDENTIALITY_LEVELS.join(", ")}`
+    );
+  }
+
+  const known: DocumentMetadata = {
+    department: optionalString(raw.department, "department"),
+    owner: optionalString(raw.owner, "owner"),
+    tags: stringList(raw.tags, "tags", MAX_TAGS),
+    effective_date: effectiveDate,
+    confidentiality: confidentiality as Confidentiality | undefined,
+  };
+
+  // undefined 字段不写进 jsonb
+  const merged: Record<string, unknown> = { ...raw, ...known };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged as DocumentMetadata;
+}
+
+// 🎯 检索范围：全部为空时返回 null，表示检索全库
+export function normalizeMetadataFilter(input: unknown): MetadataFilter | null {
+  if (input === undefined || input === null) return null;
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new InvalidMetadataError("filter must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+
+  const confidentiality = stringList(
+    raw.confidentiality,
+    "filter.confidentiality",
+    CONFIDENTIALITY_LEVELS.length
+  );
+  if (confidentiality?.some((c) => !isConfidentiality(c))) {
+    throw new InvalidMetadataError(
+      `filter.confidentiality must be one of ${CONFIDENTIALITY_LEVELS.join(", ")}`
+    );
+  }
+
+  const filter: MetadataFilter = {
+    departments: stringList(
+      raw.departments,
+      "filter.departments",
+      MAX_FILTER_VALUES
+    ),
+    tags: stringList(raw.tags, "filter.tags", MAX_FILTER_VALUES),
+    confidentiality: confidentiality as Confidentiality[] | undefined,
+  };
+
+  if (!filter.departments && !filter.tags && !filter.confidentiality) {
+    return null;
+  }
+  return filter;
+}
+
+// 🔒 在已有范围内再收窄（Agent 工具调用时用）：同一字段取交集，不能借工具参数跳出用户选定的范围
+export function narrowMetadataFilter(
+  scope: MetadataFilter | null,
+  requested: MetadataFilter | null
+): MetadataFilter | null {
+  if (!scope) return requested;
+  if (!requested) return scope;
+  const narrow = <T>(a?: T[], b?: T[]) =>
+    a && b ? a.filter((v) => b.includes(v)) : (a ?? b);
+  return {
+    departments: narrow(scope.departments, requested.departments),
+    tags: narrow(scope.tags, requested.tags),
+    confidentiality: narrow(scope.confidentiality, requested.confidentiality),
+  };
+}
+
+// 📝 给 Agent 步骤 / 运行记录看的一行描述
+export function describeFilter(filter: MetadataFilter | null) {
+  if (!filter) return "全部文档";
+  const parts: string[] = [];
+  if (filter.departments) parts.push(`部门=${filter.departments.join("|")}`);
+  if (filter.tags) parts.push(`标签=${filter.tags.join("|")}`);
+  if (filter.confidentiality) {
+    parts.push(
+      `密级=${filter.confidentiality.map((c) => CONFIDENTIALITY_LABELS[c]).join("|")}`
+    );
+  }
+  return parts.join("，");
+}
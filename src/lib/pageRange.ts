@@ -0,0 +1,11 @@
+// src/lib/pageRange.ts
+
+// 📑 把 chunk 的页码范围格式化成引用文案，例如 "p. 12" / "p. 12–13"
+export function formatPageRange(
+  start?: number | null,
+  end?: number | null
+): string {
+  if (start == null) return "";
+  if (end == null || end === start) return `p. ${start}`;
+  return `p. ${start}–${end}`;
+}
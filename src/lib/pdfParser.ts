@@ -0,0 +1,19 @@
+// src/lib/pdfParser.ts
+import { PDFParse } from "pdf-parse";
+
+export type PdfPage = {
+  num: number; // 页码，从 1 开始
+  text: string;
+};
+
+// 📄 服务端解析 PDF：按页返回文本，供切片时标注每个 chunk 的来源页码
+export async function parsePdfPages(buffer: Buffer): Promise<PdfPage[]> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    return result.pages.map((p) => ({ num: p.num, text: p.text.trim() }));
+  } finally {
+    // ⚠️ pdfjs 会占用 worker 资源，解析完必须释放
+    await parser.destroy();
+  }
+}
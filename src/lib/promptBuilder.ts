@@ -0,0 +1,196 @@
+// src/lib/promptBuilder.ts
+// 🧮 按 token 预算组装提示词：上下文窗口 − 预留给回答的 token = 可用预算，
+// 依次放入 系统提示词 + 当前问题 → 相关度最高的片段 → 最近的对话轮次，放不下的记录下来而不是直接报错。
+import {
+  encodingForModel,
+  getEncoding,
+  type Tiktoken,
+  type TiktokenModel,
+} from "js-tiktoken";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type PromptBudget = {
+  contextWindow: number;
+  reservedForAnswer: number;
+  budget: number; // 提示词最多可用的 token
+};
+
+export type PromptStats = PromptBudget & {
+  used: number;
+  system: number; // 系统提示词 + 当前问题模板
+  context: number;
+  history: number;
+  includedChunkIds: number[];
+  droppedChunkIds: number[];
+  truncatedChunkId: number | null; // 单个片段就超预算时截断保留
+  droppedHistoryTurns: number;
+  keptHistoryTurns: number;
+};
+
+export type BuiltPrompt = {
+  messages: ChatMessage[];
+  stats: PromptStats;
+};
+
+// 🪟 常见模型的上下文窗口，未知模型按保守值处理；AI_CONTEXT_WINDOW 可覆盖
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^(gpt-4o|gpt-4\.1|o\d)/, 128_000],
+  [/^gpt-4-turbo/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+  [/^glm-4/, 128_000],
+  [/qwen/i, 32_768],
+  [/deepseek/i, 64_000],
+];
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+const DEFAULT_ANSWER_TOKENS = 1_024;
+// 非 OpenAI 模型用 cl100k 近似计数，中文分词差异较大，预算打九折留余量
+const APPROXIMATE_COUNT_MARGIN = 0.9;
+// 每条消息的格式开销（role / 分隔符），参考 OpenAI 的计数方式
+const TOKENS_PER_MESSAGE = 4;
+const CONTEXT_SEPARATOR = "\n---\n";
+
+function positiveIntEnv(name: string) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+const encoders = new Map<string, { enc: Tiktoken; native: boolean }>();
+
+function encoderFor(model: string) {
+  let entry = encoders.get(model);
+  if (!entry) {
+    try {
+      entry = { enc: encodingForModel(model as TiktokenModel), native: true };
+    } catch {
+      entry = { enc: getEncoding("cl100k_base"), native: false };
+    }
+    encoders.set(model, entry);
+  }
+  return entry;
+}
+
+export function countTokens(text: string, model: string) {
+  return encoderFor(model).enc.encode(text).length;
+}
+
+export function getPromptBudget(model: string): PromptBudget {
+  const contextWindow =
+    positiveIntEnv("AI_CONTEXT_WINDOW") ??
+    MODEL_CONTEXT_WINDOWS.find(([re]) => re.test(model))?.[1] ??
+    DEFAULT_CONTEXT_WINDOW;
+  const reservedForAnswer = Math.min(
+    positiveIntEnv("AI_MAX_ANSWER_TOKENS") ?? DEFAULT_ANSWER_TOKENS,
+    Math.floor(contextWindow / 2)
+  );
+  const margin = encoderFor(model).native ? 1 : APPROXIMATE_COUNT_MARGIN;
+  return {
+    contextWindow,
+    reservedForAnswer,
+    budget: Math.floor((contextWindow - reservedForAnswer) * margin),
+  };
+}
+
+function truncateToTokens(text: string, maxTokens: number, model: string) {
+  const { enc } = encoderFor(model);
+  return enc.decode(enc.encode(text).slice(0, maxTokens));
+}
+
+export type PromptInput = {
+  model: string;
+  systemPrompt: string;
+  chunks: { id: number; content: string }[]; // 已按相关度排好序
+  history: { role: "user" | "assistant"; content: string }[];
+  renderUserMessage: (context: string) => string; // 把上下文套进当前问题的模板
+  // 片段编号（例如行内引用的 "[1] "），按最终放入提示词的顺序从 1 开始，计入预算
+  chunkLabel?: (n: number) => string;
+};
+
+export function buildPrompt(input: PromptInput): BuiltPrompt {
+  const { model } = input;
+  const budget = getPromptBudget(model);
+  const count = (text: string) => countTokens(text, model);
+  const label = (n: number) => input.chunkLabel?.(n) ?? "";
+
+  // 1️⃣ 系统提示词 + 当前问题（不含上下文）必须保留
+  const system =
+    count(input.systemPrompt) +
+    count(input.renderUserMessage("")) +
+    TOKENS_PER_MESSAGE * 2;
+  let remaining = budget.budget - system;
+
+  // 2️⃣ 片段按相关度依次放入；放不下的跳过，继续尝试后面更短的片段
+  const included: { id: number; content: string }[] = [];
+  const droppedChunkIds: number[] = [];
+  let truncatedChunkId: number | null = null;
+  let context = 0;
+  for (const chunk of input.chunks) {
+    const cost =
+      count(label(included.length + 1) + chunk.content) +
+      (included.length ? count(CONTEXT_SEPARATOR) : 0);
+    if (cost <= remaining) {
+      included.push(chunk);
+      context += cost;
+      remaining -= cost;
+    } else {
+      droppedChunkIds.push(chunk.id);
+    }
+  }
+  // 一个都放不下（单个片段过长）时，截断最相关的那条，至少给模型一点依据
+  if (!included.length && input.chunks.length && remaining > 0) {
+    const top = input.chunks[0];
+    const content = truncateToTokens(
+      top.content,
+      Math.max(remaining - count(label(1)), 0),
+      model
+    );
+    const cost = count(label(1) + content);
+    included.push({ id: top.id, content });
+    droppedChunkIds.shift();
+    truncatedChunkId = top.id;
+    context += cost;
+    remaining -= cost;
+  }
+
+  // 3️⃣ 历史从最近一轮往前放，放不下就停（中间缺一截的对话比少几轮更容易误导模型）
+  const keptHistory: PromptInput["history"] = [];
+  let history = 0;
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const cost = count(input.history[i].content) + TOKENS_PER_MESSAGE;
+    if (cost > remaining) break;
+    keptHistory.unshift(input.history[i]);
+    history += cost;
+    remaining -= cost;
+  }
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: input.systemPrompt },
+    ...keptHistory,
+    {
+      role: "user",
+      content: input.renderUserMessage(
+        included.map((c, i) => label(i + 1) + c.content).join(CONTEXT_SEPARATOR)
+      ),
+    },
+  ];
+
+  return {
+    messages,
+    stats: {
+      ...budget,
+      used: budget.budget - remaining,
+      system,
+      context,
+      history,
+      includedChunkIds: included.map((c) => c.id),
+      droppedChunkIds,
+      truncatedChunkId,
+      droppedHistoryTurns: input.history.length - keptHistory.length,
+      keptHistoryTurns: keptHistory.length,
+    },
+  };
+}
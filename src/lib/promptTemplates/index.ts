@@ -0,0 +1,80 @@
+// src/lib/promptTemplates/index.ts
+// 📝 提示词模板存储：每次修改都新增一个版本，旧版本保留用于追溯；请求可以指定模板，不指定时用默认模板。
+// 表的读写在 RecordStore 里，本地模式下模板和文档、运行记录存在同一个文件
+import { getRecordStore } from "@/lib/recordStore";
+import type { PromptTemplate, PromptTemplateDraft } from "@/types/prompt";
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  InvalidPromptTemplateError,
+  parseTemplateRef,
+} from "./options";
+
+export * from "./options";
+
+// 所有版本，同名的按版本倒序排在一起
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const records = await getRecordStore();
+  return records.listPromptTemplates();
+}
+
+export async function getPromptTemplate(id: number) {
+  const records = await getRecordStore();
+  return records.getPromptTemplate(id);
+}
+
+// 🎯 "name" / "name@version" / 空值 → 模板；指定的模板不存在时报 400，而不是悄悄换成默认模板
+export async function resolvePromptTemplate(
+  ref: unknown
+): Promise<PromptTemplate> {
+  const parsed = parseTemplateRef(ref);
+  const records = await getRecordStore();
+  if (!parsed) {
+    try {
+      return (
+        (await records.findPromptTemplate({ default: true })) ??
+        BUILTIN_PROMPT_TEMPLATE
+      );
+    } catch (e) {
+      // ⚠️ 模板表不可用时不能让问答整体失败，退回内置模板（运行记录里能看出来）
+      console.warn("⚠️ load default prompt template failed:", e);
+      return BUILTIN_PROMPT_TEMPLATE;
+    }
+  }
+  if (parsed.name === BUILTIN_PROMPT_TEMPLATE.name) {
+    return BUILTIN_PROMPT_TEMPLATE;
+  }
+
+  const template = await records.findPromptTemplate(parsed);
+  if (!template) {
+    throw new InvalidPromptTemplateError(
+      `Prompt template not found: ${String(ref)}`
+    );
+  }
+  return template;
+}
+
+// ➕ 新模板或已有模板的新版本：版本号 = 同名最大版本 + 1
+export async function createPromptTemplateVersion(
+  draft: PromptTemplateDraft,
+  { makeDefault = false }: { makeDefault?: boolean } = {}
+): Promise<PromptTemplate> {
+  const records = await getRecordStore();
+  const latest = await records.findPromptTemplate({
+    name: draft.name,
+    version: null,
+  });
+  const template = await records.insertPromptTemplate({
+    ...draft,
+    version: (latest?.version ?? 0) + 1,
+  });
+  if (makeDefault) {
+    await records.setDefaultPromptTemplate(template.id!);
+    template.is_default = true;
+  }
+  return template;
+}
+
+export async function setDefaultPromptTemplate(id: number) {
+  const records = await getRecordStore();
+  await records.setDefaultPromptTemplate(id);
+}
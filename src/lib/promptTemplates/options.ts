@@ -0,0 +1,211 @@
+// src/lib/promptTemplates/options.ts
+// 📝 提示词模板的变量、渲染和校验 + 内置默认模板（不依赖服务端模块，管理页面可以直接 import）
+import type { PromptTemplate, PromptTemplateDraft } from "@/types/prompt";
+
+export const PROMPT_VARIABLES = ["context", "question", "language"] as const;
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export const PROMPT_VARIABLE_LABELS: Record<PromptVariable, string> = {
+  context: "检索到的文档片段（只能放在用户消息模板里）",
+  question: "用户当前的问题",
+  language: "回答语言",
+};
+
+export const DEFAULT_LANGUAGE = "中文";
+export const LANGUAGE_OPTIONS = ["中文", "English", "日本語"];
+const MAX_LANGUAGE_LENGTH = 20;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const TEMPLATE_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+const MAX_PROMPT_LENGTH = 8000;
+
+// 🧱 表里没有默认模板时使用；与改造前写死在 /api/search 里的提示词一致
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: "builtin",
+  version: 0,
+  description: "内置模板（表里没有默认模板时使用）",
+  system_prompt: `你是一名企业知识问答助手，请根据提供的企业内部文档内容，用简洁、正式的{{language}}回答问题。
+如果文档中找不到答案，请直接回复：“文档中未提及相关信息。”，不要编造。`,
+  user_prompt:
+    "请基于以下【文档内容】回答用户当前的问题。\n\n【文档内容】\n{{context}}\n\n【当前问题】\n{{question}}",
+  is_default: false,
+  created_at: null,
+};
+
+// 🙅 找不到答案时的固定回复：模板里按“请直接回复：“…””写了措辞就以模板为准，
+// 另外按回答语言给一个默认措辞（模板是中文、回答语言是英文时模型可能会翻译这句话）
+const NO_ANSWER_REPLIES: Record<string, string> = {
+  中文: "文档中未提及相关信息。",
+  English: "The documents do not mention this.",
+  日本語: "ドキュメントには関連する情報がありません。",
+};
+const NO_ANSWER_PATTERN =
+  /(?:直接回复|reply(?: with)?(?: exactly)?)[:：]\s*[“"]([^”"]+)[”"]/i;
+
+// 第一个是首选措辞（检索不到片段时直接回复它），其余的在回答核查时同样视为拒答
+export function noAnswerReplies(
+  template: Pick<PromptTemplate, "system_prompt">,
+  language: string
+) {
+  const fromTemplate = renderPromptTemplate(template.system_prompt, {
+    language,
+  })
+    .match(NO_ANSWER_PATTERN)?.[1]
+    .trim();
+  const byLanguage =
+    NO_ANSWER_REPLIES[language] ?? NO_ANSWER_REPLIES[DEFAULT_LANGUAGE];
+  return [fromTemplate, byLanguage].filter(
+    (r, i, all): r is string => !!r && all.indexOf(r) === i
+  );
+}
+
+// 📎 服务端追加在模板后面的协议说明：[n] 引用、工具调用、结构化输出都依赖这些约定，不交给模板改。
+// 改动下面任何一段措辞都要把版本号 +1：运行记录同时保存模板 name@version 和这个版本，才能还原当时完整的系统提示词
+export const PROMPT_INSTRUCTIONS_VERSION = 1;
+
+export const CITATION_INSTRUCTIONS = `文档内容的每个片段以 [编号] 开头。回答中引用某个片段的信息时，在该句末尾标注对应编号，例如 [1] 或 [1][3]；
+只能使用文档内容中出现过的编号，不要标注不存在的编号。`;
+
+export function toolInstructions(maxRounds: number) {
+  return `如果文档内容不足以回答，可以调用工具补充检索（最多 ${maxRounds} 轮）；工具返回的片段同样带 [编号]，引用方式相同。
+文档内容已经足够时直接回答，不要调用工具。`;
+}
+
+export function structuredOutputInstructions(schema: unknown) {
+  return `本次输出必须是符合下面 JSON Schema 的 JSON 对象，不要输出任何其他文字（上面关于找不到答案时如何回复的要求不适用）：
+${JSON.stringify(schema)}
+文档中找不到的字段：schema 允许 null 时填 null，否则按字段含义填最保守的值（如 false、0、空字符串）。
+文档内容的每个片段以 [编号] 开头；字符串字段需要注明出处时可以写对应编号，例如 [1]。`;
+}
+
+// 🧩 完整的系统提示词 = 渲染后的模板 + 协议说明
+export function renderSystemPrompt(
+  template: Pick<PromptTemplate, "system_prompt">,
+  variables: Partial<Record<PromptVariable, string>>,
+  instructions: string[]
+) {
+  return [
+    renderPromptTemplate(template.system_prompt, variables),
+    ...instructions,
+  ].join("\n");
+}
+
+// ❌ 模板内容不合法 / 指定的模板不存在 → 400
+export class InvalidPromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPromptTemplateError";
+  }
+}
+
+// ❌ 两个人同时保存同一个模板，版本号撞了 → 409
+export class PromptTemplateConflictError extends Error {
+  constructor(name: string) {
+    super(`Template ${name} was just updated, reload and retry`);
+    this.name = "PromptTemplateConflictError";
+  }
+}
+
+// 🏷️ name@version，和向量模型的 model@dimensions 一样写进运行记录
+export function templateRef(
+  template: Pick<PromptTemplate, "name" | "version">
+) {
+  return `${template.name}@${template.version}`;
+}
+
+// "hr-policy" → 最新版本；"hr-policy@3" → 指定版本；空值 → 默认模板
+export function parseTemplateRef(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const m = value.trim().match(/^([^@]+?)(?:@(\d+))?$/);
+  if (!m || !TEMPLATE_NAME_PATTERN.test(m[1])) {
+    throw new InvalidPromptTemplateError(`Invalid prompt template: ${value}`);
+  }
+  return { name: m[1], version: m[2] ? Number(m[2]) : null };
+}
+
+export function normalizeLanguage(value: unknown) {
+  return typeof value === "string" &&
+    value.trim() &&
+    value.trim().length <= MAX_LANGUAGE_LENGTH
+    ? value.trim()
+    : DEFAULT_LANGUAGE;
+}
+
+export function findTemplateVariables(text: string) {
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map((m) => m[1]))];
+}
+
+// 🧩 替换 {{变量}}；变量名已在保存时校验过，这里没有值的保持原样
+export function renderPromptTemplate(
+  text: string,
+  variables: Partial<Record<PromptVariable, string>>
+) {
+  return text.replace(VARIABLE_PATTERN, (whole, name: string) => {
+    const value = variables[name as PromptVariable];
+    return value === undefined ? whole : value;
+  });
+}
+
+// 🧹 保存前校验：变量名必须认识；上下文只能出现在用户消息里（提示词预算按用户消息模板计算片段）
+export function validatePromptTemplate(input: unknown): PromptTemplateDraft {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const text = (key: string) =>
+    typeof body[key] === "string" ? (body[key] as string).trim() : "";
+
+  const name = text("name");
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new InvalidPromptTemplateError(
+      "name must be 1-64 letters, digits, '-' or '_'"
+    );
+  }
+  if (name === BUILTIN_PROMPT_TEMPLATE.name) {
+    throw new InvalidPromptTemplateError(`"${name}" is reserved`);
+  }
+
+  const systemPrompt = text("system_prompt");
+  const userPrompt = text("user_prompt");
+  if (!systemPrompt || !userPrompt) {
+    throw new InvalidPromptTemplateError(
+      "system_prompt and user_prompt are required"
+    );
+  }
+  if (
+    systemPrompt.length > MAX_PROMPT_LENGTH ||
+    userPrompt.length > MAX_PROMPT_LENGTH
+  ) {
+    throw new InvalidPromptTemplateError(
+      `prompts must be at most ${MAX_PROMPT_LENGTH} characters`
+    );
+  }
+
+  const unknown = findTemplateVariables(systemPrompt + userPrompt).filter(
+    (v) => !PROMPT_VARIABLES.includes(v as PromptVariable)
+  );
+  if (unknown.length) {
+    throw new InvalidPromptTemplateError(
+      `unknown variables: ${unknown.map((v) => `{{${v}}}`).join(", ")}`
+    );
+  }
+  if (findTemplateVariables(systemPrompt).includes("context")) {
+    throw new InvalidPromptTemplateError(
+      "{{context}} is only allowed in user_prompt"
+    );
+  }
+  const userVariables = findTemplateVariables(userPrompt);
+  if (
+    !userVariables.includes("context") ||
+    !userVariables.includes("question")
+  ) {
+    throw new InvalidPromptTemplateError(
+      "user_prompt must contain {{context}} and {{question}}"
+    );
+  }
+
+  return {
+    name,
+    description: text("description") || null,
+    system_prompt: systemPrompt,
+    user_prompt: userPrompt,
+  };
+}
@@ -0,0 +1,56 @@
+// src/lib/queryRewrite.ts
+// ✍️ 多轮对话查询改写：把 “那外包员工呢？” 这类依赖上下文的追问，结合历史改写成可独立检索的问题，
+// 再拿去做向量化 / 关键词检索。没有历史时直接返回原问题，不多调一次 LLM。
+import { aiClient, AI_MODEL } from "@/lib/ai-client";
+
+export type HistoryTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+const MAX_HISTORY_TURNS = 6; // 只看最近几轮，太早的话题基本与当前追问无关
+const MAX_TURN_CHARS = 500; // 助手回答可能很长，截断后足够提供指代信息
+
+const SYSTEM_PROMPT = `你负责把用户在多轮对话中的最新问题改写成一个可以独立用于文档检索的查询。
+要求：
+1. 结合对话历史补全指代和省略（如“那”“它”“这个政策”“外包员工呢”），保留专有名词、编号、数字原文；
+2. 如果最新问题本身已经完整，原样返回；
+3. 只输出改写后的查询一句话，不要解释，不要加引号。`;
+
+export async function condenseQuestion(
+  question: string,
+  history: HistoryTurn[] = []
+): Promise<string> {
+  const recent = history
+    .filter((m) => m.content?.trim())
+    .slice(-MAX_HISTORY_TURNS);
+  if (!recent.length) return question;
+
+  const transcript = recent
+    .map(
+      (m) =>
+        `${m.role === "user" ? "用户" : "助手"}：${m.content.slice(0, MAX_TURN_CHARS)}`
+    )
+    .join("\n");
+
+  const completion = await aiClient.chat.completions.create({
+    model: AI_MODEL,
+    temperature: 0,
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `【对话历史】\n${transcript}\n\n【最新问题】\n${question}`,
+      },
+    ],
+  });
+
+  const rewritten = completion.choices?.[0]?.message?.content
+    ?.trim()
+    .replace(/^["'“”]+|["'“”]+$/g, "");
+  // 模型偶尔会输出空串或长篇解释，这种情况宁可用原问题
+  if (!rewritten || rewritten.length > question.length * 4 + 200) {
+    return question;
+  }
+  return rewritten;
+}
@@ -0,0 +1,35 @@
+// src/lib/recordStore/index.ts
+// 🗂️ 文档行 / 入库任务 / 运行记录 / 提示词模板的存储，和向量库共用 VECTOR_STORE 开关：
+// local 时存到本地 JSON 文件（路径 RECORD_STORE_PATH），入库 → 检索 → 运行记录整条链路都不连 Supabase。
+import path from "path";
+import type { RecordStore } from "./types";
+
+export * from "./types";
+
+const DEFAULT_LOCAL_PATH = ".data/records.json";
+
+let store: Promise<RecordStore> | null = null;
+
+async function createRecordStore(kind: string): Promise<RecordStore> {
+  if (kind === "local") {
+    const { createLocalRecordStore } = await import("./local");
+    return createLocalRecordStore(
+      path.resolve(process.env.RECORD_STORE_PATH || DEFAULT_LOCAL_PATH)
+    );
+  }
+  if (kind === "supabase") {
+    const { supabaseRecordStore } = await import("./supabase");
+    return supabaseRecordStore;
+  }
+  throw new Error(`Unknown VECTOR_STORE: ${kind}`);
+}
+
+export function getRecordStore(): Promise<RecordStore> {
+  if (!store) {
+    store = createRecordStore(process.env.VECTOR_STORE || "supabase");
+    store.catch(() => {
+      store = null; // 配置写错时下次请求重新尝试
+    });
+  }
+  return store;
+}
@@ -0,0 +1,304 @@
+// src/lib/recordStore/local.ts
+// 💾 本地实现：文档、任务、运行记录、提示词模板存成一个 JSON 文件，只为离线开发 / 集成测试准备。
+// 列表、聚合的排序和筛选规则与 Supabase 实现（SQL 函数）保持一致。
+import { createJsonFile } from "@/lib/localJsonFile";
+import { PromptTemplateConflictError } from "@/lib/promptTemplates/options";
+import type { IngestJob } from "@/types/job";
+import type { PromptTemplate } from "@/types/prompt";
+import type {
+  DocumentLookup,
+  DocumentRecord,
+  DocumentSummary,
+  FacetCount,
+  RecordStore,
+  RunRecord,
+  RunSummary,
+} from "./types";
+
+type LocalData = {
+  nextDocumentId: number;
+  nextRunId: number;
+  documents: DocumentRecord[];
+  jobs: IngestJob[];
+  runs: RunRecord[];
+  // 老文件没有这两个字段
+  nextPromptTemplateId?: number;
+  promptTemplates?: PromptTemplate[];
+};
+
+// 运行记录只保留最近这么多条，本地文件不会无限变大
+const MAX_LOCAL_RUNS = 500;
+
+function toSummary(doc: DocumentRecord): DocumentSummary {
+  return {
+    id: doc.id,
+    name: doc.name,
+    content_hash: doc.content_hash,
+    metadata: doc.metadata,
+  };
+}
+
+function toRunSummary(run: RunRecord): RunSummary {
+  const pick = <T>(key: string) => (run[key] ?? null) as T;
+  return {
+    id: run.id as number,
+    question: run.question as string,
+    answer: pick("answer"),
+    topk: pick("topk"),
+    threshold: pick("threshold"),
+    matched_count: pick("matched_count"),
+    duration_ms: pick("duration_ms"),
+    groundedness: pick("groundedness"),
+    prompt_template: pick("prompt_template"),
+    prompt_template_version: pick("prompt_template_version"),
+    created_at: run.created_at as string,
+  };
+}
+
+// 与 document_folders() 同语义：目录本身或其子目录
+function inFolder(doc: DocumentRecord, folder: string) {
+  const category = doc.metadata?.category ?? "";
+  return category === folder || category.startsWith(`${folder}/`);
+}
+
+// 🔢 按 key 计数，结果按 key 排序（与 SQL 的 group by + order by 一致）
+function countBy(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function matchesLookup(doc: DocumentRecord, lookup: DocumentLookup) {
+  if ("content_hash" in lookup) return doc.content_hash === lookup.content_hash;
+  if ("name" in lookup) return doc.name === lookup.name;
+  if ("source_url" in lookup) return doc.source_url === lookup.source_url;
+  return doc.metadata?.path === lookup.import_path;
+}
+
+// 与 Supabase 实现一样按 created_at 排序，同一毫秒内写入的按 id
+function compareCreated(a: DocumentRecord, b: DocumentRecord) {
+  return a.created_at.localeCompare(b.created_at) || a.id - b.id;
+}
+
+export function createLocalRecordStore(filePath: string): RecordStore {
+  const { read, mutate } = createJsonFile<LocalData>(filePath, () => ({
+    nextDocumentId: 1,
+    nextRunId: 1,
+    documents: [],
+    jobs: [],
+    runs: [],
+  }));
+
+  return {
+    name: "local",
+
+    insertDocument(fields) {
+      return mutate((d) => {
+        const doc: DocumentRecord = {
+          name: "",
+          content: "",
+          content_hash: null,
+          format: null,
+          pages: null,
+          chunk_size: null,
+          chunk_overlap: null,
+          source_url: null,
+          metadata: null,
+          index_status: null,
+          indexed_chunks: null,
+          failed_chunks: null,
+          ...fields,
+          id: d.nextDocumentId++,
+          created_at: new Date().toISOString(),
+        };
+        d.documents.push(doc);
+        return toSummary(doc);
+      });
+    },
+
+    updateDocument(id, fields) {
+      return mutate((d) => {
+        const idx = d.documents.findIndex((doc) => doc.id === id);
+        if (idx === -1) throw new Error(`Document ${id} not found`);
+        d.documents[idx] = { ...d.documents[idx], ...fields };
+        return toSummary(d.documents[idx]);
+      });
+    },
+
+    async getDocument(id) {
+      const d = await read();
+      return d.documents.find((doc) => doc.id === id) ?? null;
+    },
+
+    async findDocument(lookup, order) {
+      const d = await read();
+      const hits = d.documents
+        .filter((doc) => matchesLookup(doc, lookup))
+        .sort(compareCreated);
+      const hit = order === "oldest" ? hits[0] : hits[hits.length - 1];
+      return hit ? toSummary(hit) : null;
+    },
+
+    async listDocumentsByTag(tag, limit) {
+      const d = await read();
+      return d.documents
+        .filter((doc) => doc.metadata?.tags?.includes(tag))
+        .sort((a, b) => compareCreated(b, a))
+        .slice(0, limit)
+        .map(toSummary);
+    },
+
+    async listDocuments({ search, folder, offset, limit }) {
+      const d = await read();
+      const hits = d.documents
+        .filter(
+          (doc) =>
+            (!search ||
+              doc.name.toLowerCase().includes(search.toLowerCase())) &&
+            (!folder || inFolder(doc, folder))
+        )
+        .sort((a, b) => compareCreated(b, a));
+      return { items: hits.slice(offset, offset + limit), total: hits.length };
+    },
+
+    deleteDocument(id) {
+      return mutate((d) => {
+        const before = d.documents.length;
+        d.documents = d.documents.filter((doc) => doc.id !== id);
+        return d.documents.length < before;
+      });
+    },
+
+    async listFolders() {
+      const d = await read();
+      return countBy(
+        d.documents.map((doc) => doc.metadata?.category ?? "").filter(Boolean)
+      ).map(([folder, document_count]) => ({ folder, document_count }));
+    },
+
+    async listFacets() {
+      const d = await read();
+      const facet =
+        (kind: FacetCount["kind"]) =>
+        ([value, document_count]: [string, number]): FacetCount => ({
+          kind,
+          value,
+          document_count,
+        });
+      return [
+        ...countBy(
+          d.documents
+            .map((doc) => doc.metadata?.department ?? "")
+            .filter(Boolean)
+        ).map(facet("department")),
+        ...countBy(d.documents.flatMap((doc) => doc.metadata?.tags ?? [])).map(
+          facet("tag")
+        ),
+      ];
+    },
+
+    insertJob(job) {
+      return mutate((d) => {
+        d.jobs.push(job);
+      });
+    },
+
+    updateJob(id, patch) {
+      return mutate((d) => {
+        const idx = d.jobs.findIndex((job) => job.id === id);
+        if (idx !== -1) d.jobs[idx] = { ...d.jobs[idx], ...patch };
+      });
+    },
+
+    async getJob(id) {
+      const d = await read();
+      return d.jobs.find((job) => job.id === id) ?? null;
+    },
+
+    insertRun(run) {
+      return mutate((d) => {
+        d.runs.push({
+          ...run,
+          id: d.nextRunId++,
+          created_at: new Date().toISOString(),
+        });
+        d.runs = d.runs.slice(-MAX_LOCAL_RUNS);
+      });
+    },
+
+    // 按写入顺序追加，倒过来就是新的在前
+    async listRuns(offset, limit) {
+      const d = await read();
+      const runs = [...d.runs].reverse();
+      return {
+        items: runs.slice(offset, offset + limit).map(toRunSummary),
+        total: runs.length,
+      };
+    },
+
+    async getRun(id) {
+      const d = await read();
+      return d.runs.find((run) => run.id === id) ?? null;
+    },
+
+    async listPromptTemplates() {
+      const d = await read();
+      return [...(d.promptTemplates ?? [])].sort(
+        (a, b) =>
+          (a.name < b.name ? -1 : a.name > b.name ? 1 : 0) ||
+          b.version - a.version
+      );
+    },
+
+    async getPromptTemplate(id) {
+      const d = await read();
+      return d.promptTemplates?.find((t) => t.id === id) ?? null;
+    },
+
+    async findPromptTemplate(lookup) {
+      const d = await read();
+      const templates = d.promptTemplates ?? [];
+      if ("default" in lookup) {
+        return templates.find((t) => t.is_default) ?? null;
+      }
+      const versions = templates
+        .filter((t) => t.name === lookup.name)
+        .sort((a, b) => b.version - a.version);
+      return lookup.version !== null
+        ? (versions.find((t) => t.version === lookup.version) ?? null)
+        : (versions[0] ?? null);
+    },
+
+    insertPromptTemplate(draft) {
+      return mutate((d) => {
+        d.promptTemplates ??= [];
+        if (
+          d.promptTemplates.some(
+            (t) => t.name === draft.name && t.version === draft.version
+          )
+        ) {
+          throw new PromptTemplateConflictError(draft.name);
+        }
+        const template: PromptTemplate = {
+          ...draft,
+          id: (d.nextPromptTemplateId ??= 1),
+          is_default: false,
+          created_at: new Date().toISOString(),
+        };
+        d.nextPromptTemplateId++;
+        d.promptTemplates.push(template);
+        return template;
+      });
+    },
+
+    setDefaultPromptTemplate(id) {
+      return mutate((d) => {
+        const templates = d.promptTemplates ?? [];
+        if (!templates.some((t) => t.id === id)) {
+          throw new Error(`prompt template ${id} not found`);
+        }
+        for (const t of templates) t.is_default = t.id === id;
+      });
+    },
+  };
+}
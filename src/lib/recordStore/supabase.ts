@@ -0,0 +1,257 @@
+// src/lib/recordStore/supabase.ts
+// 🐘 Supabase 实现：documents / ingest_jobs / run_history / prompt_templates 四张表
+import { supabase } from "@/lib/supabaseClient";
+import { PromptTemplateConflictError } from "@/lib/promptTemplates/options";
+import type { PromptTemplate } from "@/types/prompt";
+import type {
+  DocumentLookup,
+  DocumentRecord,
+  DocumentSummary,
+  FacetCount,
+  FolderCount,
+  RecordStore,
+  RunSummary,
+} from "./types";
+
+const SUMMARY_COLUMNS = "id, name, content_hash, metadata";
+const DOCUMENT_COLUMNS =
+  "id, name, content, content_hash, format, pages, chunk_size, chunk_overlap, source_url, metadata, index_status, indexed_chunks, failed_chunks, created_at";
+
+const RUN_SUMMARY_COLUMNS =
+  "id, question, answer, topk, threshold, matched_count, duration_ms, groundedness, prompt_template, prompt_template_version, created_at";
+const TEMPLATE_COLUMNS =
+  "id, name, version, description, system_prompt, user_prompt, is_default, created_at";
+
+const LOOKUP_COLUMNS: Record<string, string> = {
+  content_hash: "content_hash",
+  name: "name",
+  source_url: "source_url",
+  import_path: "metadata->>path",
+};
+
+function lookupColumn(lookup: DocumentLookup) {
+  const [key, value] = Object.entries(lookup)[0] as [string, string];
+  return { column: LOOKUP_COLUMNS[key], value };
+}
+
+export const supabaseRecordStore: RecordStore = {
+  name: "supabase",
+
+  async insertDocument(fields) {
+    const { data, error } = await supabase
+      .from("documents")
+      .insert(fields)
+      .select(SUMMARY_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data as DocumentSummary;
+  },
+
+  async updateDocument(id, fields) {
+    const { data, error } = await supabase
+      .from("documents")
+      .update(fields)
+      .eq("id", id)
+      .select(SUMMARY_COLUMNS)
+      .single();
+    if (error) throw error;
+    return data as DocumentSummary;
+  },
+
+  async getDocument(id) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select(DOCUMENT_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as DocumentRecord | null) ?? null;
+  },
+
+  async findDocument(lookup, order) {
+    const { column, value } = lookupColumn(lookup);
+    const { data, error } = await supabase
+      .from("documents")
+      .select(SUMMARY_COLUMNS)
+      .eq(column, value)
+      .order("created_at", { ascending: order === "oldest" })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as DocumentSummary | null) ?? null;
+  },
+
+  async listDocumentsByTag(tag, limit) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select(SUMMARY_COLUMNS)
+      .filter("metadata->tags", "cs", JSON.stringify([tag]))
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data ?? []) as DocumentSummary[];
+  },
+
+  async listDocuments({ search, folder, offset, limit }) {
+    let query = supabase
+      .from("documents")
+      .select(DOCUMENT_COLUMNS, { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (search) {
+      // 按 name 模糊搜索
+      query = query.ilike("name", `%${search}%`);
+    }
+
+    if (folder) {
+      // 📁 目录本身 + 所有子目录；值加引号转义，避免目录名里的逗号 / 括号破坏 or 语法
+      // like 里再转义通配符：% _ 用反斜杠转义；PostgREST 会把 * 一律当成 %，只能退成单字符通配 _
+      const quote = (v: string) => v.replace(/["\\]/g, "\\$&");
+      const pattern = folder.replace(/[\\%_]/g, "\\$&").replace(/\*/g, "_");
+      query = query.or(
+        `metadata->>category.eq."${quote(folder)}",metadata->>category.like."${quote(pattern)}/*"`
+      );
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+    return { items: (data ?? []) as DocumentRecord[], total: count ?? 0 };
+  },
+
+  async deleteDocument(id) {
+    const { data, error } = await supabase
+      .from("documents")
+      .delete()
+      .eq("id", id)
+      .select("id");
+    if (error) throw error;
+    return !!data?.length;
+  },
+
+  // 聚合放在数据库函数里做，不把整张 documents 表拉回 Node 再分组；bigint 计数转成 number
+  async listFolders() {
+    const { data, error } = await supabase.rpc("document_folders");
+    if (error) throw error;
+    return ((data ?? []) as FolderCount[]).map((r) => ({
+      folder: r.folder,
+      document_count: Number(r.document_count),
+    }));
+  },
+
+  async listFacets() {
+    const { data, error } = await supabase.rpc("document_facets");
+    if (error) throw error;
+    return ((data ?? []) as FacetCount[]).map((r) => ({
+      kind: r.kind,
+      value: r.value,
+      document_count: Number(r.document_count),
+    }));
+  },
+
+  async insertJob(job) {
+    const { error } = await supabase.from("ingest_jobs").insert(job);
+    if (error) throw error;
+  },
+
+  async updateJob(id, patch) {
+    const { error } = await supabase
+      .from("ingest_jobs")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async getJob(id) {
+    const { data, error } = await supabase
+      .from("ingest_jobs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ?? null;
+  },
+
+  async insertRun(run) {
+    const { error } = await supabase.from("run_history").insert(run);
+    if (error) throw error;
+  },
+
+  async listRuns(offset, limit) {
+    const { data, error, count } = await supabase
+      .from("run_history")
+      .select(RUN_SUMMARY_COLUMNS, { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { items: (data ?? []) as RunSummary[], total: count ?? 0 };
+  },
+
+  async getRun(id) {
+    const { data, error } = await supabase
+      .from("run_history")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ?? null;
+  },
+
+  async listPromptTemplates() {
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .select(TEMPLATE_COLUMNS)
+      .order("name", { ascending: true })
+      .order("version", { ascending: false });
+    if (error) throw error;
+    return (data ?? []) as PromptTemplate[];
+  },
+
+  async getPromptTemplate(id) {
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .select(TEMPLATE_COLUMNS)
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as PromptTemplate | null) ?? null;
+  },
+
+  async findPromptTemplate(lookup) {
+    let query = supabase.from("prompt_templates").select(TEMPLATE_COLUMNS);
+    if ("default" in lookup) {
+      query = query.eq("is_default", true);
+    } else {
+      query = query.eq("name", lookup.name);
+      query =
+        lookup.version !== null
+          ? query.eq("version", lookup.version)
+          : query.order("version", { ascending: false }).limit(1);
+    }
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return (data as PromptTemplate | null) ?? null;
+  },
+
+  async insertPromptTemplate(draft) {
+    const { data, error } = await supabase
+      .from("prompt_templates")
+      .insert(draft)
+      .select(TEMPLATE_COLUMNS)
+      .single();
+    // unique (name, version) 冲突
+    if (error?.code === "23505") {
+      throw new PromptTemplateConflictError(draft.name);
+    }
+    if (error) throw error;
+    return data as PromptTemplate;
+  },
+
+  // 切换在数据库函数的一个事务里完成
+  async setDefaultPromptTemplate(id) {
+    const { error } = await supabase.rpc("set_default_prompt_template", {
+      template_id: id,
+    });
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,125 @@
+// src/lib/recordStore/types.ts
+import type { PageSpan } from "@/lib/extractors";
+import type { DocumentMetadata, IndexStatus } from "@/types/document";
+import type { IngestJob } from "@/types/job";
+import type { PromptTemplate, PromptTemplateDraft } from "@/types/prompt";
+
+// 📄 documents 行：入库、重建索引和工具调用用到的列
+export type DocumentRecord = {
+  id: number;
+  name: string;
+  content: string;
+  content_hash: string | null;
+  format: string | null;
+  pages: PageSpan[] | null;
+  chunk_size: number | null;
+  chunk_overlap: number | null;
+  source_url: string | null;
+  metadata: DocumentMetadata | null;
+  index_status: IndexStatus | null;
+  indexed_chunks: number | null;
+  failed_chunks: number | null;
+  created_at: string;
+};
+
+export type DocumentFields = Partial<Omit<DocumentRecord, "id" | "created_at">>;
+
+// 查重 / 列表只需要这几列，不用把全文带出来
+export type DocumentSummary = Pick<
+  DocumentRecord,
+  "id" | "name" | "content_hash" | "metadata"
+>;
+
+// 🔎 按哪一列找文档；import_path 对应 metadata.path（压缩包内的相对路径）
+export type DocumentLookup =
+  | { content_hash: string }
+  | { name: string }
+  | { source_url: string }
+  | { import_path: string };
+
+// 📋 文档列表：按名称模糊搜索 + 按目录筛选（包含子目录），新的在前
+export type DocumentListQuery = {
+  search: string;
+  folder: string;
+  offset: number;
+  limit: number;
+};
+
+export type Page<T> = { items: T[]; total: number };
+
+// 📁 压缩包导入产生的目录及文档数
+export type FolderCount = { folder: string; document_count: number };
+
+// 🏷️ 部门 / 标签及各自文档数
+export type FacetCount = {
+  kind: "department" | "tag";
+  value: string;
+  document_count: number;
+};
+
+// 📜 run_history 行：列随功能不断增加，存储层不关心具体字段
+export type RunRecord = Record<string, unknown>;
+
+// 运行历史列表只带这些列，steps / sources 等大字段在详情里再取
+export type RunSummary = {
+  id: number;
+  question: string;
+  answer: string | null;
+  topk: number | null;
+  threshold: number | null;
+  matched_count: number | null;
+  duration_ms: number | null;
+  groundedness: number | null;
+  prompt_template: string | null;
+  prompt_template_version: number | null;
+  created_at: string;
+};
+
+// 🔎 默认模板，或某个模板的指定版本（version 为 null 时取最新版本）
+export type PromptTemplateLookup =
+  { default: true } | { name: string; version: number | null };
+
+// 🗂️ 文档行 / 入库任务 / 运行记录 / 提示词模板：/api 和 lib 不再直接读写这些表，
+// 和 VectorStore 一样换一个实现就能脱离 Supabase 跑起来
+export interface RecordStore {
+  readonly name: string;
+  insertDocument(fields: DocumentFields): Promise<DocumentSummary>;
+  // 文档不存在时抛错
+  updateDocument(id: number, fields: DocumentFields): Promise<DocumentSummary>;
+  getDocument(id: number): Promise<DocumentRecord | null>;
+  findDocument(
+    lookup: DocumentLookup,
+    order: "oldest" | "newest"
+  ): Promise<DocumentSummary | null>;
+  // 带某个标签的文档，新的在前
+  listDocumentsByTag(tag: string, limit: number): Promise<DocumentSummary[]>;
+  listDocuments(query: DocumentListQuery): Promise<Page<DocumentRecord>>;
+  // 文档不存在时返回 false
+  deleteDocument(id: number): Promise<boolean>;
+  listFolders(): Promise<FolderCount[]>;
+  listFacets(): Promise<FacetCount[]>;
+
+  insertJob(job: IngestJob): Promise<void>;
+  updateJob(
+    id: string,
+    patch: Partial<Omit<IngestJob, "id" | "created_at">>
+  ): Promise<void>;
+  getJob(id: string): Promise<IngestJob | null>;
+
+  insertRun(run: RunRecord): Promise<void>;
+  listRuns(offset: number, limit: number): Promise<Page<RunSummary>>;
+  getRun(id: number): Promise<RunRecord | null>;
+
+  // 所有版本，同名的按版本倒序排在一起
+  listPromptTemplates(): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: number): Promise<PromptTemplate | null>;
+  findPromptTemplate(
+    lookup: PromptTemplateLookup
+  ): Promise<PromptTemplate | null>;
+  // 同名同版本已存在时抛 PromptTemplateConflictError
+  insertPromptTemplate(
+    draft: PromptTemplateDraft & { version: number }
+  ): Promise<PromptTemplate>;
+  // 取消旧的默认模板并设置新的，一次完成；模板不存在时抛错
+  setDefaultPromptTemplate(id: number): Promise<void>;
+}
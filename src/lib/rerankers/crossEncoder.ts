@@ -0,0 +1,62 @@
+// src/lib/rerankers/crossEncoder.ts
+import { RerankError, type Reranker } from "./types";
+
+// 🎯 Cross-encoder：调用兼容 Cohere / Jina / SiliconFlow 的 /rerank 接口（如 bge-reranker），
+// 问题和片段成对输入模型，精度通常高于双塔向量的余弦相似度。
+const RERANK_MODEL = process.env.RERANK_MODEL || "BAAI/bge-reranker-v2-m3";
+const RERANK_URL =
+  process.env.RERANK_API_URL ||
+  `${process.env.AI_BASE_URL || "https://api.siliconflow.cn/v1"}/rerank`;
+// ⏱️ 重排序服务卡住时不能拖住整个问答：超时按失败处理，/api/search 会退回未重排的顺序
+const RERANK_TIMEOUT_MS = 10_000;
+
+type RerankResponse = {
+  results?: { index: number; relevance_score: number }[];
+};
+
+export const crossEncoderReranker: Reranker = {
+  name: "cross-encoder",
+  async rerank(query, passages) {
+    const res = await fetch(RERANK_URL, {
+      signal: AbortSignal.timeout(RERANK_TIMEOUT_MS),
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.RERANK_API_KEY || process.env.AI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: RERANK_MODEL,
+        query,
+        documents: passages,
+        top_n: passages.length,
+        return_documents: false,
+      }),
+    }).catch((e) => {
+      if ((e as { name?: string } | null)?.name === "TimeoutError") {
+        throw new RerankError(
+          `Rerank request timed out after ${RERANK_TIMEOUT_MS}ms`
+        );
+      }
+      throw e;
+    });
+    if (!res.ok) {
+      throw new RerankError(
+        `Rerank request failed: ${res.status} ${await res.text()}`
+      );
+    }
+
+    const data = (await res.json()) as RerankResponse;
+    if (!Array.isArray(data.results)) {
+      throw new RerankError("Rerank response has no results");
+    }
+
+    // 接口按分数排序返回，这里按 index 还原成与输入对齐的数组
+    const scores = new Array<number>(passages.length).fill(0);
+    for (const r of data.results) {
+      if (r.index >= 0 && r.index < passages.length) {
+        scores[r.index] = r.relevance_score;
+      }
+    }
+    return scores;
+  },
+};
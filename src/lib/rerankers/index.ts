@@ -0,0 +1,50 @@
+// src/lib/rerankers/index.ts
+// 🧩 重排序器注册表：新增实现只需 registerReranker，/api/search 按名字取用。
+import { crossEncoderReranker } from "./crossEncoder";
+import { llmReranker } from "./llm";
+import type { RerankerName } from "./options";
+import type { Reranker } from "./types";
+
+export * from "./options";
+export * from "./types";
+
+const registry = new Map<RerankerName, Reranker>();
+
+export function registerReranker(reranker: Reranker) {
+  registry.set(reranker.name, reranker);
+}
+
+registerReranker(llmReranker);
+registerReranker(crossEncoderReranker);
+
+export function getReranker(name: RerankerName) {
+  const reranker = registry.get(name);
+  if (!reranker) throw new Error(`Unknown reranker: ${name}`);
+  return reranker;
+}
+
+export type Reranked<T> = T & {
+  rerank_score: number;
+  retrieval_rank: number; // 重排前的名次，用来对比重排是否改变了顺序
+};
+
+// 📊 给候选打分 → 按分数降序 → 取前 topN；同分保持原检索顺序
+export async function rerankChunks<T extends { content: string }>(
+  reranker: Reranker,
+  query: string,
+  chunks: T[],
+  topN: number
+): Promise<Reranked<T>[]> {
+  if (!chunks.length) return [];
+  const scores = await reranker.rerank(
+    query,
+    chunks.map((c) => c.content)
+  );
+  return chunks
+    .map((c, i) => ({ ...c, rerank_score: scores[i], retrieval_rank: i + 1 }))
+    .sort(
+      (a, b) =>
+        b.rerank_score - a.rerank_score || a.retrieval_rank - b.retrieval_rank
+    )
+    .slice(0, topN);
+}
@@ -0,0 +1,52 @@
+// src/lib/rerankers/llm.ts
+import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import { RerankError, type Reranker } from "./types";
+
+const MAX_PASSAGE_CHARS = 800; // 控制 prompt 长度，片段太长只看开头
+
+const SYSTEM_PROMPT = `你是检索结果的相关性评审员。给定一个问题和若干编号的文档片段，
+请判断每个片段对回答该问题的帮助程度，打 0~10 的整数分：
+10 = 直接包含答案；5 = 相关但不足以回答；0 = 无关。
+只输出 JSON，格式为 {"scores": [分数1, 分数2, ...]}，顺序与片段编号一致，不要输出其他内容。`;
+
+// 🤖 LLM 打分：一次请求给所有候选打分（listwise），比逐条调用便宜得多
+export const llmReranker: Reranker = {
+  name: "llm",
+  async rerank(query, passages) {
+    const numbered = passages
+      .map((p, i) => `[${i + 1}] ${p.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join("\n\n");
+
+    const completion = await aiClient.chat.completions.create({
+      model: AI_MODEL,
+      temperature: 0,
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `【问题】\n${query}\n\n【片段】\n${numbered}`,
+        },
+      ],
+    });
+
+    const raw = completion.choices?.[0]?.message?.content ?? "";
+    // 部分模型会包一层 ```json 代码块，取第一个 {...}
+    const json = raw.match(/\{[\s\S]*\}/)?.[0];
+    let scores: unknown;
+    try {
+      scores = json ? JSON.parse(json).scores : undefined;
+    } catch {
+      scores = undefined;
+    }
+
+    if (
+      !Array.isArray(scores) ||
+      scores.length !== passages.length ||
+      scores.some((s) => typeof s !== "number")
+    ) {
+      throw new RerankError(`LLM reranker returned invalid scores: ${raw}`);
+    }
+
+    return (scores as number[]).map((s) => Math.min(Math.max(s / 10, 0), 1));
+  },
+};
@@ -0,0 +1,20 @@
+// src/lib/rerankers/options.ts
+// 🎛️ 前端可选的重排序方式（不依赖任何服务端模块，配置面板可以直接 import）
+
+export type RerankerName = "llm" | "cross-encoder";
+export type RerankerChoice = RerankerName | "none";
+
+export const RERANKER_OPTIONS: { value: RerankerChoice; label: string }[] = [
+  { value: "none", label: "关闭" },
+  { value: "llm", label: "LLM 打分" },
+  { value: "cross-encoder", label: "Cross-encoder" },
+];
+
+export const RERANK_OVERFETCH = 3; // 开启重排时先召回 topK × 3 条候选
+export const RERANK_MAX_CANDIDATES = 30;
+
+export function normalizeRerankerChoice(value: unknown): RerankerChoice {
+  return RERANKER_OPTIONS.some((o) => o.value === value)
+    ? (value as RerankerChoice)
+    : "none";
+}
@@ -0,0 +1,17 @@
+// src/lib/rerankers/types.ts
+import type { RerankerName } from "./options";
+
+// 🧮 重排序器：给每个候选片段打一个与问题的相关度分数（0~1，越大越相关），
+// 返回数组与 passages 一一对应，排序和截断由调用方统一处理。
+export interface Reranker {
+  name: RerankerName;
+  rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+// ❌ 重排序服务返回的数据不可用（条数对不上、格式不对等）
+export class RerankError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RerankError";
+  }
+}
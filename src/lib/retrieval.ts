@@ -0,0 +1,144 @@
+// src/lib/retrieval.ts
+// 🔍 检索层：向量检索 + 关键词检索（都由 VectorStore 执行）并行进行，
+// 再用加权 RRF 融合成一份候选列表。/api/search 只关心“给我 TopK 条片段”。
+import { getVectorStore } from "@/lib/vectorStore";
+import {
+  EmbeddingDimensionError,
+  embeddingModelId,
+  type EmbeddingModelConfig,
+} from "@/lib/embedClient";
+import {
+  extractKeywords,
+  mergeRankedLists,
+  reciprocalRankFusion,
+  type FusedHit,
+} from "@/lib/hybrid";
+import type { ExpandedQuery } from "@/lib/expansion/options";
+import type { MetadataFilter } from "@/types/document";
+
+export type MatchRow = {
+  id: number;
+  document_id: number;
+  content: string;
+  heading_path?: string | null;
+  start_offset?: number | null;
+  end_offset?: number | null;
+  page_start?: number | null;
+  page_end?: number | null;
+  similarity?: number; // 仅向量侧命中时有
+  keyword_score?: number; // 仅关键词侧命中时有
+};
+
+export type RetrievedChunk = FusedHit<MatchRow> & {
+  matched_queries?: number; // 查询扩展时：被几条查询同时召回
+};
+
+export type RetrievalOptions = {
+  embedding: EmbeddingModelConfig; // 查询向量的模型，只和同一模型的分片向量比较
+  topK: number;
+  threshold: number; // 只作用于向量侧
+  filter: MetadataFilter | null;
+  keywordWeight: number; // 0 = 纯向量，1 = 纯关键词
+};
+
+export type RetrievalResult = {
+  matches: RetrievedChunk[];
+  keywords: string[];
+  vectorCount: number;
+  keywordCount: number;
+  perQuery?: { query: ExpandedQuery; count: number }[]; // 查询扩展时每条查询的命中数
+};
+
+// 每路多取一些候选再融合，否则只在一路靠后的片段没有机会被另一路“顶上来”
+const CANDIDATE_MULTIPLIER = 4;
+const MAX_CANDIDATES = 50;
+
+export async function hybridRetrieve(
+  question: string,
+  queryVector: number[],
+  options: RetrievalOptions
+): Promise<RetrievalResult> {
+  const candidates = Math.min(
+    options.topK * CANDIDATE_MULTIPLIER,
+    MAX_CANDIDATES
+  );
+  const keywords = extractKeywords(question);
+  const store = await getVectorStore();
+
+  const vectorSearch = async (): Promise<MatchRow[]> => {
+    if (options.keywordWeight >= 1) return [];
+    // 🛑 维度都对不上的向量比较没有意义，直接报错而不是返回一堆随机结果
+    if (queryVector.length !== options.embedding.dimensions) {
+      throw new EmbeddingDimensionError(options.embedding, queryVector.length);
+    }
+    return store.search(queryVector, {
+      model: embeddingModelId(options.embedding),
+      threshold: options.threshold,
+      limit: candidates,
+      filter: options.filter,
+    });
+  };
+
+  const keywordSearch = async (): Promise<MatchRow[]> => {
+    if (options.keywordWeight <= 0 || !keywords.length) return [];
+    return store.keywordSearch(keywords, {
+      limit: candidates,
+      filter: options.filter,
+    });
+  };
+
+  const [vectorHits, keywordHits] = await Promise.all([
+    vectorSearch(),
+    keywordSearch(),
+  ]);
+
+  const matches = reciprocalRankFusion(
+    vectorHits,
+    keywordHits,
+    options.keywordWeight
+  ).slice(0, options.topK);
+
+  return {
+    matches,
+    keywords,
+    vectorCount: vectorHits.length,
+    keywordCount: keywordHits.length,
+  };
+}
+
+// 🧬 查询扩展：每条查询各自做一次混合检索，再按 RRF 合并去重取前 topK。
+// HyDE 是一段“假设答案”，抽关键词噪音太大，只走向量检索。
+export async function multiRetrieve(
+  queries: ExpandedQuery[],
+  vectors: number[][],
+  options: RetrievalOptions
+): Promise<RetrievalResult> {
+  const results = await Promise.all(
+    queries.map((q, i) =>
+      hybridRetrieve(q.text, vectors[i], {
+        ...options,
+        keywordWeight: q.kind === "hyde" ? 0 : options.keywordWeight,
+      })
+    )
+  );
+
+  return {
+    matches: mergeRankedLists(results.map((r) => r.matches)).slice(
+      0,
+      options.topK
+    ),
+    keywords: Array.from(
+      new Set(
+        results.flatMap((r, i) =>
+          queries[i].kind === "hyde" ? [] : r.keywords
+        )
+      )
+    ),
+    vectorCount: results.reduce((n, r) => n + r.vectorCount, 0),
+    keywordCount: results.reduce((n, r) => n + r.keywordCount, 0),
+    perQuery: results.map((r, i) => ({
+      query: queries[i],
+      count: r.matches.length,
+    })),
+  };
+}
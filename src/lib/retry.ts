@@ -0,0 +1,59 @@
+// src/lib/retry.ts
+// 🔁 指数退避重试：限流（429）和服务端临时错误（5xx / 网络抖动）才重试，参数错误直接抛出
+
+export type RetryOptions = {
+  retries: number; // 最多重试次数（不含首次）
+  baseDelayMs: number; // 第一次重试前的等待，之后每次翻倍
+  maxDelayMs: number;
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+};
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+function statusOf(err: unknown): number | undefined {
+  if (!err || typeof err !== "object") return undefined;
+  const e = err as { status?: unknown; response?: { status?: unknown } };
+  const status = e.status ?? e.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+export function isRetryableError(err: unknown) {
+  const status = statusOf(err);
+  if (status !== undefined) return status === 429 || status >= 500;
+
+  // 没有 HTTP 状态码：多半是超时 / 连接被重置，按可重试处理
+  const message = err instanceof Error ? err.message : String(err);
+  return /rate limit|timeout|timed out|ECONNRESET|ETIMEDOUT|fetch failed|socket hang up/i.test(
+    message
+  );
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const opts = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= opts.retries || !isRetryableError(err)) throw err;
+
+      // 加一点随机抖动，避免并发请求同时醒来再次撞上限流
+      const delay = Math.min(
+        opts.maxDelayMs,
+        opts.baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4)
+      );
+      opts.onRetry?.(err, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
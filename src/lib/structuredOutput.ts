@@ -0,0 +1,385 @@
+// src/lib/structuredOutput.ts
+// 🧾 结构化输出：调用方给一个 JSON Schema，模型按 schema 输出 JSON 而不是中文段落。
+// 支持 json_schema 的平台用 response_format 约束生成，其余平台退回 JSON mode + 把 schema 写进提示词；
+// 两种情况都在本地再校验一遍，不符合时把错误列表回给模型修复一次，仍不符合就报错。
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { aiClient, AI_MODEL, AI_PROVIDER } from "@/lib/ai-client";
+
+export type StructuredOutputMode = "json_schema" | "json_object";
+
+export type JsonSchemaType =
+  "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+// 只支持常用的一小部分关键字，足够描述 “字段 + 类型 + 枚举” 这类业务结果
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+export const MAX_SCHEMA_DEPTH = 8;
+
+const SCHEMA_TYPES: JsonSchemaType[] = [
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+];
+const NUMBER_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "minItems",
+  "maxItems",
+] as const;
+const KNOWN_KEYWORDS = new Set([
+  "type",
+  "description",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "title",
+  ...NUMBER_KEYWORDS,
+]);
+
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// ❌ 调用方给的 schema 本身不合法（或用了不支持的关键字）→ 400
+export class InvalidSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSchemaError";
+  }
+}
+
+// ❌ 修复一次后模型输出仍不符合 schema → 422，附上最后一次的原始输出和错误
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly raw: string,
+    readonly errors: string[]
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkSchema(input: unknown, path: string, depth: number): JsonSchema {
+  if (depth > MAX_SCHEMA_DEPTH) {
+    throw new InvalidSchemaError(`${path}: schema is nested too deeply`);
+  }
+  if (!isPlainObject(input)) {
+    throw new InvalidSchemaError(`${path}: schema must be an object`);
+  }
+  const unknown = Object.keys(input).filter((k) => !KNOWN_KEYWORDS.has(k));
+  if (unknown.length) {
+    throw new InvalidSchemaError(
+      `${path}: unsupported keywords ${unknown.join(", ")}`
+    );
+  }
+
+  const schema: JsonSchema = {};
+  if (input.type !== undefined) {
+    const types = Array.isArray(input.type) ? input.type : [input.type];
+    if (
+      !types.length ||
+      !types.every((t) => SCHEMA_TYPES.includes(t as JsonSchemaType))
+    ) {
+      throw new InvalidSchemaError(`${path}.type: unsupported type`);
+    }
+    schema.type = input.type as JsonSchema["type"];
+  }
+  if (input.description !== undefined) {
+    if (typeof input.description !== "string") {
+      throw new InvalidSchemaError(`${path}.description must be a string`);
+    }
+    schema.description = input.description;
+  }
+  if (input.properties !== undefined) {
+    if (!isPlainObject(input.properties)) {
+      throw new InvalidSchemaError(`${path}.properties must be an object`);
+    }
+    schema.properties = Object.fromEntries(
+      Object.entries(input.properties).map(([key, value]) => [
+        key,
+        checkSchema(value, `${path}.properties.${key}`, depth + 1),
+      ])
+    );
+  }
+  if (input.required !== undefined) {
+    if (
+      !Array.isArray(input.required) ||
+      !input.required.every((k) => typeof k === "string")
+    ) {
+      throw new InvalidSchemaError(`${path}.required must be a string array`);
+    }
+    schema.required = input.required as string[];
+  }
+  if (input.additionalProperties !== undefined) {
+    if (typeof input.additionalProperties !== "boolean") {
+      throw new InvalidSchemaError(
+        `${path}.additionalProperties must be a boolean`
+      );
+    }
+    schema.additionalProperties = input.additionalProperties;
+  }
+  if (input.items !== undefined) {
+    schema.items = checkSchema(input.items, `${path}.items`, depth + 1);
+  }
+  if (input.enum !== undefined) {
+    if (
+      !Array.isArray(input.enum) ||
+      !input.enum.length ||
+      !input.enum.every((v) => v === null || typeof v !== "object")
+    ) {
+      throw new InvalidSchemaError(
+        `${path}.enum must be a non-empty array of scalars`
+      );
+    }
+    schema.enum = input.enum as JsonSchema["enum"];
+  }
+  for (const key of NUMBER_KEYWORDS) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new InvalidSchemaError(`${path}.${key} must be a number`);
+    }
+    schema[key] = value;
+  }
+  return schema;
+}
+
+// 🧹 校验调用方传来的 schema：根节点必须是 object，只保留支持的关键字
+export function normalizeJsonSchema(input: unknown): JsonSchema {
+  const schema = checkSchema(input, "$", 0);
+  if (schema.type !== "object" || !schema.properties) {
+    throw new InvalidSchemaError(
+      "$: root schema must be an object with properties"
+    );
+  }
+  return schema;
+}
+
+export function normalizeSchemaName(name: unknown) {
+  return typeof name === "string" && SCHEMA_NAME_PATTERN.test(name)
+    ? name
+    : "answer";
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonSchemaType;
+}
+
+// ✅ 返回所有不符合的地方（路径 + 原因），空数组表示通过
+export function validateJson(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches =
+      allowed.includes(actual) ||
+      (actual === "integer" && allowed.includes("number"));
+    if (!matches)
+      return [`${path}: expected ${allowed.join(" | ")}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: must be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: length must be >= ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: length must be <= ${schema.maxLength}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have >= ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have <= ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(...validateJson(item, schema.items!, `${path}[${i}]`))
+      );
+    }
+  }
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(value, key))
+        errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const child = schema.properties?.[key];
+      if (child) {
+        errors.push(...validateJson(item, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+  return errors;
+}
+
+// 🔒 OpenAI strict 模式要求每层 object 都列出全部 required 且禁止额外字段，也不接受 minimum / minLength / minItems 这类范围约束；
+// 不满足时用非 strict，仍由本地校验兜底
+export function isStrictCompatible(schema: JsonSchema): boolean {
+  if (NUMBER_KEYWORDS.some((k) => schema[k] !== undefined)) {
+    return false;
+  }
+  if (schema.properties) {
+    const keys = Object.keys(schema.properties);
+    if (
+      schema.additionalProperties !== false ||
+      keys.some((k) => !schema.required?.includes(k)) ||
+      !Object.values(schema.properties).every(isStrictCompatible)
+    ) {
+      return false;
+    }
+  }
+  return schema.items ? isStrictCompatible(schema.items) : true;
+}
+
+// ⚙️ 只有确认支持 json_schema 的平台才用，其余平台用 JSON mode；AI_STRUCTURED_OUTPUT 可覆盖
+export function getStructuredOutputMode(): StructuredOutputMode {
+  const configured = process.env.AI_STRUCTURED_OUTPUT;
+  if (configured === "json_schema" || configured === "json_object") {
+    return configured;
+  }
+  return AI_PROVIDER === "openai" ? "json_schema" : "json_object";
+}
+
+export type StructuredOutputOptions = {
+  messages: ChatCompletionMessageParam[]; // 已经组装好的提示词（系统提示词里应包含 schema 说明）
+  schema: JsonSchema;
+  name: string;
+  maxTokens: number;
+};
+
+export type StructuredOutputResult = {
+  data: unknown;
+  mode: StructuredOutputMode;
+  attempts: number; // 1 = 一次通过，2 = 修复后通过
+  repairErrors: string[]; // 第一次输出的问题（一次通过时为空）
+};
+
+function parseOutput(raw: string, schema: JsonSchema) {
+  // JSON mode 下部分模型仍会包一层 ```json 代码块
+  const json = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return {
+      data: undefined,
+      errors: [
+        `$: invalid JSON (${e instanceof Error ? e.message : String(e)})`,
+      ],
+    };
+  }
+  return { data, errors: validateJson(data, schema) };
+}
+
+export async function generateStructured(
+  options: StructuredOutputOptions
+): Promise<StructuredOutputResult> {
+  const mode = getStructuredOutputMode();
+  const responseFormat =
+    mode === "json_schema"
+      ? {
+          type: "json_schema" as const,
+          json_schema: {
+            name: options.name,
+            schema: options.schema,
+            strict: isStrictCompatible(options.schema),
+          },
+        }
+      : { type: "json_object" as const };
+
+  const complete = async (messages: ChatCompletionMessageParam[]) => {
+    const completion = await aiClient.chat.completions.create({
+      model: AI_MODEL,
+      temperature: 0,
+      max_tokens: options.maxTokens,
+      response_format: responseFormat,
+      messages,
+    });
+    const raw = completion.choices?.[0]?.message?.content ?? "";
+    return { raw, ...parseOutput(raw, options.schema) };
+  };
+
+  const first = await complete(options.messages);
+  if (!first.errors.length) {
+    return { data: first.data, mode, attempts: 1, repairErrors: [] };
+  }
+
+  // 🔧 修复：把原输出和错误列表交回模型，只改错的地方
+  const repaired = await complete([
+    ...options.messages,
+    { role: "assistant", content: first.raw },
+    {
+      role: "user",
+      content: `上面的输出不符合要求的 JSON Schema：\n${first.errors
+        .map((e) => `- ${e}`)
+        .join(
+          "\n"
+        )}\n请修正这些问题，只输出修正后的完整 JSON，不要输出其他内容。`,
+    },
+  ]);
+  if (repaired.errors.length) {
+    throw new StructuredOutputError(
+      "Model output does not match the schema after one repair attempt",
+      repaired.raw,
+      repaired.errors
+    );
+  }
+  return {
+    data: repaired.data,
+    mode,
+    attempts: 2,
+    repairErrors: first.errors,
+  };
+}
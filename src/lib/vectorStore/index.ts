@@ -0,0 +1,39 @@
+// src/lib/vectorStore/index.ts
+// 🧩 向量库选择：VECTOR_STORE=local 时用本地 JSON 文件（路径 VECTOR_STORE_PATH），默认 Supabase。
+// 两个实现都按需 import；文档行 / 任务 / 运行记录走同一个开关（见 recordStore），本地模式下整条链路不连 Supabase。
+import path from "path";
+import type { VectorStore } from "./types";
+
+export * from "./types";
+
+const DEFAULT_LOCAL_PATH = ".data/vector-store.json";
+
+let store: Promise<VectorStore> | null = null;
+
+async function createVectorStore(kind: string): Promise<VectorStore> {
+  if (kind === "local") {
+    const { createLocalVectorStore } = await import("./local");
+    return createLocalVectorStore(
+      path.resolve(process.env.VECTOR_STORE_PATH || DEFAULT_LOCAL_PATH)
+    );
+  }
+  if (kind === "supabase") {
+    const { supabaseVectorStore } = await import("./supabase");
+    return supabaseVectorStore;
+  }
+  throw new Error(`Unknown VECTOR_STORE: ${kind}`);
+}
+
+export function getVectorStore(): Promise<VectorStore> {
+  if (!store) {
+    const kind = process.env.VECTOR_STORE || "supabase";
+    store = createVectorStore(kind).then((s) => {
+      console.log(`🗄️ Using ${s.name} vector store`);
+      return s;
+    });
+    store.catch(() => {
+      store = null; // 配置写错时下次请求重新尝试，而不是永远返回同一个失败
+    });
+  }
+  return store;
+}
@@ -0,0 +1,273 @@
+// src/lib/vectorStore/local.ts
+// 💾 本地实现：分片 + 向量存成一个 JSON 文件，检索在进程内暴力计算余弦相似度。
+// 只为离线开发 / 集成测试准备（几千个分片以内够用），过滤与排序规则和 SQL 函数保持一致。
+import { embeddingModelId } from "@/lib/embedClient";
+import { createJsonFile } from "@/lib/localJsonFile";
+import type { DocumentMetadata, MetadataFilter } from "@/types/document";
+import type {
+  ChunkInput,
+  EmbeddingIndexState,
+  StoredChunk,
+  VectorStore,
+} from "./types";
+
+type LocalRecord = Omit<ChunkInput, "id"> & { id: number };
+
+type LocalData = {
+  nextId: number;
+  chunks: LocalRecord[];
+  metadata: Record<string, DocumentMetadata | null>; // key 为 document_id
+  indexState?: EmbeddingIndexState | null; // 老文件没有这个字段
+};
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// 与 SQL 的 document_matches_filter 同语义：部门命中其一、标签有交集、密级缺省按 internal
+export function documentMatchesFilter(
+  metadata: DocumentMetadata | null | undefined,
+  filter: MetadataFilter | null
+) {
+  if (!filter) return true;
+  const meta = metadata ?? {};
+  if (
+    filter.departments &&
+    !filter.departments.includes(meta.department ?? "")
+  ) {
+    return false;
+  }
+  if (filter.tags && !(meta.tags ?? []).some((t) => filter.tags!.includes(t))) {
+    return false;
+  }
+  if (
+    filter.confidentiality &&
+    !filter.confidentiality.includes(meta.confidentiality ?? "internal")
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// 文档内顺序：按原文偏移，没有偏移的排在后面再按 id
+function compareDocumentOrder(a: StoredChunk, b: StoredChunk) {
+  if (a.start_offset !== b.start_offset) {
+    if (a.start_offset === null) return 1;
+    if (b.start_offset === null) return -1;
+    return a.start_offset - b.start_offset;
+  }
+  return a.id - b.id;
+}
+
+// 返回给调用方时去掉向量，避免几百维的数组一路带进 sources / run_history
+function toStored(record: LocalRecord): StoredChunk {
+  return {
+    id: record.id,
+    document_id: record.document_id,
+    content: record.content,
+    heading_path: record.heading_path,
+    start_offset: record.start_offset,
+    end_offset: record.end_offset,
+    page_start: record.page_start,
+    page_end: record.page_end,
+  };
+}
+
+export function createLocalVectorStore(filePath: string): VectorStore {
+  const { read, mutate } = createJsonFile<LocalData>(filePath, () => ({
+    nextId: 1,
+    chunks: [],
+    metadata: {},
+  }));
+
+  const visible = (d: LocalData, filter: MetadataFilter | null) =>
+    d.chunks.filter((c) =>
+      documentMatchesFilter(d.metadata[c.document_id], filter)
+    );
+
+  const unmigrated = (d: LocalData, model: string) =>
+    d.chunks.filter(
+      (c) => c.embedding_model !== model && c.embedding_next_model !== model
+    );
+
+  return {
+    name: "local",
+
+    upsert(chunks) {
+      return mutate((d) => {
+        for (const { id, ...chunk } of chunks) {
+          const idx =
+            id === undefined ? -1 : d.chunks.findIndex((c) => c.id === id);
+          if (idx !== -1) {
+            d.chunks[idx] = { ...chunk, id: id! };
+          } else {
+            const newId = id ?? d.nextId;
+            d.chunks.push({ ...chunk, id: newId });
+            d.nextId = Math.max(d.nextId, newId + 1);
+          }
+        }
+      });
+    },
+
+    deleteByDocument(documentId, idRange) {
+      const inRange = (id: number) =>
+        (idRange?.after === undefined || id > idRange.after) &&
+        (idRange?.upTo === undefined || id <= idRange.upTo);
+      return mutate((d) => {
+        d.chunks = d.chunks.filter(
+          (c) => c.document_id !== documentId || !inRange(c.id)
+        );
+      });
+    },
+
+    async search(embedding, options) {
+      const d = await read();
+      return visible(d, options.filter)
+        .filter((c) => c.embedding_model === options.model)
+        .map((c) => ({
+          ...toStored(c),
+          similarity: cosineSimilarity(embedding, c.embedding),
+        }))
+        .filter((c) => c.similarity > options.threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, options.limit);
+    },
+
+    async keywordSearch(keywords, options) {
+      const terms = keywords.filter(Boolean).map((k) => k.toLowerCase());
+      if (!terms.length) return [];
+      const d = await read();
+      return visible(d, options.filter)
+        .map((c) => {
+          const haystack =
+            `${c.content}\n${c.heading_path ?? ""}`.toLowerCase();
+          const keyword_score = terms
+            .filter((t) => haystack.includes(t))
+            .reduce((n, t) => n + t.length, 0);
+          return { ...toStored(c), keyword_score };
+        })
+        .filter((c) => c.keyword_score > 0)
+        .sort((a, b) => b.keyword_score - a.keyword_score || a.id - b.id)
+        .slice(0, options.limit);
+    },
+
+    async neighbors(chunkIds, windowSize) {
+      const d = await read();
+      const hitDocs = new Set(
+        d.chunks
+          .filter((c) => chunkIds.includes(c.id))
+          .map((c) => c.document_id)
+      );
+      const result: (StoredChunk & { seq: number })[] = [];
+      for (const documentId of hitDocs) {
+        const ordered = d.chunks
+          .filter((c) => c.document_id === documentId)
+          .sort(compareDocumentOrder);
+        const hitSeqs = ordered
+          .map((c, i) => (chunkIds.includes(c.id) ? i + 1 : -1))
+          .filter((seq) => seq !== -1);
+        ordered.forEach((c, i) => {
+          const seq = i + 1;
+          if (hitSeqs.some((h) => Math.abs(h - seq) <= windowSize)) {
+            result.push({ ...toStored(c), seq });
+          }
+        });
+      }
+      return result;
+    },
+
+    async listByDocument(documentId) {
+      const d = await read();
+      return d.chunks
+        .filter((c) => c.document_id === documentId)
+        .sort(compareDocumentOrder)
+        .map(toStored);
+    },
+
+    async countByDocument(documentIds) {
+      const d = await read();
+      const counts = new Map<number, number>();
+      for (const c of d.chunks) {
+        if (documentIds.includes(c.document_id)) {
+          counts.set(c.document_id, (counts.get(c.document_id) ?? 0) + 1);
+        }
+      }
+      return counts;
+    },
+
+    setDocumentMetadata(documentId, metadata) {
+      return mutate((d) => {
+        d.metadata[documentId] = metadata;
+      });
+    },
+
+    async getIndexState() {
+      const d = await read();
+      return d.indexState ?? null;
+    },
+
+    async claimMigration(state, expectedJobId) {
+      let claimed = false;
+      await mutate((d) => {
+        if ((d.indexState?.job_id ?? null) !== expectedJobId) return;
+        d.indexState = state;
+        claimed = true;
+      });
+      return claimed;
+    },
+
+    async listUnmigrated(model, limit) {
+      const d = await read();
+      return unmigrated(d, model)
+        .sort((a, b) => a.id - b.id)
+        .slice(0, limit)
+        .map(toStored);
+    },
+
+    async countUnmigrated(model) {
+      const d = await read();
+      return unmigrated(d, model).length;
+    },
+
+    setNextEmbeddings(model, rows) {
+      return mutate((d) => {
+        const byId = new Map(rows.map((r) => [r.id, r.embedding]));
+        for (const c of d.chunks) {
+          const embedding = byId.get(c.id);
+          if (embedding) {
+            c.embedding_next = embedding;
+            c.embedding_next_model = model;
+          }
+        }
+      });
+    },
+
+    async promoteEmbeddings(target) {
+      const model = embeddingModelId(target);
+      let promoted = 0;
+      let remaining = 0;
+      await mutate((d) => {
+        for (const c of d.chunks) {
+          if (c.embedding_next_model === model && c.embedding_next) {
+            c.embedding = c.embedding_next;
+            c.embedding_model = model;
+            promoted++;
+          }
+          c.embedding_next = null;
+          c.embedding_next_model = null;
+          if (c.embedding_model !== model) remaining++;
+        }
+        d.indexState = { ...d.indexState, active: target, pending: null };
+      });
+      return { promoted, remaining };
+    },
+  };
+}
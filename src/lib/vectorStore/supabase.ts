@@ -0,0 +1,161 @@
+// src/lib/vectorStore/supabase.ts
+// 🐘 Supabase + pgvector 实现：分片在 document_chunks，检索走 SQL 函数（过滤在库里完成，先过滤再取 TopK）。
+import { embeddingModelId } from "@/lib/embedClient";
+import { supabase } from "@/lib/supabaseClient";
+import type { EmbeddingIndexState, StoredChunk, VectorStore } from "./types";
+
+const CHUNK_COLUMNS =
+  "id, document_id, content, heading_path, start_offset, end_offset, page_start, page_end";
+
+export const supabaseVectorStore: VectorStore = {
+  name: "supabase",
+
+  async upsert(chunks) {
+    const inserts = chunks.filter((c) => c.id === undefined);
+    const updates = chunks.filter((c) => c.id !== undefined);
+    if (inserts.length) {
+      const { error } = await supabase.from("document_chunks").insert(inserts);
+      if (error) throw error;
+    }
+    if (updates.length) {
+      const { error } = await supabase.from("document_chunks").upsert(updates);
+      if (error) throw error;
+    }
+  },
+
+  async deleteByDocument(documentId, idRange) {
+    let query = supabase
+      .from("document_chunks")
+      .delete()
+      .eq("document_id", documentId);
+    if (idRange?.after !== undefined) query = query.gt("id", idRange.after);
+    if (idRange?.upTo !== undefined) query = query.lte("id", idRange.upTo);
+    const { error } = await query;
+    if (error) throw error;
+  },
+
+  async search(embedding, options) {
+    const { data, error } = await supabase.rpc("match_documents", {
+      query_embedding: embedding,
+      query_model: options.model,
+      match_threshold: options.threshold,
+      match_count: options.limit,
+      filter: options.filter ?? {},
+    });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async keywordSearch(keywords, options) {
+    const { data, error } = await supabase.rpc("keyword_match_documents", {
+      keywords,
+      match_count: options.limit,
+      filter: options.filter ?? {},
+    });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async neighbors(chunkIds, windowSize) {
+    const { data, error } = await supabase.rpc("neighbor_chunks", {
+      chunk_ids: chunkIds,
+      window_size: windowSize,
+    });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async listByDocument(documentId) {
+    const { data, error } = await supabase
+      .from("document_chunks")
+      .select(CHUNK_COLUMNS)
+      .eq("document_id", documentId)
+      .order("start_offset", { ascending: true, nullsFirst: false })
+      .order("id", { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as StoredChunk[];
+  },
+
+  async countByDocument(documentIds) {
+    const counts = new Map<number, number>();
+    if (!documentIds.length) return counts;
+    const { data, error } = await supabase
+      .from("document_chunks")
+      .select("document_id")
+      .in("document_id", documentIds);
+    if (error) throw error;
+    for (const row of (data ?? []) as { document_id: number }[]) {
+      counts.set(row.document_id, (counts.get(row.document_id) ?? 0) + 1);
+    }
+    return counts;
+  },
+
+  // 元数据就在 documents 表上，检索时 SQL 直接 join，不需要另存
+  async setDocumentMetadata() {},
+
+  async getIndexState() {
+    const { data, error } = await supabase
+      .from("embedding_index_state")
+      .select("active, pending, job_id")
+      .eq("id", 1)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as EmbeddingIndexState | null) ?? null;
+  },
+
+  // 带上 job_id 条件的 UPDATE：并发的两个请求里后到的那个匹配不到行，返回 false
+  async claimMigration(state, expectedJobId) {
+    const query = supabase
+      .from("embedding_index_state")
+      .update({ ...state, updated_at: new Date().toISOString() })
+      .eq("id", 1);
+    const { data, error } = await (
+      expectedJobId
+        ? query.eq("job_id", expectedJobId)
+        : query.is("job_id", null)
+    ).select("id");
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  },
+
+  async listUnmigrated(model, limit) {
+    const { data, error } = await supabase.rpc("unmigrated_chunks", {
+      target_model: model,
+      match_count: limit,
+    });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async countUnmigrated(model) {
+    const { data, error } = await supabase.rpc("count_unmigrated_chunks", {
+      target_model: model,
+    });
+    if (error) throw error;
+    return Number(data ?? 0);
+  },
+
+  // 一批只发一次请求，SQL 里用一条 UPDATE ... FROM 写完整批
+  async setNextEmbeddings(model, rows) {
+    const { error } = await supabase.rpc("set_next_embeddings", {
+      target_model: model,
+      chunk_rows: rows,
+    });
+    if (error) throw error;
+  },
+
+  // 换向量 + 切换 active 在同一个 SQL 函数里完成，不会出现“模型切了向量还没换”的中间状态
+  async promoteEmbeddings(target) {
+    const { data, error } = await supabase.rpc("promote_embedding_model", {
+      target,
+      target_model: embeddingModelId(target),
+    });
+    if (error) throw error;
+    const row = (data ?? [])[0] as
+      { promoted: number; remaining: number } | undefined;
+    return {
+      promoted: Number(row?.promoted ?? 0),
+      remaining: Number(row?.remaining ?? 0),
+    };
+  },
+};
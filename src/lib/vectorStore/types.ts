@@ -0,0 +1,94 @@
+// src/lib/vectorStore/types.ts
+import type { EmbeddingModelConfig } from "@/lib/embedClient";
+import type { DocumentMetadata, MetadataFilter } from "@/types/document";
+
+// 🧩 一个分片在向量库里的样子（不含向量本身，向量只在写入和相似度计算时用到）
+export type StoredChunk = {
+  id: number;
+  document_id: number;
+  content: string;
+  heading_path: string | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  page_start: number | null;
+  page_end: number | null;
+};
+
+// ✍️ 写入时带上向量和产生它的模型；带 id 表示覆盖已有分片。
+// 模型迁移进行中时顺带写入新模型的向量（embedding_next），新入库的分片不用再迁一遍
+export type ChunkInput = Omit<StoredChunk, "id"> & {
+  id?: number;
+  embedding: number[];
+  embedding_model: string;
+  embedding_next?: number[] | null;
+  embedding_next_model?: string | null;
+};
+
+// 🔁 索引当前使用的向量模型；pending 不为空表示正在迁移到新模型
+export type EmbeddingIndexState = {
+  active: EmbeddingModelConfig;
+  pending: EmbeddingModelConfig | null;
+  job_id?: string | null; // 最近一次发起迁移的任务，防止并发请求各起一个任务
+};
+
+// 🧹 只删 id 落在 (after, upTo] 里的分片：重建索引时新分片写完才删旧分片，新分片的 id 一定比旧的大
+export type ChunkIdRange = { after?: number; upTo?: number };
+
+export type VectorSearchOptions = {
+  model: string; // 查询向量的模型，只和同一模型产生的分片向量比较
+  threshold: number;
+  limit: number;
+  filter: MetadataFilter | null;
+};
+
+export type KeywordSearchOptions = {
+  limit: number;
+  filter: MetadataFilter | null;
+};
+
+// 🗄️ 分片存储：入库 / 删除 / 向量检索 / 关键词检索 / 相邻分片 / 计数都走这里，
+// /api 和 lib 不再直接读写 document_chunks，换一个实现就能脱离 Supabase 跑起来
+export interface VectorStore {
+  readonly name: string;
+  upsert(chunks: ChunkInput[]): Promise<void>;
+  deleteByDocument(documentId: number, idRange?: ChunkIdRange): Promise<void>;
+  search(
+    embedding: number[],
+    options: VectorSearchOptions
+  ): Promise<(StoredChunk & { similarity: number })[]>;
+  keywordSearch(
+    keywords: string[],
+    options: KeywordSearchOptions
+  ): Promise<(StoredChunk & { keyword_score: number })[]>;
+  // 每个命中分片在同一文档内前后 windowSize 个分片，seq 为文档内顺序（从 1 开始）
+  neighbors(
+    chunkIds: number[],
+    windowSize: number
+  ): Promise<(StoredChunk & { seq: number })[]>;
+  listByDocument(documentId: number): Promise<StoredChunk[]>;
+  countByDocument(documentIds: number[]): Promise<Map<number, number>>;
+  // 按元数据过滤时要用到文档元数据；Supabase 直接 join documents，本地实现自己存一份
+  setDocumentMetadata(
+    documentId: number,
+    metadata: DocumentMetadata | null
+  ): Promise<void>;
+
+  // 🔁 向量模型迁移：旧向量继续服务检索，新向量先写到 embedding_next，全部就绪后一次性切换
+  getIndexState(): Promise<EmbeddingIndexState | null>;
+  // 比较并交换：只有登记的迁移任务仍是 expectedJobId 时才写入，两个并发请求只有一个能成功
+  claimMigration(
+    state: EmbeddingIndexState,
+    expectedJobId: string | null
+  ): Promise<boolean>;
+  // 既不是目标模型、也还没有目标模型新向量的分片
+  listUnmigrated(model: string, limit: number): Promise<StoredChunk[]>;
+  countUnmigrated(model: string): Promise<number>;
+  setNextEmbeddings(
+    model: string,
+    rows: { id: number; embedding: number[] }[]
+  ): Promise<void>;
+  // 把目标模型的新向量换成正式向量并切换 active；remaining 为切换后仍是其他模型的分片数
+  promoteEmbeddings(
+    target: EmbeddingModelConfig
+  ): Promise<{ promoted: number; remaining: number }>;
+}
@@ -0,0 +1,153 @@
+// src/lib/verification.ts
+// 🔎 回答核查（faithfulness）：回答生成后逐句对照检索片段，判断每句话是否有依据，
+// 有依据的句子占比就是 groundedness。系统提示词里的“不要编造”只是请求，这一步才是检查。
+import { aiClient, AI_MODEL } from "@/lib/ai-client";
+import { CITATION_PATTERN } from "@/lib/citations";
+import type { AnswerVerification, SentenceVerdict } from "@/types/chat";
+
+const MAX_PASSAGE_CHARS = 1500; // 控制核查 prompt 长度，片段太长只看开头
+const MIN_SENTENCE_CHARS = 4; // “是的。”这类没有事实内容的短句不核查
+
+// 列表 / 标题 / 引用块 / 任务列表前缀
+const BLOCK_PREFIX =
+  /^\s*(?:#{1,6}\s+|>\s*|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)、]\s+)/;
+// 中文句末标点之后断句；英文句号要求后面跟空白，避免把 3.5 天拆开
+const SENTENCE_END = /(?<=[。！？!?；;])|(?<=\.)(?=\s)/;
+const LEADING_CITATIONS = /^(?:\[\d{1,3}(?:\s*[,，、]\s*\d{1,3})*\]\s*)+/;
+
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VerificationError";
+  }
+}
+
+const SYSTEM_PROMPT = `你是严格的事实核查员。给定若干编号的文档片段和一组编号的句子，
+逐句判断该句的事实内容能否由文档片段直接支持（允许同义改写和简单归纳，不允许片段之外的推测、常识补充或数字变化）。
+只输出 JSON，格式为 {"verdicts": [{"supported": true, "evidence": [片段编号, ...]}, ...]}，
+顺序与句子编号一致；不被支持时 evidence 为空数组。不要输出其他内容。`;
+
+function contentLength(sentence: string) {
+  const text = sentence.replace(CITATION_PATTERN, "");
+  return text.replace(/[\s\p{P}\p{S}]/gu, "").length;
+}
+
+// 拒答措辞比较时去掉句末标点，模型常常多一个或少一个句号
+const trimEndPunctuation = (text: string) => text.replace(/[\s\p{P}]+$/u, "");
+
+// ✂️ 把 Markdown 回答拆成句子：跳过代码块和表格，句末的 [n] 引用归到前一句；
+// 拒答句（noAnswerReplies，来自当前模板和回答语言）没有事实内容，不核查
+export function splitAnswerSentences(
+  answer: string,
+  noAnswerReplies: string[] = []
+) {
+  const refusals = noAnswerReplies.map(trimEndPunctuation).filter(Boolean);
+  const sentences: string[] = [];
+  let inFence = false;
+
+  for (const line of answer.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || /^\s*\|/.test(line)) continue;
+
+    const pieces = line.replace(BLOCK_PREFIX, "").split(SENTENCE_END);
+    let lineSentences: string[] = [];
+    for (const raw of pieces) {
+      let piece = raw.trim();
+      const citations = piece.match(LEADING_CITATIONS)?.[0];
+      if (citations && lineSentences.length) {
+        lineSentences[lineSentences.length - 1] += citations.trim();
+        piece = piece.slice(citations.length).trim();
+      }
+      if (piece) lineSentences.push(piece);
+    }
+    lineSentences = lineSentences.filter(
+      (s) =>
+        contentLength(s) >= MIN_SENTENCE_CHARS &&
+        !refusals.some((r) => s.includes(r))
+    );
+    sentences.push(...lineSentences);
+  }
+  return sentences;
+}
+
+function parseVerdicts(raw: string, sentenceCount: number, chunkCount: number) {
+  // 部分模型会包一层 ```json 代码块，取第一个 {...}
+  const json = raw.match(/\{[\s\S]*\}/)?.[0];
+  let verdicts: unknown;
+  try {
+    verdicts = json ? JSON.parse(json).verdicts : undefined;
+  } catch {
+    verdicts = undefined;
+  }
+  if (!Array.isArray(verdicts) || verdicts.length !== sentenceCount) {
+    throw new VerificationError(`Verifier returned invalid verdicts: ${raw}`);
+  }
+  return verdicts.map((v) => {
+    const item = (v ?? {}) as { supported?: unknown; evidence?: unknown };
+    const evidence = Array.isArray(item.evidence)
+      ? item.evidence.filter(
+          (n): n is number => Number.isInteger(n) && n >= 1 && n <= chunkCount
+        )
+      : [];
+    return { supported: item.supported === true, evidence };
+  });
+}
+
+// 没有可核查的句子（例如回答就是拒答句）时返回 null
+export async function verifyAnswer(
+  answer: string,
+  chunks: { content: string }[],
+  noAnswerReplies: string[]
+): Promise<AnswerVerification | null> {
+  const sentences = splitAnswerSentences(answer, noAnswerReplies);
+  if (!sentences.length) return null;
+
+  // 没有任何片段时不必问模型：每句都没有依据
+  if (!chunks.length) {
+    return {
+      sentences: sentences.map((text) => ({
+        text,
+        supported: false,
+        evidence: [],
+      })),
+      score: 0,
+    };
+  }
+
+  const numberedChunks = chunks
+    .map((c, i) => `[${i + 1}] ${c.content.slice(0, MAX_PASSAGE_CHARS)}`)
+    .join("\n\n");
+  const numberedSentences = sentences
+    .map((s, i) => `${i + 1}. ${s.replace(CITATION_PATTERN, "")}`)
+    .join("\n");
+
+  const completion = await aiClient.chat.completions.create({
+    model: AI_MODEL,
+    temperature: 0,
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `【文档片段】\n${numberedChunks}\n\n【待核查句子】\n${numberedSentences}`,
+      },
+    ],
+  });
+
+  const verdicts = parseVerdicts(
+    completion.choices?.[0]?.message?.content ?? "",
+    sentences.length,
+    chunks.length
+  );
+  const results: SentenceVerdict[] = sentences.map((text, i) => ({
+    text,
+    ...verdicts[i],
+  }));
+
+  return {
+    sentences: results,
+    score: results.filter((s) => s.supported).length / results.length,
+  };
+}
@@ -0,0 +1,111 @@
+// src/lib/webPage.ts
+// 🌐 抓取内网 wiki 页面：只允许 http(s)，带超时和大小上限，返回原始字节交给抽取器处理。
+
+export const FETCH_TIMEOUT_MS = 15_000;
+export const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+export type FetchedPage = {
+  url: string; // 跟随重定向后的最终地址
+  buffer: Buffer;
+  contentType: string | null;
+};
+
+// ❌ 抓取失败：status 直接作为接口返回码（400 地址不合法 / 502 上游失败 / 504 超时）
+export class PageFetchError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "PageFetchError";
+    this.status = status;
+  }
+}
+
+export function parsePageUrl(raw: unknown): URL {
+  if (typeof raw !== "string" || !raw.trim()) {
+    throw new PageFetchError("Missing url", 400);
+  }
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new PageFetchError(`Invalid url: ${raw}`, 400);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new PageFetchError(`Unsupported protocol: ${url.protocol}`, 400);
+  }
+  url.hash = ""; // #锚点不影响页面内容，去掉后同一页面才能命中同一文档
+  return url;
+}
+
+// 📥 边读边计数，超过上限立即停止下载；没有 Content-Length（分块传输）时也不会把超大页面整个读进内存
+async function readBody(res: Response, maxBytes: number) {
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new PageFetchError(`Page too large: over ${maxBytes} bytes`, 413);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, total);
+}
+
+export async function fetchPage(url: URL): Promise<FetchedPage> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      redirect: "follow",
+      signal: controller.signal,
+      headers: { Accept: "text/html,text/plain;q=0.9,*/*;q=0.5" },
+    });
+    if (!res.ok) {
+      throw new PageFetchError(
+        `Fetch ${url} failed: ${res.status} ${res.statusText}`,
+        502
+      );
+    }
+
+    const declared = Number(res.headers.get("content-length") ?? NaN);
+    if (declared > MAX_PAGE_BYTES) {
+      throw new PageFetchError(`Page too large: ${declared} bytes`, 413);
+    }
+    const buffer = await readBody(res, MAX_PAGE_BYTES);
+
+    return {
+      url: res.url || url.toString(),
+      buffer,
+      contentType: res.headers.get("content-type"),
+    };
+  } catch (e) {
+    if (e instanceof PageFetchError) throw e;
+    if (controller.signal.aborted) {
+      throw new PageFetchError(`Fetch ${url} timed out`, 504);
+    }
+    throw new PageFetchError(
+      `Fetch ${url} failed: ${e instanceof Error ? e.message : String(e)}`,
+      502
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 📄 给抽取器用的“文件名”：取路径最后一段，没有扩展名时按 content-type 由抽取器判断
+export function pageFileName(url: URL) {
+  const last = url.pathname.split("/").filter(Boolean).pop();
+  if (!last) return url.hostname;
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last; // 不是合法的百分号编码（例如 /wiki/100%），按原样使用
+  }
+}
@@ -0,0 +1,129 @@
+// src/lib/zip.ts
+// 📦 极简 ZIP 读取器：只依赖 Node 内置 zlib，支持 stored / deflate 两种压缩方式，
+// 足够解析 .docx 以及普通的压缩包导入，无需额外引入第三方依赖。
+import { inflateRawSync } from "zlib";
+
+export type ZipEntry = {
+  name: string; // 压缩包内的相对路径（统一用 / 分隔）
+  isDirectory: boolean;
+  size: number; // 中央目录声明的解压后大小（可伪造，read 时会核对）
+  read: (maxBytes?: number) => Buffer;
+};
+
+// 💣 单个条目解压后的默认上限，防止声明很小、实际解压出几个 GB 的压缩炸弹
+export const DEFAULT_MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export class InvalidZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidZipError";
+  }
+}
+
+// 🛡️ 偏移量和长度都来自文件本身，可能被截断或伪造：越界时报 InvalidZipError（400）而不是 RangeError
+function assertInRange(
+  buf: Buffer,
+  start: number,
+  length: number,
+  what: string
+) {
+  if (start < 0 || start + length > buf.length) {
+    throw new InvalidZipError(`Corrupted zip: ${what} out of range`);
+  }
+}
+
+// 🔍 从文件尾部向前找 End of Central Directory 记录（可能带注释，最多 64KB）
+function findEndOfCentralDirectory(buf: Buffer) {
+  const minOffset = Math.max(0, buf.length - 22 - 0xffff);
+  for (let i = buf.length - 22; i >= minOffset; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new InvalidZipError(
+    "Not a zip file (end of central directory missing)"
+  );
+}
+
+export function readZipEntries(buf: Buffer): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buf);
+  const total = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < total; i++) {
+    assertInRange(buf, offset, 46, "central directory");
+    if (buf.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new InvalidZipError("Corrupted zip central directory");
+    }
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const size = buf.readUInt32LE(offset + 24);
+    const nameLen = buf.readUInt16LE(offset + 28);
+    const extraLen = buf.readUInt16LE(offset + 30);
+    const commentLen = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    assertInRange(
+      buf,
+      offset + 46,
+      nameLen + extraLen + commentLen,
+      "central directory"
+    );
+
+    // ⚠️ 文件名统一按 UTF-8 读取（macOS / 新版 Windows 打包默认都是 UTF-8）
+    const name = buf
+      .subarray(offset + 46, offset + 46 + nameLen)
+      .toString("utf8")
+      .replace(/\\/g, "/");
+
+    offset += 46 + nameLen + extraLen + commentLen;
+
+    // 解压时输出上限就是声明的大小，实际长度对不上的条目一律拒绝，内存占用不会超过声明值
+    const read = (maxBytes = DEFAULT_MAX_ENTRY_BYTES) => {
+      if (size > maxBytes) {
+        throw new InvalidZipError(
+          `Zip entry too large: ${name} (${size} > ${maxBytes} bytes)`
+        );
+      }
+      assertInRange(buf, localOffset, 30, `local header of ${name}`);
+      if (buf.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+        throw new InvalidZipError(`Corrupted zip entry: ${name}`);
+      }
+      const localNameLen = buf.readUInt16LE(localOffset + 26);
+      const localExtraLen = buf.readUInt16LE(localOffset + 28);
+      const start = localOffset + 30 + localNameLen + localExtraLen;
+      assertInRange(buf, start, compressedSize, `data of ${name}`);
+      const data = buf.subarray(start, start + compressedSize);
+
+      let out: Buffer;
+      if (method === 0) {
+        out = Buffer.from(data);
+      } else if (method === 8) {
+        try {
+          out = inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+        } catch {
+          throw new InvalidZipError(
+            `Corrupted zip entry or size mismatch: ${name}`
+          );
+        }
+      } else {
+        throw new InvalidZipError(
+          `Unsupported compression method ${method} for ${name}`
+        );
+      }
+      if (out.length !== size) {
+        throw new InvalidZipError(
+          `Zip entry size mismatch: ${name} (declared ${size}, got ${out.length})`
+        );
+      }
+      return out;
+    };
+
+    entries.push({ name, isDirectory: name.endsWith("/"), size, read });
+  }
+
+  return entries;
+}
@@ -1,16 +1,40 @@
 /**
  * ⭐ 面试亮点（useChatStore）：
  * 1. 使用 Zustand 管理 Chat 的业务状态（messages / steps / loading / input），并集中封装 sendMessage 流程，组件只负责展示。
- * 2. 将 RAG 检索配置（topK / threshold）放入 store，由前端 UI 控制，并在调用 /api/search 时透传到后端，
+ * 2. 将 RAG 检索配置（topK / threshold / 关键词权重 / 重排序 / 查询扩展 / 多样性 / 相邻分片 / 提示词模板）放入 store，由前端 UI 控制，并在调用 /api/search 时透传到后端，
  *    体现“AI 应用不是写死参数，而是具备可配置能力”，更像平台而非 Demo。
- * 3. 在 sendMessage 中统一处理 JSONL 流解析（step / sources / delta / error），将网络协议与 UI 渲染解耦，符合前端工程化设计。
+ * 3. 在 sendMessage 中统一处理 JSONL 流解析（step / sources / delta / verification / error），将网络协议与 UI 渲染解耦，符合前端工程化设计。
  */
 
 "use client";
 
 import { create } from "zustand";
-import type { Message, Source } from "@/types/chat";
+import type { AnswerVerification, Message, Source } from "@/types/chat";
 import type { AgentStep, StepStatus } from "@/types/agent";
+import type { MetadataFilter } from "@/types/document";
+import { DEFAULT_KEYWORD_WEIGHT, normalizeKeywordWeight } from "@/lib/hybrid";
+import {
+  normalizeRerankerChoice,
+  type RerankerChoice,
+} from "@/lib/rerankers/options";
+import {
+  normalizeExpansionMode,
+  type ExpansionMode,
+} from "@/lib/expansion/options";
+import {
+  DEFAULT_MAX_PER_DOCUMENT,
+  DEFAULT_MMR_LAMBDA,
+  normalizeMaxPerDocument,
+  normalizeMmrLambda,
+} from "@/lib/diversity";
+import {
+  DEFAULT_NEIGHBOR_WINDOW,
+  normalizeNeighborWindow,
+} from "@/lib/contextWindow/options";
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguage,
+} from "@/lib/promptTemplates/options";
 
 interface ChatState {
   messages: Message[];
@@ -24,8 +48,33 @@ interface ChatState {
   topK: number; // 向量检索返回多少条文档片段
   threshold: number; // 相似度阈值
 
+  filter: MetadataFilter; // 检索范围（部门 / 标签），空对象表示全库
+  keywordWeight: number; // 混合检索中关键词一路的权重（0~1）
+  reranker: RerankerChoice; // 重排序方式，none 表示不重排
+  rewriteQuery: boolean; // 是否结合历史把追问改写成独立问题再检索
+  expansion: ExpansionMode; // 查询扩展：multi-query / HyDE
+  mmrLambda: number; // MMR 的 λ：1 = 只看相关度，越小越强调多样性
+  maxPerDocument: number; // 单篇文档最多占几条，0 = 不限制
+  neighborWindow: number; // 命中后额外带上前后几个相邻分片，0 = 不扩展
+  verifyAnswer: boolean; // 生成后逐句核查回答是否有片段依据（多一次 LLM 调用）
+  useTools: boolean; // 允许模型调用工具补充检索 / 读整篇文档（要求平台支持 function calling，默认关闭）
+  promptTemplate: string; // 提示词模板（name 或 name@version），空串 = 默认模板
+  language: string; // 回答语言，填入模板的 {{language}}
+
   setTopK: (k: number) => void;
   setThreshold: (t: number) => void;
+  setFilter: (f: MetadataFilter) => void;
+  setKeywordWeight: (w: number) => void;
+  setReranker: (r: RerankerChoice) => void;
+  setRewriteQuery: (v: boolean) => void;
+  setExpansion: (m: ExpansionMode) => void;
+  setMmrLambda: (v: number) => void;
+  setMaxPerDocument: (n: number) => void;
+  setNeighborWindow: (n: number) => void;
+  setVerifyAnswer: (v: boolean) => void;
+  setUseTools: (v: boolean) => void;
+  setPromptTemplate: (ref: string) => void;
+  setLanguage: (language: string) => void;
 
   sendMessage: () => Promise<void>;
 
@@ -41,6 +90,18 @@ export const useChatStore = create<ChatState>((set, get) => ({
   // 默认配置：topK=5, 阈值=0.4，与你之前后端逻辑对齐
   topK: 5,
   threshold: 0.4,
+  filter: {},
+  keywordWeight: DEFAULT_KEYWORD_WEIGHT,
+  reranker: "none",
+  rewriteQuery: true,
+  expansion: "none",
+  mmrLambda: DEFAULT_MMR_LAMBDA,
+  maxPerDocument: DEFAULT_MAX_PER_DOCUMENT,
+  neighborWindow: DEFAULT_NEIGHBOR_WINDOW,
+  verifyAnswer: false,
+  useTools: false,
+  promptTemplate: "",
+  language: DEFAULT_LANGUAGE,
 
   setInput: (v) => set({ input: v }),
 
@@ -55,6 +116,31 @@ export const useChatStore = create<ChatState>((set, get) => ({
         Number.isFinite(t) && t >= 0 && t <= 1 ? t : 0.4,
     }),
 
+  setFilter: (f) => set({ filter: f }),
+
+  setKeywordWeight: (w) =>
+    set({ keywordWeight: normalizeKeywordWeight(w) }),
+
+  setReranker: (r) => set({ reranker: normalizeRerankerChoice(r) }),
+
+  setRewriteQuery: (v) => set({ rewriteQuery: v }),
+
+  setExpansion: (m) => set({ expansion: normalizeExpansionMode(m) }),
+
+  setMmrLambda: (v) => set({ mmrLambda: normalizeMmrLambda(v) }),
+
+  setMaxPerDocument: (n) => set({ maxPerDocument: normalizeMaxPerDocument(n) }),
+
+  setNeighborWindow: (n) => set({ neighborWindow: normalizeNeighborWindow(n) }),
+
+  setVerifyAnswer: (v) => set({ verifyAnswer: v }),
+
+  setUseTools: (v) => set({ useTools: v }),
+
+  setPromptTemplate: (ref) => set({ promptTemplate: ref.trim() }),
+
+  setLanguage: (language) => set({ language: normalizeLanguage(language) }),
+
   hydrateFromLocal: () => {
     if (typeof window === "undefined") return;
     try {
@@ -68,7 +154,25 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   sendMessage: async () => {
-    const { input, isLoading, messages, topK, threshold } = get();
+    const {
+      input,
+      isLoading,
+      messages,
+      topK,
+      threshold,
+      filter,
+      keywordWeight,
+      reranker,
+      rewriteQuery,
+      expansion,
+      mmrLambda,
+      maxPerDocument,
+      neighborWindow,
+      verifyAnswer,
+      useTools,
+      promptTemplate,
+      language,
+    } = get();
     const userInput = input.trim();
     if (!userInput || isLoading) return;
 
@@ -107,6 +211,18 @@ export const useChatStore = create<ChatState>((set, get) => ({
           history: historyForBackend,
           topK,
           threshold,
+          filter,
+          keywordWeight,
+          reranker,
+          rewriteQuery,
+          expansion,
+          mmrLambda,
+          maxPerDocument,
+          neighborWindow,
+          verifyAnswer,
+          useTools,
+          promptTemplate: promptTemplate || undefined,
+          language,
         }),
       });
 
@@ -162,8 +278,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
                 id: m.id ?? idx,
                 document_id: m.document_id ?? 0,
                 snippet: m.content ?? m.snippet ?? "",
-                similarity:
-                  m.similarity?.toString() ?? m.score?.toString() ?? "",
+                // 纯关键词命中没有向量相似度，不能拿 RRF 分数冒充
+                similarity: m.similarity?.toString() ?? "",
+                heading_path: m.heading_path ?? null,
+                page_start: m.page_start ?? null,
+                page_end: m.page_end ?? null,
+                origin: m.origin,
+                rerank_score: m.rerank_score ?? null,
+                retrieval_rank: m.retrieval_rank ?? null,
+                window_chunk_ids: m.window_chunk_ids ?? null,
+                via_tool: m.via_tool ?? null,
               })) ?? [];
 
             set((prev) => ({
@@ -184,6 +308,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
                   : msg
               ),
             }));
+          } else if (data.type === "verification") {
+            const verification = data.data as AnswerVerification;
+            set((prev) => ({
+              messages: prev.messages.map((msg) =>
+                msg.id === assistantId ? { ...msg, verification } : msg
+              ),
+            }));
           } else if (data.type === "error") {
             console.error("Server error:", data.data);
           }
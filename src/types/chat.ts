@@ -1,11 +1,34 @@
 // src/types/chat.ts
 
+// 🔀 混合检索中片段命中的通道
+export type RetrievalOrigin = "vector" | "keyword" | "both";
+
 // 🧩 RAG 来源片段，前后端会共享这部分结构
 export type Source = {
   id: number;
   document_id: number;
   snippet: string;
   similarity: string;
+  heading_path?: string | null; // 标题路径，例如 "员工手册 > 假期 > 年假"
+  page_start?: number | null; // PDF 来源页码（非 PDF 为空）
+  page_end?: number | null;
+  origin?: RetrievalOrigin; // 混合检索中命中的通道
+  rerank_score?: number | null; // 开启重排序时的相关度分数（0~1）
+  retrieval_rank?: number | null; // 重排前在检索结果中的名次
+  window_chunk_ids?: number[] | null; // 相邻分片扩展后窗口内的全部分片（按文档顺序）
+  via_tool?: string | null; // Agent 调用工具时补充的来源：工具名
+};
+
+// 🔎 回答核查：逐句判断是否有检索片段支撑
+export type SentenceVerdict = {
+  text: string; // 回答里的原句（去掉列表 / 标题等 Markdown 前缀）
+  supported: boolean;
+  evidence: number[]; // 支撑该句的片段编号（与 sources 顺序一致，从 1 开始）
+};
+
+export type AnswerVerification = {
+  sentences: SentenceVerdict[];
+  score: number; // groundedness：有依据的句子占比（0~1）
 };
 
 // 💬 单条消息：用于前端渲染和多轮对话 history 透传给后端
@@ -14,4 +37,5 @@ export type Message = {
   role: "user" | "assistant";
   content: string;
   sources?: Source[];
+  verification?: AnswerVerification | null; // 开启回答核查时才有
 };
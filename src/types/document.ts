@@ -0,0 +1,25 @@
+// src/types/document.ts
+
+// 🏭 文档索引状态：partial 表示有 chunk 向量化 / 写入失败，检索结果可能不完整
+export type IndexStatus = "indexed" | "partial" | "failed";
+
+// 🔒 密级，从低到高
+export type Confidentiality = "public" | "internal" | "confidential" | "secret";
+
+// 🏷️ 文档元数据（documents.metadata jsonb）：可在文档页编辑，检索时可按此筛选
+export type DocumentMetadata = {
+  department?: string;
+  owner?: string;
+  tags?: string[];
+  effective_date?: string; // YYYY-MM-DD
+  confidentiality?: Confidentiality;
+  category?: string; // 压缩包导入时的相对目录
+  path?: string; // 压缩包内的相对路径
+};
+
+// 🎯 检索范围：各字段之间是 AND，字段内多选是 OR；空字段表示不限
+export type MetadataFilter = {
+  departments?: string[];
+  tags?: string[];
+  confidentiality?: Confidentiality[];
+};
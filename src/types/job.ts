@@ -0,0 +1,28 @@
+// src/types/job.ts
+import type { IndexStatus } from "@/types/document";
+
+// 🏭 后台入库任务状态：queued → extracting → chunking → embedding → done / failed
+export type JobStatus =
+  "queued" | "extracting" | "chunking" | "embedding" | "done" | "failed";
+
+export type IngestJob = {
+  id: string;
+  file_name: string;
+  status: JobStatus;
+  progress_done: number; // embedding 阶段已处理的 chunk 数
+  progress_total: number; // chunk 总数（切片完成后才知道）
+  document_id: number | null;
+  index_status: IndexStatus | null;
+  error: string | null;
+  report: ImportReport | null; // 压缩包批量导入的汇总结果，单文件任务为 null
+  created_at: string;
+  updated_at: string;
+};
+
+// 📦 压缩包导入汇总：每个文件落在 imported / duplicates / skipped / failed 之一
+export type ImportReport = {
+  imported: { path: string; document_id: number; replaced: boolean }[];
+  duplicates: { path: string; document_id: number }[];
+  skipped: { path: string; reason: string }[]; // 不支持的类型、空文件等
+  failed: { path: string; error: string }[];
+};
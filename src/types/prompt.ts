@@ -0,0 +1,21 @@
+// src/types/prompt.ts
+
+// 📝 提示词模板：同名模板每次修改都新增一个版本，run_history 记录用的是哪个版本
+export type PromptTemplate = {
+  id: number | null; // 内置模板不在表里，没有 id
+  name: string;
+  version: number; // 内置模板为 0
+  description: string | null;
+  system_prompt: string; // 可用变量：{{language}}、{{question}}
+  user_prompt: string; // 必须包含 {{context}} 和 {{question}}
+  is_default: boolean;
+  created_at: string | null;
+};
+
+// ✍️ 新建模板 / 新版本时提交的内容
+export type PromptTemplateDraft = {
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  user_prompt: string;
+};
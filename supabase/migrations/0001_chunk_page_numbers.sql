@@ -0,0 +1,35 @@
+-- 📄 PDF 入库：记录每个 chunk 来自原文的哪几页（非 PDF 文档为 null）
+alter table document_chunks
+  add column if not exists page_start int,
+  add column if not exists page_end int;
+
+-- 返回列发生变化，需要先删除旧函数
+drop function if exists match_documents(vector, float, int);
+
+create or replace function match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_start,
+    dc.page_end,
+    1 - (dc.embedding <=> query_embedding) as similarity
+  from document_chunks dc
+  where 1 - (dc.embedding <=> query_embedding) > match_threshold
+  order by dc.embedding <=> query_embedding
+  limit match_count;
+$$;
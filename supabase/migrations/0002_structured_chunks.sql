@@ -0,0 +1,45 @@
+-- ✂️ 结构感知切片：chunk 记录标题路径与在原文中的偏移，文档记录切片参数（重建索引时复用）
+alter table document_chunks
+  add column if not exists heading_path text,
+  add column if not exists start_offset int,
+  add column if not exists end_offset int;
+
+alter table documents
+  add column if not exists chunk_size int,
+  add column if not exists chunk_overlap int;
+
+drop function if exists match_documents(vector, float, int);
+
+create or replace function match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.heading_path,
+    dc.start_offset,
+    dc.end_offset,
+    dc.page_start,
+    dc.page_end,
+    1 - (dc.embedding <=> query_embedding) as similarity
+  from document_chunks dc
+  where 1 - (dc.embedding <=> query_embedding) > match_threshold
+  order by dc.embedding <=> query_embedding
+  limit match_count;
+$$;
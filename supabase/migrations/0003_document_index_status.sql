@@ -0,0 +1,6 @@
+-- 🏭 批量入库：记录每个文档的索引结果，缺片的文档标记为 partial
+alter table documents
+  add column if not exists index_status text
+    check (index_status in ('indexed', 'partial', 'failed')),
+  add column if not exists indexed_chunks int,
+  add column if not exists failed_chunks int;
@@ -0,0 +1,19 @@
+-- 🏭 后台入库任务：上传接口立即返回 job id，前端轮询进度
+create table if not exists ingest_jobs (
+  id uuid primary key,
+  file_name text not null,
+  status text not null
+    check (status in ('queued', 'extracting', 'chunking', 'embedding', 'done', 'failed')),
+  progress_done int not null default 0,
+  progress_total int not null default 0,
+  document_id bigint references documents(id) on delete set null,
+  index_status text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 失败任务重试 / 重建索引需要从 documents.content 重新切片：记录原始格式和 PDF 页码偏移
+alter table documents
+  add column if not exists format text,
+  add column if not exists pages jsonb;
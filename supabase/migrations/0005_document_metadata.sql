@@ -0,0 +1,3 @@
+-- 📝 文档可编辑元数据（PATCH /api/documents/[id]）
+alter table documents
+  add column if not exists metadata jsonb not null default '{}'::jsonb;
@@ -0,0 +1,6 @@
+-- 🔑 上传去重：记录原始文件的 sha256
+alter table documents
+  add column if not exists content_hash text;
+
+create index if not exists documents_content_hash_idx on documents (content_hash);
+create index if not exists documents_name_idx on documents (name);
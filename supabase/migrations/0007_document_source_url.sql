@@ -0,0 +1,7 @@
+-- 🌐 从 URL 入库的文档记录来源地址；同一地址重新入库时更新这篇文档
+alter table documents
+  add column if not exists source_url text;
+
+create unique index if not exists documents_source_url_idx
+  on documents (source_url)
+  where source_url is not null;
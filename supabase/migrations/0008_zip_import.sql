@@ -0,0 +1,18 @@
+-- 📦 压缩包批量导入：任务汇总结果 + 按目录（metadata.category）筛选文档
+alter table ingest_jobs
+  add column if not exists report jsonb;
+
+create index if not exists documents_category_idx
+  on documents ((metadata->>'category'));
+
+-- 文档列表的目录下拉框：所有出现过的目录及文档数
+create or replace function document_folders()
+returns table (folder text, document_count bigint)
+language sql stable
+as $$
+  select metadata->>'category' as folder, count(*) as document_count
+  from documents
+  where coalesce(metadata->>'category', '') <> ''
+  group by 1
+  order by 1;
+$$;
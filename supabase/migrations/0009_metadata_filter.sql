@@ -0,0 +1,83 @@
+-- 🏷️ 文档元数据筛选：部门 / 标签 / 密级在检索 SQL 内部过滤，而不是召回后再丢弃
+create index if not exists documents_metadata_idx
+  on documents using gin (metadata jsonb_path_ops);
+
+alter table run_history
+  add column if not exists filter jsonb;
+
+drop function if exists match_documents(vector, float, int);
+
+-- filter 形如 {"departments": ["HR"], "tags": ["假期"], "confidentiality": ["public", "internal"]}
+-- 字段之间 AND，字段内 OR；缺省字段不限制。未标密级的文档按 internal 处理
+create or replace function match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'::jsonb
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.heading_path,
+    dc.start_offset,
+    dc.end_offset,
+    dc.page_start,
+    dc.page_end,
+    1 - (dc.embedding <=> query_embedding) as similarity
+  from document_chunks dc
+  join documents d on d.id = dc.document_id
+  where 1 - (dc.embedding <=> query_embedding) > match_threshold
+    and (
+      filter->'departments' is null
+      or d.metadata->>'department' in (
+        select jsonb_array_elements_text(filter->'departments')
+      )
+    )
+    and (
+      filter->'tags' is null
+      or coalesce(d.metadata->'tags', '[]'::jsonb) ?| array(
+        select jsonb_array_elements_text(filter->'tags')
+      )
+    )
+    and (
+      filter->'confidentiality' is null
+      or coalesce(d.metadata->>'confidentiality', 'internal') in (
+        select jsonb_array_elements_text(filter->'confidentiality')
+      )
+    )
+  order by dc.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- 检索配置面板的可选项：所有部门和标签及文档数
+create or replace function document_facets()
+returns table (kind text, value text, document_count bigint)
+language sql stable
+as $$
+  select 'department', metadata->>'department', count(*)
+  from documents
+  where coalesce(metadata->>'department', '') <> ''
+  group by 2
+  union all
+  select 'tag', tag, count(*)
+  from documents, jsonb_array_elements_text(
+    case when jsonb_typeof(metadata->'tags') = 'array'
+      then metadata->'tags' else '[]'::jsonb end
+  ) as tag
+  group by 2
+  order by 1, 2;
+$$;
@@ -0,0 +1,127 @@
+-- 🔀 混合检索：关键词（子串匹配）+ 向量，两路结果在 /api/search 中做 RRF 融合
+create extension if not exists pg_trgm;
+
+create index if not exists document_chunks_content_trgm_idx
+  on document_chunks using gin (content gin_trgm_ops);
+
+alter table run_history
+  add column if not exists keyword_weight float;
+
+-- 元数据范围过滤抽成公共函数，向量 / 关键词两路共用同一套规则（规则见 0009）
+create or replace function document_matches_filter(metadata jsonb, filter jsonb)
+returns boolean
+language sql immutable
+as $$
+  select
+    (
+      filter->'departments' is null
+      or metadata->>'department' in (
+        select jsonb_array_elements_text(filter->'departments')
+      )
+    )
+    and (
+      filter->'tags' is null
+      or coalesce(metadata->'tags', '[]'::jsonb) ?| array(
+        select jsonb_array_elements_text(filter->'tags')
+      )
+    )
+    and (
+      filter->'confidentiality' is null
+      or coalesce(metadata->>'confidentiality', 'internal') in (
+        select jsonb_array_elements_text(filter->'confidentiality')
+      )
+    );
+$$;
+
+drop function if exists match_documents(vector, float, int, jsonb);
+
+create or replace function match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'::jsonb
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.heading_path,
+    dc.start_offset,
+    dc.end_offset,
+    dc.page_start,
+    dc.page_end,
+    1 - (dc.embedding <=> query_embedding) as similarity
+  from document_chunks dc
+  join documents d on d.id = dc.document_id
+  where 1 - (dc.embedding <=> query_embedding) > match_threshold
+    and document_matches_filter(d.metadata, filter)
+  order by dc.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- 🔑 关键词检索：按命中关键词的总长度打分（长的编号 / 错误码比 "年假" 这种二元组更有区分度）
+create or replace function keyword_match_documents (
+  keywords text[],
+  match_count int,
+  filter jsonb default '{}'::jsonb
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  keyword_score float
+)
+language sql stable
+as $$
+  with terms as (
+    select
+      k as term,
+      '%' || replace(replace(replace(k, '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+    from unnest(keywords) as k
+    where length(k) > 0
+  ),
+  scored as (
+    select
+      dc.id,
+      sum(length(t.term))::float as keyword_score
+    from document_chunks dc
+    join terms t
+      on dc.content ilike t.pattern
+      or coalesce(dc.heading_path, '') ilike t.pattern
+    group by dc.id
+  )
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.heading_path,
+    dc.start_offset,
+    dc.end_offset,
+    dc.page_start,
+    dc.page_end,
+    s.keyword_score
+  from scored s
+  join document_chunks dc on dc.id = s.id
+  join documents d on d.id = dc.document_id
+  where document_matches_filter(d.metadata, filter)
+  order by s.keyword_score desc, dc.id
+  limit match_count;
+$$;
@@ -0,0 +1,3 @@
+-- 🧮 运行记录保存本次使用的重排序方式（none / llm / cross-encoder），便于对比效果
+alter table run_history
+  add column if not exists reranker text;
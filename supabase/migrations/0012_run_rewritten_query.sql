@@ -0,0 +1,3 @@
+-- ✍️ 多轮查询改写：记录实际用于检索的独立问题（未改写时为空）
+alter table run_history
+  add column if not exists rewritten_query text;
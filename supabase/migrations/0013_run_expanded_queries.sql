@@ -0,0 +1,4 @@
+-- 🧬 查询扩展：记录扩展模式以及实际参与检索的全部查询（原问题 / 改写 / HyDE 段落）
+alter table run_history
+  add column if not exists expansion text,
+  add column if not exists expanded_queries jsonb;
@@ -0,0 +1,4 @@
+-- 🌈 多样性筛选：记录 MMR 的 λ（1 = 关闭）与单文档条数上限（0 = 不限制）
+alter table run_history
+  add column if not exists mmr_lambda float,
+  add column if not exists max_per_document int;
@@ -0,0 +1,60 @@
+-- 🪟 上下文窗口扩展：取命中 chunk 在同一文档内前后各 window_size 个相邻分片。
+-- 分片是并发批量写入的，id 不保证有序，文档内顺序以原文偏移为准（老数据没有偏移时退回 id）。
+create or replace function neighbor_chunks (
+  chunk_ids bigint[],
+  window_size int
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  seq int
+)
+language sql stable
+as $$
+  with ordered as (
+    select
+      dc.id,
+      dc.document_id,
+      dc.content,
+      dc.heading_path,
+      dc.start_offset,
+      dc.end_offset,
+      dc.page_start,
+      dc.page_end,
+      (row_number() over (
+        partition by dc.document_id
+        order by dc.start_offset nulls last, dc.id
+      ))::int as seq
+    from document_chunks dc
+    where dc.document_id in (
+      select h.document_id from document_chunks h where h.id = any(chunk_ids)
+    )
+  ),
+  hits as (
+    select o.document_id, o.seq from ordered o where o.id = any(chunk_ids)
+  )
+  select distinct
+    o.id,
+    o.document_id,
+    o.content,
+    o.heading_path,
+    o.start_offset,
+    o.end_offset,
+    o.page_start,
+    o.page_end,
+    o.seq
+  from ordered o
+  join hits h
+    on h.document_id = o.document_id
+   and o.seq between h.seq - window_size and h.seq + window_size
+  order by o.document_id, o.seq;
+$$;
+
+alter table run_history
+  add column if not exists neighbor_window int;
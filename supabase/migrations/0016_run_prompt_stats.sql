@@ -0,0 +1,3 @@
+-- 🧮 提示词 token 预算：记录预算 / 实际用量，以及因超预算被丢弃的片段和历史轮次
+alter table run_history
+  add column if not exists prompt_stats jsonb;
@@ -0,0 +1,8 @@
+-- ⚡ 向量缓存：同一模型下相同文本（sha256）只向量化一次；不同模型维度可能不同，用 float8[] 而不是定长 vector
+create table if not exists embedding_cache (
+  model text not null,
+  content_hash text not null,
+  embedding float8[] not null,
+  created_at timestamptz not null default now(),
+  primary key (model, content_hash)
+);
@@ -0,0 +1,167 @@
+-- 🔢 向量模型可配置：每个分片记录产生向量的模型（模型名@维度），检索只比较同一模型的向量。
+-- 换模型时新向量先写进 embedding_next，旧向量继续服务检索，全部就绪后由 promote_embedding_model 一次性切换。
+alter table document_chunks
+  alter column embedding type vector; -- 不再固定 768 维，维度随模型变化
+
+alter table document_chunks
+  add column if not exists embedding_model text,
+  add column if not exists embedding_next vector,
+  add column if not exists embedding_next_model text;
+
+update document_chunks
+  set embedding_model = 'netease-youdao/bce-embedding-base_v1@768'
+  where embedding_model is null;
+
+alter table document_chunks
+  alter column embedding_model set not null;
+
+create index if not exists document_chunks_embedding_model_idx
+  on document_chunks (embedding_model);
+
+-- 向量缓存的命名空间同样带上维度，已有缓存继续可用
+update embedding_cache
+  set model = 'netease-youdao/bce-embedding-base_v1@768'
+  where model = 'netease-youdao/bce-embedding-base_v1';
+
+-- 当前索引使用的模型 + 正在迁移的目标模型（单行表）
+create table if not exists embedding_index_state (
+  id int primary key default 1 check (id = 1),
+  active jsonb not null,
+  pending jsonb,
+  updated_at timestamptz not null default now()
+);
+
+insert into embedding_index_state (id, active)
+values (
+  1,
+  '{"provider": "siliconflow", "model": "netease-youdao/bce-embedding-base_v1", "dimensions": 768}'::jsonb
+)
+on conflict (id) do nothing;
+
+drop function if exists match_documents(vector, float, int, jsonb);
+
+-- 先按模型筛出候选再算距离：不同维度的向量直接 <=> 会报错，materialized 保证过滤先执行
+create or replace function match_documents (
+  query_embedding vector,
+  query_model text,
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'::jsonb
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language sql stable
+as $$
+  with candidates as materialized (
+    select dc.*
+    from document_chunks dc
+    join documents d on d.id = dc.document_id
+    where dc.embedding_model = query_model
+      and document_matches_filter(d.metadata, filter)
+  )
+  select
+    c.id,
+    c.document_id,
+    c.content,
+    c.heading_path,
+    c.start_offset,
+    c.end_offset,
+    c.page_start,
+    c.page_end,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from candidates c
+  where 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- 🔁 迁移任务分批取待迁移的分片：既不是目标模型，也还没有目标模型的新向量
+create or replace function unmigrated_chunks (
+  target_model text,
+  match_count int
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int
+)
+language sql stable
+as $$
+  select
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.heading_path,
+    dc.start_offset,
+    dc.end_offset,
+    dc.page_start,
+    dc.page_end
+  from document_chunks dc
+  where dc.embedding_model <> target_model
+    and dc.embedding_next_model is distinct from target_model
+  order by dc.id
+  limit match_count;
+$$;
+
+create or replace function count_unmigrated_chunks (target_model text)
+returns int
+language sql stable
+as $$
+  select count(*)::int
+  from document_chunks dc
+  where dc.embedding_model <> target_model
+    and dc.embedding_next_model is distinct from target_model;
+$$;
+
+-- ✅ 切换：新向量替换旧向量、清空 embedding_next、更新 active，在同一个事务里完成
+create or replace function promote_embedding_model (
+  target jsonb,
+  target_model text
+)
+returns table (promoted int, remaining int)
+language plpgsql
+as $$
+declare
+  promoted_count int;
+begin
+  update document_chunks
+    set embedding = embedding_next,
+        embedding_model = target_model,
+        embedding_next = null,
+        embedding_next_model = null
+    where embedding_next_model = target_model;
+  get diagnostics promoted_count = row_count;
+
+  update document_chunks
+    set embedding_next = null,
+        embedding_next_model = null
+    where embedding_next_model is not null;
+
+  insert into embedding_index_state (id, active, pending, updated_at)
+  values (1, target, null, now())
+  on conflict (id) do update
+    set active = excluded.active, pending = null, updated_at = now();
+
+  return query
+    select
+      promoted_count,
+      (select count(*)::int from document_chunks dc where dc.embedding_model <> target_model);
+end;
+$$;
+
+alter table run_history
+  add column if not exists embedding_model text;
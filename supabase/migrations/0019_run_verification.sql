@@ -0,0 +1,4 @@
+-- 🔎 回答核查：逐句结论（verification）+ 有依据句子占比（groundedness），只在开启核查的运行里有值
+alter table run_history
+  add column if not exists verification jsonb,
+  add column if not exists groundedness float;
@@ -0,0 +1,43 @@
+-- 📝 提示词模板：同名模板每次修改都新增一个版本（旧版本不改不删），run_history 记录每次回答用的是哪个版本
+create table if not exists prompt_templates (
+  id bigserial primary key,
+  name text not null,
+  version int not null,
+  description text,
+  system_prompt text not null,
+  user_prompt text not null, -- 必须包含 {{context}} 和 {{question}}
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (name, version)
+);
+
+-- 最多一个默认模板；一个都没有时使用代码里的内置模板
+create unique index if not exists prompt_templates_single_default
+  on prompt_templates (is_default)
+  where is_default;
+
+-- 切换默认模板：先取消旧的再设置新的，在同一个事务里完成
+create or replace function set_default_prompt_template (template_id bigint)
+returns void
+language plpgsql
+as $$
+begin
+  update prompt_templates
+    set is_default = false
+    where is_default and id <> template_id;
+
+  update prompt_templates
+    set is_default = true
+    where id = template_id;
+
+  if not found then
+    raise exception 'prompt template % not found', template_id;
+  end if;
+end;
+$$;
+
+alter table run_history
+  add column if not exists prompt_template text,
+  add column if not exists prompt_template_id bigint
+    references prompt_templates (id) on delete set null,
+  add column if not exists prompt_template_version int;
@@ -0,0 +1,3 @@
+-- 📎 服务端追加在模板后面的协议说明（引用 / 工具 / 结构化输出）的版本：和模板 name@version 一起还原完整的系统提示词
+alter table run_history
+  add column if not exists prompt_instructions_version int;
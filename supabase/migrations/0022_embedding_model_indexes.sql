@@ -0,0 +1,154 @@
+-- 🧭 向量列不定维度之后没法直接建 ivfflat / hnsw 索引：按模型建部分表达式索引，
+-- 把 embedding 转成该模型的定长向量，只覆盖 embedding_model 等于这个模型的行；检索时用同样的表达式命中索引。
+
+-- 模型 id 为“模型名@维度”
+create or replace function embedding_model_dimensions (model text)
+returns int
+language plpgsql immutable
+as $$
+declare
+  dims int := substring(model from '@(\d+)$')::int;
+begin
+  if dims is null then
+    raise exception 'embedding model id without dimensions: %', model;
+  end if;
+  return dims;
+end;
+$$;
+
+create or replace function embedding_index_name (model text)
+returns text
+language sql immutable
+as $$
+  select 'document_chunks_embedding_' || md5(model);
+$$;
+
+create or replace function ensure_embedding_index (model text)
+returns void
+language plpgsql
+as $$
+begin
+  execute format(
+    'create index if not exists %I on document_chunks using hnsw ((embedding::vector(%s)) vector_cosine_ops) where embedding_model = %L',
+    embedding_index_name(model),
+    embedding_model_dimensions(model),
+    model
+  );
+end;
+$$;
+
+select ensure_embedding_index(m)
+from (
+  select distinct embedding_model as m from document_chunks
+  union
+  select concat(active->>'model', '@', active->>'dimensions') from embedding_index_state
+) models;
+
+-- 🔒 最近一次发起迁移的任务：发起迁移时按它做比较并交换，两个并发请求只有一个能登记成功
+alter table embedding_index_state
+  add column if not exists job_id uuid;
+
+-- 🔍 模型写成字面量、向量转成定长类型，计划器才能匹配上这个模型的部分索引；
+-- 模型条件比距离计算便宜，会先过滤，其他维度的向量不会被强转
+create or replace function match_documents (
+  query_embedding vector,
+  query_model text,
+  match_threshold float,
+  match_count int,
+  filter jsonb default '{}'::jsonb
+)
+returns table (
+  id bigint,
+  document_id bigint,
+  content text,
+  heading_path text,
+  start_offset int,
+  end_offset int,
+  page_start int,
+  page_end int,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  -- hnsw 一次最多返回 ef_search 个候选，取得多时跟着放大
+  perform set_config('hnsw.ef_search', greatest(40, match_count * 2)::text, true);
+  return query execute format(
+    $q$
+      select
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.heading_path,
+        dc.start_offset,
+        dc.end_offset,
+        dc.page_start,
+        dc.page_end,
+        1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)) as similarity
+      from document_chunks dc
+      join documents d on d.id = dc.document_id
+      where dc.embedding_model = %2$L
+        and document_matches_filter(d.metadata, $2)
+        and 1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+      order by dc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+      limit $4
+    $q$,
+    embedding_model_dimensions(query_model),
+    query_model
+  )
+  using query_embedding, filter, match_threshold, match_count;
+end;
+$$;
+
+-- 📦 迁移任务整批写入新向量：一次请求、一条 UPDATE
+create or replace function set_next_embeddings (
+  target_model text,
+  chunk_rows jsonb -- [{ "id": 1, "embedding": [...] }, ...]
+)
+returns void
+language sql
+as $$
+  update document_chunks dc
+    set embedding_next = (r.embedding)::text::vector,
+        embedding_next_model = target_model
+    from jsonb_to_recordset(chunk_rows) as r(id bigint, embedding jsonb)
+    where dc.id = r.id;
+$$;
+
+-- ✅ 切换前先给目标模型建好索引，切换后的检索直接走索引
+create or replace function promote_embedding_model (
+  target jsonb,
+  target_model text
+)
+returns table (promoted int, remaining int)
+language plpgsql
+as $$
+declare
+  promoted_count int;
+begin
+  perform ensure_embedding_index(target_model);
+
+  update document_chunks
+    set embedding = embedding_next,
+        embedding_model = target_model,
+        embedding_next = null,
+        embedding_next_model = null
+    where embedding_next_model = target_model;
+  get diagnostics promoted_count = row_count;
+
+  update document_chunks
+    set embedding_next = null,
+        embedding_next_model = null
+    where embedding_next_model is not null;
+
+  insert into embedding_index_state (id, active, pending, updated_at)
+  values (1, target, null, now())
+  on conflict (id) do update
+    set active = excluded.active, pending = null, updated_at = now();
+
+  return query
+    select
+      promoted_count,
+      (select count(*)::int from document_chunks dc where dc.embedding_model <> target_model);
+end;
+$$;
@@ -0,0 +1,112 @@
+// tests/chunker.test.ts
+// 🧪 结构感知切片：偏移与原文一致、不跨标题、长度不超过上限、重叠按整句回退
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_SIZE,
+  chunkText,
+  normalizeChunkOptions,
+} from "@/lib/chunker";
+
+const HANDBOOK = `# 员工手册
+
+## 假期
+
+### 年假
+
+员工入职满一年后每年享有 10 天带薪年假。年假需提前三个工作日在系统中申请。当年未休完的年假可以顺延到次年第一季度。
+
+### 病假
+
+病假需提供医院证明。
+
+## 报销
+
+\`\`\`
+报销单模板：
+日期 | 金额 | 事由
+\`\`\`
+
+出差费用需在返回后 30 天内提交报销单。
+`;
+
+test("chunk content is the exact source slice and never crosses a heading", () => {
+  const chunks = chunkText(HANDBOOK, {
+    chunkSize: 40,
+    overlap: 0,
+    structure: "markdown",
+  });
+
+  for (const c of chunks) {
+    assert.equal(c.content, HANDBOOK.slice(c.start, c.end));
+    assert.ok(c.content.length <= 40, c.content);
+  }
+  // 年假段按句子拆开；代码块整块保留；新标题总是开新片
+  assert.deepEqual(
+    chunks.map((c) => [c.headingPath.join(" > "), c.content]),
+    [
+      ["员工手册 > 假期 > 年假", "# 员工手册\n\n## 假期\n\n### 年假"],
+      [
+        "员工手册 > 假期 > 年假",
+        "员工入职满一年后每年享有 10 天带薪年假。年假需提前三个工作日在系统中申请。",
+      ],
+      ["员工手册 > 假期 > 年假", "当年未休完的年假可以顺延到次年第一季度。"],
+      ["员工手册 > 假期 > 病假", "### 病假\n\n病假需提供医院证明。"],
+      [
+        "员工手册 > 报销",
+        "## 报销\n\n```\n报销单模板：\n日期 | 金额 | 事由\n```",
+      ],
+      ["员工手册 > 报销", "出差费用需在返回后 30 天内提交报销单。"],
+    ]
+  );
+});
+
+test("overlap repeats whole trailing sentences of the same section", () => {
+  const text =
+    "第一句话写在这里。第二句话写在这里。第三句话写在这里。第四句话写在这里。";
+  const chunks = chunkText(text, {
+    chunkSize: 27,
+    overlap: 9,
+    structure: "plain",
+  });
+  assert.deepEqual(
+    chunks.map((c) => c.content),
+    [
+      "第一句话写在这里。第二句话写在这里。第三句话写在这里。",
+      "第三句话写在这里。第四句话写在这里。",
+    ]
+  );
+});
+
+test("overlong sentences fall back to fixed-size slices", () => {
+  const text = "字".repeat(250);
+  const chunks = chunkText(text, {
+    chunkSize: 100,
+    overlap: 0,
+    structure: "plain",
+  });
+  assert.deepEqual(
+    chunks.map((c) => [c.start, c.end]),
+    [
+      [0, 100],
+      [100, 200],
+      [200, 250],
+    ]
+  );
+});
+
+test("normalizeChunkOptions falls back to defaults and caps overlap", () => {
+  assert.deepEqual(normalizeChunkOptions(null, undefined), {
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    overlap: DEFAULT_CHUNK_OVERLAP,
+  });
+  assert.deepEqual(normalizeChunkOptions(50, 10), {
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    overlap: 10,
+  });
+  assert.deepEqual(normalizeChunkOptions(200.7, 500), {
+    chunkSize: 200,
+    overlap: 100,
+  });
+});
@@ -0,0 +1,85 @@
+// tests/citations.test.ts
+// 🧪 行内引用：越界编号的清理、代码里的 [n] 原样保留，以及流式过滤在任意切分下和整段处理结果一致
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createCitationFilter, sanitizeCitations } from "@/lib/citations";
+
+const ANSWER = `年假可以顺延到次年第一季度[1]，报销需在 30 天内提交[2，5]。
+
+取第一条记录用 \`rows[0]\`，双反引号 \`\` a[1]\` \`\` 也算代码[7]。
+
+\`\`\`ts
+const first = items[1];
+\`\`\`
+
+~~~
+matrix[2][3]
+~~~
+
+住宿标准按城市等级执行[3][2]。
+`;
+
+const EXPECTED = `年假可以顺延到次年第一季度[1]，报销需在 30 天内提交[2]。
+
+取第一条记录用 \`rows[0]\`，双反引号 \`\` a[1]\` \`\` 也算代码。
+
+\`\`\`ts
+const first = items[1];
+\`\`\`
+
+~~~
+matrix[2][3]
+~~~
+
+住宿标准按城市等级执行[3][2]。
+`;
+
+test("sanitizeCitations drops out-of-range numbers", () => {
+  assert.deepEqual(sanitizeCitations("见[1, 4]和[9]。", 3), {
+    text: "见[1]和。",
+    cited: [1],
+    removed: [4, 9],
+  });
+  // 任务列表和链接不是引用
+  assert.equal(
+    sanitizeCitations("- [ ] 待办 [文档](https://x/1)", 1).text,
+    "- [ ] 待办 [文档](https://x/1)"
+  );
+});
+
+test("sanitizeCitations leaves inline code and fenced blocks alone", () => {
+  assert.deepEqual(sanitizeCitations(ANSWER, 3), {
+    text: EXPECTED,
+    cited: [1, 2, 3],
+    removed: [5, 7],
+  });
+  // 围栏要用同样的字符、不短于开头的标记才算结束
+  assert.equal(
+    sanitizeCitations("````\n```\nx[9]\n````\n[9]", 1).text,
+    "````\n```\nx[9]\n````\n"
+  );
+});
+
+test("createCitationFilter matches sanitizeCitations however the stream is split", () => {
+  for (const size of [1, 2, 3, 5, 8, 13]) {
+    const filter = createCitationFilter(3);
+    let out = "";
+    for (let i = 0; i < ANSWER.length; i += size) {
+      out += filter.push(ANSWER.slice(i, i + size));
+    }
+    out += filter.flush();
+    assert.equal(out, EXPECTED, `delta size ${size}`);
+    assert.deepEqual(filter.cited, [1, 2, 3]);
+    assert.deepEqual(filter.removed, [5, 7]);
+  }
+});
+
+test("createCitationFilter holds back only what it cannot decide yet", () => {
+  const filter = createCitationFilter(2);
+  assert.equal(filter.push("依据[1"), "依据");
+  assert.equal(filter.push("]，代码 `"), "[1]，代码 ");
+  assert.equal(filter.push("a[9]` 结束[9"), "`a[9]` 结束");
+  filter.setSourceCount(9);
+  assert.equal(filter.push("]"), "[9]");
+  assert.equal(filter.flush(), "");
+});
@@ -0,0 +1,76 @@
+// tests/diversity.test.ts
+// 🧪 多样性筛选：MMR 压下字面重复的片段，单文档上限跳过多余候选
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  isDiversityEnabled,
+  normalizeMaxPerDocument,
+  selectDiverse,
+} from "@/lib/diversity";
+
+const LEAVE = "员工入职满一年后每年享有十天带薪年假";
+
+// 1、2 是同一段落的重叠切片，3 来自另一篇文档、内容不同但相关度稍低
+const CANDIDATES = [
+  { id: 1, document_id: 10, content: LEAVE, score: 1 },
+  { id: 2, document_id: 10, content: `${LEAVE}，需提前申请`, score: 0.95 },
+  { id: 3, document_id: 20, content: "出差报销需在三十天内提交", score: 0.8 },
+];
+
+test("lambda 1 without a cap keeps the relevance order", () => {
+  const { selected, cappedCount } = selectDiverse(CANDIDATES, 2, {
+    lambda: 1,
+    maxPerDocument: 0,
+  });
+  assert.deepEqual(
+    selected.map((c) => c.id),
+    [1, 2]
+  );
+  assert.equal(cappedCount, 0);
+});
+
+test("MMR picks a different chunk over a near-duplicate", () => {
+  const { selected } = selectDiverse(CANDIDATES, 2, {
+    lambda: 0.5,
+    maxPerDocument: 0,
+  });
+  assert.deepEqual(
+    selected.map((c) => c.id),
+    [1, 3]
+  );
+});
+
+test("rerank scores take precedence over fusion scores", () => {
+  const reranked = CANDIDATES.map((c) => ({
+    ...c,
+    rerank_score: c.id === 3 ? 0.99 : 0.1,
+  }));
+  const { selected } = selectDiverse(reranked, 1, {
+    lambda: 1,
+    maxPerDocument: 0,
+  });
+  assert.deepEqual(
+    selected.map((c) => c.id),
+    [3]
+  );
+});
+
+test("maxPerDocument skips extra chunks from the same document", () => {
+  const { selected, cappedCount } = selectDiverse(CANDIDATES, 3, {
+    lambda: 1,
+    maxPerDocument: 1,
+  });
+  assert.deepEqual(
+    selected.map((c) => c.id),
+    [1, 3]
+  );
+  assert.equal(cappedCount, 1);
+});
+
+test("diversity options are validated and off by default", () => {
+  assert.equal(isDiversityEnabled({ lambda: 1, maxPerDocument: 0 }), false);
+  assert.equal(isDiversityEnabled({ lambda: 0.7, maxPerDocument: 0 }), true);
+  assert.equal(normalizeMaxPerDocument(2.9), 2);
+  assert.equal(normalizeMaxPerDocument(100), 20);
+  assert.equal(normalizeMaxPerDocument(-1), 0);
+});
@@ -0,0 +1,85 @@
+// tests/hybrid.test.ts
+// 🧪 混合检索的纯函数：关键词抽取、加权倒数排名融合和多查询合并
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  RRF_K,
+  extractKeywords,
+  mergeRankedLists,
+  normalizeKeywordWeight,
+  reciprocalRankFusion,
+} from "@/lib/hybrid";
+
+const hit = (id: number, similarity?: number) => ({ id, similarity });
+
+test("extractKeywords keeps identifiers and CJK bigrams without stop words", () => {
+  assert.deepEqual(extractKeywords("请问 ERR-404 怎么报销差旅费？"), [
+    "err-404",
+    "么报",
+    "报销",
+    "销差",
+    "差旅",
+    "旅费",
+  ]);
+  assert.deepEqual(extractKeywords("a 是"), []);
+});
+
+test("reciprocalRankFusion adds both weighted contributions for shared hits", () => {
+  const fused = reciprocalRankFusion(
+    [hit(1, 0.9), hit(2, 0.8)],
+    [hit(3), hit(2)],
+    0.5
+  );
+
+  assert.deepEqual(
+    fused.map((h) => [h.id, h.origin, h.vector_rank, h.keyword_rank]),
+    [
+      [2, "both", 2, 2],
+      [1, "vector", 1, null],
+      [3, "keyword", null, 1],
+    ]
+  );
+  assert.equal(fused[0].score, 0.5 / (RRF_K + 2) + 0.5 / (RRF_K + 2));
+  // 两路都命中时保留向量侧的 similarity
+  assert.equal(fused[0].similarity, 0.8);
+});
+
+test("keyword weight 0 keeps the vector order and ranks keyword-only hits last", () => {
+  const fused = reciprocalRankFusion([hit(1), hit(2)], [hit(3), hit(1)], 0);
+  assert.deepEqual(
+    fused.map((h) => [h.id, h.score]),
+    [
+      [1, 1 / (RRF_K + 1)],
+      [2, 1 / (RRF_K + 2)],
+      [3, 0],
+    ]
+  );
+});
+
+test("normalizeKeywordWeight falls back to the default outside [0, 1]", () => {
+  assert.equal(normalizeKeywordWeight(0), 0);
+  assert.equal(normalizeKeywordWeight(1), 1);
+  assert.equal(normalizeKeywordWeight(1.5), 0.3);
+  assert.equal(normalizeKeywordWeight("0.5"), 0.3);
+});
+
+test("mergeRankedLists favours hits recalled by several queries", () => {
+  const first = reciprocalRankFusion([hit(1, 0.7), hit(2, 0.6)], [], 0.3);
+  const second = reciprocalRankFusion([hit(3, 0.9)], [hit(2, 0.65)], 0.3);
+  const merged = mergeRankedLists([first, second]);
+
+  assert.deepEqual(
+    merged.map((h) => [h.id, h.matched_queries, h.origin]),
+    [
+      [2, 2, "both"],
+      [1, 1, "vector"],
+      [3, 1, "vector"],
+    ]
+  );
+  // 两个查询里都排第 2
+  assert.equal(merged[0].score, 2 / (RRF_K + 2));
+  // 取各查询里最好的相似度和名次
+  assert.equal(merged[0].similarity, 0.65);
+  assert.equal(merged[0].vector_rank, 2);
+  assert.equal(merged[0].keyword_rank, 1);
+});
@@ -0,0 +1,87 @@
+// tests/metadata.test.ts
+// 🧪 元数据与检索范围的校验：空范围表示全库、非法值报 InvalidMetadataError，Agent 只能在用户范围内收窄
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  InvalidMetadataError,
+  narrowMetadataFilter,
+  normalizeMetadata,
+  normalizeMetadataFilter,
+} from "@/lib/metadata";
+
+test("normalizeMetadataFilter trims, dedupes and treats empty as no filter", () => {
+  assert.equal(normalizeMetadataFilter(undefined), null);
+  assert.equal(normalizeMetadataFilter(null), null);
+  assert.equal(
+    normalizeMetadataFilter({ departments: [" ", ""], tags: [] }),
+    null
+  );
+  assert.deepEqual(
+    normalizeMetadataFilter({
+      departments: [" 人事部", "人事部", "财务部 "],
+      tags: ["年假"],
+      confidentiality: ["public", "internal"],
+    }),
+    {
+      departments: ["人事部", "财务部"],
+      tags: ["年假"],
+      confidentiality: ["public", "internal"],
+    }
+  );
+});
+
+test("normalizeMetadataFilter rejects malformed input", () => {
+  for (const [input, message] of [
+    ["人事部", "filter must be an object"],
+    [["人事部"], "filter must be an object"],
+    [{ tags: "年假" }, "filter.tags must be an array of strings"],
+    [{ departments: [1] }, "filter.departments must be an array of strings"],
+    [{ confidentiality: ["top"] }, "filter.confidentiality must be one of"],
+    [
+      { tags: Array.from({ length: 51 }, (_, i) => `t${i}`) },
+      "filter.tags accepts at most 50 values",
+    ],
+  ] as const) {
+    assert.throws(
+      () => normalizeMetadataFilter(input),
+      (e) => e instanceof InvalidMetadataError && e.message.startsWith(message),
+      JSON.stringify(input)
+    );
+  }
+});
+
+test("narrowMetadataFilter intersects with the caller's scope", () => {
+  const scope = normalizeMetadataFilter({
+    departments: ["人事部", "财务部"],
+    confidentiality: ["public"],
+  });
+  assert.deepEqual(
+    narrowMetadataFilter(scope, {
+      departments: ["财务部", "法务部"],
+      tags: ["报销"],
+    }),
+    {
+      departments: ["财务部"],
+      tags: ["报销"],
+      confidentiality: ["public"],
+    }
+  );
+  assert.equal(narrowMetadataFilter(null, null), null);
+  assert.equal(narrowMetadataFilter(scope, null), scope);
+});
+
+test("normalizeMetadata validates known fields and keeps the rest", () => {
+  assert.deepEqual(
+    normalizeMetadata({
+      department: " 人事部 ",
+      owner: "",
+      effective_date: "2024-01-01",
+      path: "制度/年假.md",
+    }),
+    { department: "人事部", effective_date: "2024-01-01", path: "制度/年假.md" }
+  );
+  assert.throws(
+    () => normalizeMetadata({ effective_date: "2024/01/01" }),
+    /effective_date must be YYYY-MM-DD/
+  );
+});
@@ -0,0 +1,494 @@
+// tests/offline.test.ts
+// 🧪 离线集成测试：VECTOR_STORE=local + 本机假 embedding 接口，不配置 Supabase，
+// 走一遍 入库 → 任务状态 → 混合检索 → 运行记录，再调用文档 / 运行记录 / 提示词接口，确认本地模式整条链路不碰 Supabase。
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { NextRequest } from "next/server";
+
+const DIMENSIONS = 64;
+
+// 🔢 按字符哈希分桶计数：字面重合越多的文本余弦相似度越高，足够让检索结果可预期
+function fakeEmbedding(text: string) {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const ch of text.replace(/\s/g, "")) {
+    vector[ch.codePointAt(0)! % DIMENSIONS] += 1;
+  }
+  return vector;
+}
+
+// 置为 true 时接口返回 400（不可重试），模拟向量服务不可用
+let failEmbeddings = false;
+
+// OpenAI 兼容的 /embeddings；SDK 默认请求 base64 编码，两种都支持
+function startEmbeddingServer() {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      if (failEmbeddings) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: { message: "embedding disabled" } }));
+        return;
+      }
+      const { input, encoding_format } = JSON.parse(body) as {
+        input: string | string[];
+        encoding_format?: string;
+      };
+      const data = (Array.isArray(input) ? input : [input]).map((text, i) => {
+        const vector = fakeEmbedding(text);
+        return {
+          object: "embedding",
+          index: i,
+          embedding:
+            encoding_format === "base64"
+              ? Buffer.from(new Float32Array(vector).buffer).toString("base64")
+              : vector,
+        };
+      });
+      res.end(
+        JSON.stringify({
+          object: "list",
+          data,
+          model: "fake-embedding",
+          usage: { prompt_tokens: 0, total_tokens: 0 },
+        })
+      );
+    });
+  });
+  return new Promise<Server>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server))
+  );
+}
+
+const POLICY = `# 年假制度
+
+员工入职满一年后每年享有 10 天带薪年假，年假需提前三个工作日在系统中申请，当年未休完的年假可以顺延到次年第一季度。
+
+# 差旅报销
+
+出差产生的交通和住宿费用需在返回后 30 天内提交报销单，超过期限的报销单财务部不予受理，住宿标准按城市等级执行。
+`;
+
+let server: Server;
+let dataDir: string;
+
+before(async () => {
+  server = await startEmbeddingServer();
+  dataDir = await mkdtemp(path.join(tmpdir(), "rag-offline-"));
+
+  delete process.env.NEXT_PUBLIC_SUPABASE_URL;
+  delete process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  process.env.VECTOR_STORE = "local";
+  process.env.VECTOR_STORE_PATH = path.join(dataDir, "vector-store.json");
+  process.env.RECORD_STORE_PATH = path.join(dataDir, "records.json");
+  process.env.EMBEDDING_CACHE = "memory";
+  process.env.EMBEDDING_PROVIDER = "openai";
+  process.env.EMBEDDING_MODEL = "fake-embedding";
+  process.env.EMBEDDING_DIMENSIONS = String(DIMENSIONS);
+  process.env.EMBEDDING_BASE_URL = `http://127.0.0.1:${
+    (server.address() as AddressInfo).port
+  }`;
+  process.env.EMBEDDING_API_KEY = "test";
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+test("ingests and searches a document without Supabase", async () => {
+  // 环境变量设好之后再加载：embedClient 在 import 时读取模型配置
+  const { hashContent, runIngestJob } = await import("@/lib/ingest");
+  const { createJob, getJob } = await import("@/lib/jobs");
+  const { embedTexts } = await import("@/lib/embeddingCache");
+  const { getEmbeddingIndexState } = await import("@/lib/embeddingIndex");
+  const { hybridRetrieve } = await import("@/lib/retrieval");
+  const { getRecordStore } = await import("@/lib/recordStore");
+
+  const buffer = Buffer.from(POLICY);
+  const job = await createJob("policy.md");
+  await runIngestJob(job.id, {
+    buffer,
+    fileName: "policy.md",
+    chunkSize: 100,
+    overlap: 0,
+    contentHash: hashContent(buffer),
+  });
+
+  const finished = await getJob(job.id);
+  assert.equal(finished?.status, "done", finished?.error ?? undefined);
+  assert.equal(finished.index_status, "indexed");
+  assert.ok(finished.progress_total >= 2);
+  assert.equal(finished.progress_done, finished.progress_total);
+
+  const records = await getRecordStore();
+  const doc = await records.getDocument(finished.document_id!);
+  assert.equal(doc?.name, "policy.md");
+  assert.equal(doc.index_status, "indexed");
+  assert.equal(doc.indexed_chunks, finished.progress_total);
+
+  const question = "年假可以顺延吗";
+  const { active } = await getEmbeddingIndexState();
+  const {
+    vectors: [queryVector],
+  } = await embedTexts([question], active);
+  const { matches } = await hybridRetrieve(question, queryVector, {
+    embedding: active,
+    topK: 3,
+    threshold: 0,
+    filter: null,
+    keywordWeight: 0.3,
+  });
+  assert.ok(matches.length > 0);
+  assert.equal(matches[0].document_id, doc.id);
+  assert.match(matches[0].content, /顺延/);
+
+  await records.insertRun({ question, matched_count: matches.length });
+  const saved = JSON.parse(
+    await readFile(process.env.RECORD_STORE_PATH!, "utf8")
+  ) as { runs: { question: string }[] };
+  assert.deepEqual(
+    saved.runs.map((r) => r.question),
+    [question]
+  );
+});
+
+test("re-import keeps metadata edited after the first import", async () => {
+  const { hashContent, ingestDocument } = await import("@/lib/ingest");
+  const { getRecordStore } = await import("@/lib/recordStore");
+  const records = await getRecordStore();
+
+  const importFile = (text: string, replaceDocumentId: number | null) => {
+    const buffer = Buffer.from(text);
+    return ingestDocument({
+      buffer,
+      fileName: "travel.md",
+      chunkSize: 100,
+      overlap: 0,
+      contentHash: hashContent(buffer),
+      replaceDocumentId,
+      metadata: { category: "finance", path: "finance/travel.md" },
+    });
+  };
+
+  const { documentId } = await importFile(POLICY, null);
+  await records.updateDocument(documentId, {
+    metadata: {
+      category: "finance",
+      path: "finance/travel.md",
+      department: "财务部",
+      tags: ["报销"],
+    },
+  });
+
+  await importFile(`${POLICY}\n补充：高铁二等座可直接报销。\n`, documentId);
+  const doc = await records.getDocument(documentId);
+  assert.deepEqual(doc?.metadata, {
+    category: "finance",
+    path: "finance/travel.md",
+    department: "财务部",
+    tags: ["报销"],
+  });
+});
+
+test("a failed re-index keeps the previous chunks", async () => {
+  const { hashContent, ingestDocument, runReindexJob } =
+    await import("@/lib/ingest");
+  const { createJob, getJob } = await import("@/lib/jobs");
+  const { getRecordStore } = await import("@/lib/recordStore");
+  const { getVectorStore } = await import("@/lib/vectorStore");
+  const records = await getRecordStore();
+  const store = await getVectorStore();
+
+  // 一整段长文本：切片参数不同，切出来的分片就不同
+  const text = Array.from(
+    { length: 8 },
+    (_, i) =>
+      `第${i + 1}条：出差产生的交通和住宿费用需在返回后 30 天内提交报销单。`
+  ).join("");
+  const buffer = Buffer.from(text);
+  const { documentId } = await ingestDocument({
+    buffer,
+    fileName: "leave.md",
+    chunkSize: 200,
+    overlap: 0,
+    contentHash: hashContent(buffer),
+  });
+  const previous = await store.listByDocument(documentId);
+  assert.ok(previous.length > 0);
+
+  // 换一组切片参数，分片内容变了，不会命中向量缓存
+  failEmbeddings = true;
+  try {
+    const job = await createJob("leave.md", documentId);
+    await runReindexJob(job.id, documentId, { chunkSize: 150, overlap: 0 });
+    assert.equal((await getJob(job.id))?.status, "failed");
+  } finally {
+    failEmbeddings = false;
+  }
+  assert.deepEqual(await store.listByDocument(documentId), previous);
+  const kept = await records.getDocument(documentId);
+  assert.equal(kept?.chunk_size, 200);
+  assert.equal(kept.index_status, "indexed");
+
+  const retry = await createJob("leave.md", documentId);
+  await runReindexJob(retry.id, documentId, { chunkSize: 150, overlap: 0 });
+  assert.equal((await getJob(retry.id))?.status, "done");
+  const current = await store.listByDocument(documentId);
+  const previousIds = new Set(previous.map((c) => c.id));
+  assert.ok(current.length > 0);
+  assert.ok(current.every((c) => !previousIds.has(c.id)));
+  assert.equal((await records.getDocument(documentId))?.chunk_size, 150);
+});
+
+test("a failed replace keeps the previous version", async () => {
+  const { hashContent, ingestDocument } = await import("@/lib/ingest");
+  const { getRecordStore } = await import("@/lib/recordStore");
+  const { getVectorStore } = await import("@/lib/vectorStore");
+  const records = await getRecordStore();
+  const store = await getVectorStore();
+
+  const importFile = (text: string, replaceDocumentId: number | null) => {
+    const buffer = Buffer.from(text);
+    return ingestDocument({
+      buffer,
+      fileName: "handbook.md",
+      chunkSize: 100,
+      overlap: 0,
+      contentHash: hashContent(buffer),
+      replaceDocumentId,
+    });
+  };
+
+  const original = "# 考勤\n\n每天九点前打卡，迟到三次以上扣除当月全勤奖。";
+  const { documentId } = await importFile(original, null);
+  const previous = await store.listByDocument(documentId);
+
+  failEmbeddings = true;
+  try {
+    const { result } = await importFile(
+      "# 考勤\n\n改为弹性工作制，每天工作满八小时即可。",
+      documentId
+    );
+    assert.equal(result.keptPrevious, true);
+  } finally {
+    failEmbeddings = false;
+  }
+
+  assert.deepEqual(await store.listByDocument(documentId), previous);
+  const doc = await records.getDocument(documentId);
+  assert.equal(doc?.content, original);
+  assert.equal(doc.index_status, "indexed");
+});
+
+// 🌐 直接调用路由处理函数，确认文档 / 运行记录 / 提示词接口在本地模式下也不碰 Supabase
+const request = (url: string, init?: { method: string; body: string }) =>
+  new NextRequest(new URL(url, "http://localhost"), init);
+const params = (id: number) => ({
+  params: Promise.resolve({ id: String(id) }),
+});
+
+test("document routes list, edit and delete without Supabase", async () => {
+  const { hashContent, ingestDocument } = await import("@/lib/ingest");
+  const { getVectorStore } = await import("@/lib/vectorStore");
+  const documents = await import("@/app/api/documents/route");
+  const document = await import("@/app/api/documents/[id]/route");
+  const folders = await import("@/app/api/documents/folders/route");
+  const facets = await import("@/app/api/documents/facets/route");
+
+  const buffer = Buffer.from(
+    "# 加班\n\n工作日加班按 1.5 倍计算调休，周末加班按 2 倍计算。"
+  );
+  const { documentId } = await ingestDocument({
+    buffer,
+    fileName: "overtime.md",
+    chunkSize: 100,
+    overlap: 0,
+    contentHash: hashContent(buffer),
+    metadata: { category: "hr/attendance" },
+  });
+
+  let res: Response = await documents.GET(
+    request("/api/documents?folder=hr&search=OVERTIME")
+  );
+  assert.equal(res.status, 200);
+  const list = await res.json();
+  assert.equal(list.total, 1);
+  assert.equal(list.items[0].id, documentId);
+  assert.equal(list.items[0].category, "hr/attendance");
+  assert.ok(list.items[0].chunk_count > 0);
+
+  res = await document.PATCH(
+    request(`/api/documents/${documentId}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        name: "加班制度.md",
+        metadata: {
+          category: "hr/attendance",
+          department: "人事部",
+          tags: ["加班"],
+        },
+      }),
+    }),
+    params(documentId)
+  );
+  assert.equal(res.status, 200);
+
+  res = await document.GET(
+    request(`/api/documents/${documentId}`),
+    params(documentId)
+  );
+  assert.equal(res.status, 200);
+  const detail = await res.json();
+  assert.equal(detail.document.name, "加班制度.md");
+  assert.equal(detail.document.metadata.department, "人事部");
+  assert.ok(detail.chunks.length > 0);
+
+  const folderList = await (await folders.GET()).json();
+  assert.deepEqual(
+    folderList.folders.find(
+      (f: { folder: string }) => f.folder === "hr/attendance"
+    ),
+    { folder: "hr/attendance", document_count: 1 }
+  );
+  const facetList = await (await facets.GET()).json();
+  assert.deepEqual(facetList.departments, [
+    { value: "人事部", count: 1 },
+    { value: "财务部", count: 1 },
+  ]);
+  assert.ok(facetList.tags.some((t: { value: string }) => t.value === "加班"));
+
+  res = await document.DELETE(
+    request(`/api/documents/${documentId}`),
+    params(documentId)
+  );
+  assert.equal(res.status, 200);
+  const store = await getVectorStore();
+  assert.deepEqual(await store.listByDocument(documentId), []);
+  res = await document.GET(
+    request(`/api/documents/${documentId}`),
+    params(documentId)
+  );
+  assert.equal(res.status, 404);
+  res = await document.DELETE(
+    request(`/api/documents/${documentId}`),
+    params(documentId)
+  );
+  assert.equal(res.status, 404);
+});
+
+test("run history and prompt template routes work without Supabase", async () => {
+  const { getRecordStore } = await import("@/lib/recordStore");
+  const runs = await import("@/app/api/runs/route");
+  const run = await import("@/app/api/runs/[id]/route");
+  const prompts = await import("@/app/api/prompts/route");
+  const prompt = await import("@/app/api/prompts/[id]/route");
+  const { resolvePromptTemplate } = await import("@/lib/promptTemplates");
+
+  const records = await getRecordStore();
+  await records.insertRun({
+    question: "加班怎么算",
+    answer: "按 1.5 倍。",
+    topk: 5,
+  });
+
+  let res: Response = await runs.GET(request("/api/runs?page=1&pageSize=1"));
+  assert.equal(res.status, 200);
+  const list = await res.json();
+  assert.ok(list.total >= 2);
+  assert.equal(list.items.length, 1);
+  assert.equal(list.items[0].question, "加班怎么算");
+  assert.equal(list.items[0].topk, 5);
+  assert.equal(list.items[0].groundedness, null);
+
+  res = await run.GET(
+    request(`/api/runs/${list.items[0].id}`),
+    params(list.items[0].id)
+  );
+  assert.equal((await res.json()).answer, "按 1.5 倍。");
+  res = await run.GET(request("/api/runs/99999"), params(99999));
+  assert.equal(res.status, 404);
+
+  const draft = {
+    name: "hr-policy",
+    system_prompt: "你是人事助手，用{{language}}回答。",
+    user_prompt: "{{context}}\n\n问题：{{question}}",
+  };
+  res = await prompts.POST(
+    request("/api/prompts", { method: "POST", body: JSON.stringify(draft) })
+  );
+  assert.equal(res.status, 201);
+  res = await prompts.POST(
+    request("/api/prompts", {
+      method: "POST",
+      body: JSON.stringify({
+        ...draft,
+        description: "第二版",
+        makeDefault: true,
+      }),
+    })
+  );
+  const second = await res.json();
+  assert.equal(second.version, 2);
+  assert.equal(second.is_default, true);
+
+  res = await prompt.PATCH(
+    request(`/api/prompts/${second.id - 1}`, {
+      method: "PATCH",
+      body: JSON.stringify({ is_default: true }),
+    }),
+    params(second.id - 1)
+  );
+  assert.equal(res.status, 200);
+  const { templates } = await (await prompts.GET()).json();
+  assert.deepEqual(
+    templates.map((t: { version: number; is_default: boolean }) => [
+      t.version,
+      t.is_default,
+    ]),
+    [
+      [2, false],
+      [1, true],
+    ]
+  );
+  assert.equal((await resolvePromptTemplate("")).version, 1);
+  assert.equal((await resolvePromptTemplate("hr-policy")).version, 2);
+});
+
+test("concurrent migration requests start only one job", async () => {
+  const { EmbeddingMigrationError, startEmbeddingMigration } =
+    await import("@/lib/embeddingMigration");
+  const { getJob } = await import("@/lib/jobs");
+  const target = {
+    provider: "openai" as const,
+    model: "fake-embedding-v2",
+    dimensions: DIMENSIONS,
+  };
+
+  const results = await Promise.allSettled([
+    startEmbeddingMigration(target),
+    startEmbeddingMigration(target),
+  ]);
+  const started = results.flatMap((r) =>
+    r.status === "fulfilled" ? [r.value] : []
+  );
+  const errors = results.flatMap((r) =>
+    r.status === "rejected" ? [r.reason] : []
+  );
+  assert.equal(started.length, 1);
+  assert.equal(errors.length, 1);
+  assert.ok(errors[0] instanceof EmbeddingMigrationError);
+
+  // 第一个任务还没结束，再发起同一目标也不会起第二个
+  await assert.rejects(
+    startEmbeddingMigration(target),
+    EmbeddingMigrationError
+  );
+  assert.equal((await getJob(started[0].id))?.status, "queued");
+});
@@ -0,0 +1,92 @@
+// tests/promptBuilder.test.ts
+// 🧪 按 token 预算组装提示词：片段按相关度放入、放不下的跳过、单个超长片段截断、历史从最近一轮往前放
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildPrompt, countTokens, getPromptBudget } from "@/lib/promptBuilder";
+
+// 预算在调用时读取环境变量：窗口 400、预留回答 100 → 提示词最多 300 tokens
+process.env.AI_CONTEXT_WINDOW = "400";
+process.env.AI_MAX_ANSWER_TOKENS = "100";
+
+const MODEL = "gpt-4o-mini";
+const words = (n: number, word = "leave") => Array(n).fill(word).join(" ");
+
+const base = {
+  model: MODEL,
+  systemPrompt: "Answer from the context only.",
+  history: [],
+  renderUserMessage: (context: string) => `${context}\n\nQuestion: days off?`,
+};
+
+test("getPromptBudget reserves the answer and discounts approximate counts", () => {
+  assert.deepEqual(getPromptBudget(MODEL), {
+    contextWindow: 400,
+    reservedForAnswer: 100,
+    budget: 300,
+  });
+  // 没有对应分词器的模型按 cl100k 近似计数，预算打九折
+  assert.equal(getPromptBudget("qwen-plus").budget, 270);
+});
+
+test("chunks that do not fit are skipped and shorter ones still get in", () => {
+  const { messages, stats } = buildPrompt({
+    ...base,
+    chunks: [
+      { id: 1, content: words(100) },
+      { id: 2, content: words(250) },
+      { id: 3, content: words(80) },
+    ],
+    chunkLabel: (n) => `[${n}] `,
+  });
+
+  assert.deepEqual(stats.includedChunkIds, [1, 3]);
+  assert.deepEqual(stats.droppedChunkIds, [2]);
+  assert.equal(stats.truncatedChunkId, null);
+  assert.ok(stats.used <= stats.budget);
+  assert.equal(stats.used, stats.system + stats.context + stats.history);
+  // 编号按放入的顺序重排，和 sources 一致
+  assert.equal(
+    messages[messages.length - 1].content,
+    base.renderUserMessage(`[1] ${words(100)}\n---\n[2] ${words(80)}`)
+  );
+});
+
+test("a single oversized chunk is truncated instead of dropped", () => {
+  const { messages, stats } = buildPrompt({
+    ...base,
+    chunks: [
+      { id: 7, content: words(1000) },
+      { id: 8, content: words(900) },
+    ],
+  });
+
+  assert.deepEqual(stats.includedChunkIds, [7]);
+  assert.deepEqual(stats.droppedChunkIds, [8]);
+  assert.equal(stats.truncatedChunkId, 7);
+  assert.ok(stats.used <= stats.budget);
+  const user = messages[messages.length - 1].content;
+  assert.ok(countTokens(user, MODEL) < countTokens(words(1000), MODEL));
+});
+
+test("history is kept from the latest turn and stops at the first that does not fit", () => {
+  const history = [
+    { role: "user" as const, content: words(50, "old") },
+    { role: "assistant" as const, content: words(150, "long") },
+    { role: "user" as const, content: words(20, "recent") },
+    { role: "assistant" as const, content: words(20, "latest") },
+  ];
+  const { messages, stats } = buildPrompt({
+    ...base,
+    chunks: [{ id: 1, content: words(100) }],
+    history,
+  });
+
+  // 第二条放不下就停，不会跳过它去放更早、更短的第一条
+  assert.equal(stats.keptHistoryTurns, 2);
+  assert.equal(stats.droppedHistoryTurns, 2);
+  assert.deepEqual(
+    messages.map((m) => m.role),
+    ["system", "user", "assistant", "user"]
+  );
+  assert.equal(messages[1].content, history[2].content);
+});
@@ -0,0 +1,139 @@
+// tests/structuredOutput.test.ts
+// 🧪 结构化输出：调用方 schema 的校验、本地 JSON 校验和 strict 模式判断，不调用模型
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+// ai-client 在 import 时创建客户端，没有 key 会直接报错；这里只用到纯函数
+process.env.AI_API_KEY ??= "test";
+const load = () => import("@/lib/structuredOutput");
+
+const RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    approved: { type: "boolean" },
+    days: { type: "integer", minimum: 0, maximum: 30 },
+    reasons: { type: "array", items: { type: "string" }, maxItems: 2 },
+    level: { enum: ["low", "high"] },
+  },
+  required: ["approved", "days"],
+  additionalProperties: false,
+};
+
+test("normalizeJsonSchema keeps supported keywords and rejects the rest", async () => {
+  const { InvalidSchemaError, normalizeJsonSchema } = await load();
+
+  const schema = normalizeJsonSchema({ ...RESULT_SCHEMA, title: "审批结果" });
+  assert.deepEqual(schema.properties?.days, {
+    type: "integer",
+    minimum: 0,
+    maximum: 30,
+  });
+  assert.equal("title" in schema, false);
+
+  assert.throws(
+    () => normalizeJsonSchema({ type: "array", items: { type: "string" } }),
+    /root schema must be an object/
+  );
+  assert.throws(
+    () =>
+      normalizeJsonSchema({
+        type: "object",
+        properties: { code: { type: "string", pattern: "^[A-Z]+$" } },
+      }),
+    (e) =>
+      e instanceof InvalidSchemaError &&
+      e.message === "$.properties.code: unsupported keywords pattern"
+  );
+  assert.throws(
+    () =>
+      normalizeJsonSchema({
+        type: "object",
+        properties: { days: { type: "integer", minimum: "1" } },
+      }),
+    /\$\.properties\.days\.minimum must be a number/
+  );
+});
+
+test("normalizeJsonSchema limits nesting depth", async () => {
+  const { MAX_SCHEMA_DEPTH, normalizeJsonSchema } = await load();
+  let nested: object = { type: "string" };
+  for (let i = 0; i <= MAX_SCHEMA_DEPTH; i++) {
+    nested = { type: "object", properties: { child: nested } };
+  }
+  assert.throws(() => normalizeJsonSchema(nested), /nested too deeply/);
+});
+
+test("validateJson reports every violation with its path", async () => {
+  const { normalizeJsonSchema, validateJson } = await load();
+  const schema = normalizeJsonSchema(RESULT_SCHEMA);
+
+  assert.deepEqual(
+    validateJson({ approved: true, days: 5, reasons: ["满一年"] }, schema),
+    []
+  );
+  assert.deepEqual(
+    validateJson(
+      { days: 31.5, reasons: ["a", 1, "c"], level: "mid", extra: null },
+      schema
+    ),
+    [
+      "$.approved: is required",
+      "$.days: expected integer, got number",
+      "$.reasons: must have <= 2 items",
+      "$.reasons[1]: expected string, got integer",
+      '$.level: must be one of ["low","high"]',
+      "$.extra: is not allowed",
+    ]
+  );
+  // 整数也满足 number；required 只认自身属性，不认原型链上的
+  assert.deepEqual(validateJson(3, { type: "number", maximum: 2 }), [
+    "$: must be <= 2",
+  ]);
+  assert.deepEqual(
+    validateJson(Object.create({ approved: true }), {
+      type: "object",
+      required: ["approved"],
+    }),
+    ["$.approved: is required"]
+  );
+});
+
+test("isStrictCompatible rejects range keywords and open objects", async () => {
+  const { isStrictCompatible } = await load();
+  const strict = {
+    type: "object" as const,
+    properties: {
+      name: { type: "string" as const },
+      tags: { type: "array" as const, items: { type: "string" as const } },
+    },
+    required: ["name", "tags"],
+    additionalProperties: false,
+  };
+  assert.equal(isStrictCompatible(strict), true);
+  assert.equal(
+    isStrictCompatible({ ...strict, required: ["name"] }),
+    false,
+    "every property must be required"
+  );
+  assert.equal(
+    isStrictCompatible({ ...strict, additionalProperties: undefined }),
+    false
+  );
+  for (const [key, value] of [
+    ["minimum", 0],
+    ["maximum", 10],
+    ["minLength", 1],
+    ["maxLength", 10],
+    ["minItems", 1],
+    ["maxItems", 3],
+  ] as const) {
+    assert.equal(
+      isStrictCompatible({
+        ...strict,
+        properties: { ...strict.properties, name: { [key]: value } },
+      }),
+      false,
+      key
+    );
+  }
+});
@@ -0,0 +1,85 @@
+// tests/webPage.test.ts
+// 🧪 网页抓取：对着本机静态服务器验证大小上限、错误码和文件名解析
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import {
+  MAX_PAGE_BYTES,
+  PageFetchError,
+  fetchPage,
+  pageFileName,
+} from "@/lib/webPage";
+
+const PAGE =
+  "<html><head><title>年假制度</title></head><body>10 天</body></html>";
+
+let server: Server;
+let base: string;
+let bytesSent = 0;
+
+before(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/page.html") {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.end(PAGE);
+      return;
+    }
+    if (req.url === "/endless") {
+      // 分块传输、不带 Content-Length，一直写到客户端断开
+      res.setHeader("Content-Type", "text/html");
+      const block = Buffer.alloc(64 * 1024, "a");
+      const write = () => {
+        while (!res.destroyed && bytesSent < MAX_PAGE_BYTES * 4) {
+          bytesSent += block.length;
+          if (!res.write(block)) return void res.once("drain", write);
+        }
+        res.end();
+      };
+      write();
+      return;
+    }
+    res.statusCode = 404;
+    res.end("not found");
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test("fetches a page", async () => {
+  const page = await fetchPage(new URL(`${base}/page.html`));
+  assert.equal(page.buffer.toString("utf8"), PAGE);
+  assert.match(page.contentType ?? "", /text\/html/);
+});
+
+test("stops reading a body without Content-Length past the size limit", async () => {
+  await assert.rejects(
+    fetchPage(new URL(`${base}/endless`)),
+    (e) => e instanceof PageFetchError && e.status === 413
+  );
+  // 超限后立刻断开，服务端不会把 4 倍上限的数据全部写完
+  assert.ok(bytesSent < MAX_PAGE_BYTES * 4);
+});
+
+test("maps upstream errors to 502", async () => {
+  await assert.rejects(
+    fetchPage(new URL(`${base}/missing`)),
+    (e) => e instanceof PageFetchError && e.status === 502
+  );
+});
+
+test("keeps path segments that are not valid percent-encoding", () => {
+  assert.equal(pageFileName(new URL("http://wiki.local/wiki/100%")), "100%");
+  assert.equal(
+    pageFileName(new URL("http://wiki.local/wiki/%E5%B9%B4%E5%81%87")),
+    "年假"
+  );
+  assert.equal(pageFileName(new URL("http://wiki.local/")), "wiki.local");
+});
@@ -0,0 +1,114 @@
+// tests/zip.test.ts
+// 🧪 ZIP 读取：stored / deflate 条目、目录、大小上限，以及截断 / 伪造的压缩包都报 InvalidZipError
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { deflateRawSync } from "zlib";
+import { InvalidZipError, readZipEntries } from "@/lib/zip";
+
+type TestEntry = {
+  name: string;
+  data?: string;
+  deflate?: boolean;
+  size?: number;
+};
+
+// 🧱 按 ZIP 格式拼出 本地头 + 数据 → 中央目录 → EOCD；读取器不校验 CRC，填 0 即可
+function buildZip(entries: TestEntry[]) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const raw = Buffer.from(entry.data ?? "");
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const name = Buffer.from(entry.name);
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.size ?? raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const POLICY = "员工入职满一年后每年享有 10 天带薪年假。".repeat(20);
+
+test("reads stored and deflated entries and marks directories", () => {
+  const entries = readZipEntries(
+    buildZip([
+      { name: "制度/" },
+      { name: "制度\\年假.md", data: POLICY, deflate: true },
+      { name: "readme.txt", data: "hello" },
+    ])
+  );
+
+  assert.deepEqual(
+    entries.map((e) => [e.name, e.isDirectory, e.size]),
+    [
+      ["制度/", true, 0],
+      ["制度/年假.md", false, Buffer.byteLength(POLICY)],
+      ["readme.txt", false, 5],
+    ]
+  );
+  assert.equal(entries[1].read().toString(), POLICY);
+  assert.equal(entries[2].read().toString(), "hello");
+});
+
+test("rejects entries over the size limit or with a forged size", () => {
+  const [large] = readZipEntries(
+    buildZip([{ name: "a.md", data: POLICY, deflate: true }])
+  );
+  assert.throws(() => large.read(100), /Zip entry too large: a\.md/);
+
+  // 中央目录声明 10 字节，实际能解压出更多：按声明的大小截住并拒绝
+  const [forged] = readZipEntries(
+    buildZip([{ name: "bomb.md", data: POLICY, deflate: true, size: 10 }])
+  );
+  assert.throws(() => forged.read(), InvalidZipError);
+  const [stored] = readZipEntries(
+    buildZip([{ name: "b.md", data: "hello", size: 3 }])
+  );
+  assert.throws(() => stored.read(), /size mismatch: b\.md/);
+});
+
+test("truncated or non-zip input raises InvalidZipError", () => {
+  assert.throws(
+    () => readZipEntries(Buffer.from("not a zip at all, just some text")),
+    /Not a zip file/
+  );
+
+  const zip = buildZip([{ name: "a.md", data: POLICY }]);
+  // 去掉中间的数据：EOCD 还在，但中央目录偏移已经越界
+  const truncated = Buffer.concat([zip.subarray(0, 40), zip.subarray(-22)]);
+  assert.throws(() => readZipEntries(truncated), InvalidZipError);
+
+  // 中央目录声明的压缩长度超出文件末尾：读取条目时才发现
+  const forged = Buffer.from(zip);
+  forged.writeUInt32LE(0xffffff, zip.length - 22 - 46 - "a.md".length + 20);
+  const [entry] = readZipEntries(forged);
+  assert.throws(
+    () => entry.read(),
+    /Corrupted zip: data of a\.md out of range/
+  );
+});